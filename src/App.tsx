@@ -1,10 +1,13 @@
 import { useEffect, useRef } from 'react'
 import { Canvas } from '@react-three/fiber'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { SpotifyValidationError } from '@/api/spotify/client'
+import { AuthError } from '@/api/spotify/auth'
 import { useAuthStore } from '@/stores/authStore'
 import { useSpotifyPlayer } from '@/audio/useSpotifyPlayer'
 import { usePlaybackStore } from '@/stores/playbackStore'
 import { useFeatureFlagsStore } from '@/stores/featureFlagsStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
 import { AppShell } from '@/components/layout/AppShell'
 import { Scene } from '@/components/canvas/Scene'
 import { ArtistPanel } from '@/components/ui/ArtistPanel'
@@ -12,7 +15,13 @@ import { NowPlayingBar } from '@/components/ui/NowPlayingBar'
 import { GenreLegend } from '@/components/ui/GenreLegend'
 import { SettingsPanel } from '@/components/ui/SettingsPanel'
 import { OnboardingOverlay } from '@/components/ui/OnboardingOverlay'
+import { AuthErrorScreen } from '@/components/ui/AuthErrorScreen'
+import { PlaylistBuilder } from '@/components/ui/PlaylistBuilder'
+import { LassoOverlay } from '@/components/ui/LassoOverlay'
+import { HistoryDropOverlay } from '@/components/ui/HistoryDropOverlay'
 import { DataLoader } from '@/components/DataLoader'
+import { DiscoveryLoader } from '@/components/DiscoveryLoader'
+import { usePersistedCache, useSessionSync } from '@/hooks'
 import { TouchHints } from '@/components/canvas/TouchControls'
 import './App.css'
 
@@ -20,7 +29,11 @@ import './App.css'
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      retry: 2,
+      // A malformed response or a dead session won't fix itself on retry
+      retry: (failureCount, error) =>
+        !(error instanceof SpotifyValidationError) &&
+        !(error instanceof AuthError && error.kind !== 'network') &&
+        failureCount < 2,
       staleTime: 5 * 60 * 1000, // 5 minutes
     },
   },
@@ -45,26 +58,27 @@ function GalaxyView(): React.JSX.Element {
 }
 
 
+/**
+ * Processes the OAuth callback and shows a recovery screen when a login
+ * fails or the session ends
+ */
 function AuthHandler(): React.JSX.Element | null {
-  const { handleAuthCallback, checkAuth } = useAuthStore()
+  const { handleAuthCallback, checkAuth, error, login, clearError } =
+    useAuthStore()
+  const enterDemoMode = useDataSourceStore((state) => state.enterDemoMode)
   const callbackHandledRef = useRef(false)
 
+  // Proactive token refresh and login/logout sync with other tabs
+  useSessionSync()
+
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search)
-    const code = urlParams.get('code')
-    const authError = urlParams.get('error')
+    const isCallback = urlParams.has('code') || urlParams.has('error')
 
-    // Clear URL immediately to prevent re-reads
-    if (code || authError) {
+    if (isCallback) {
+      // Clear URL immediately to prevent re-reads
       window.history.replaceState({}, document.title, '/')
-    }
 
-    if (authError) {
-      console.error('Spotify auth error:', authError)
-      return
-    }
-
-    if (code) {
       // Prevent double execution (React 18 Strict Mode)
       if (callbackHandledRef.current) {
         console.log('AuthHandler: callback already handled, skipping')
@@ -72,7 +86,7 @@ function AuthHandler(): React.JSX.Element | null {
       }
       callbackHandledRef.current = true
 
-      handleAuthCallback(code).then((success) => {
+      handleAuthCallback(urlParams).then((success) => {
         console.log('AuthHandler: callback result:', success)
         if (!success) {
           callbackHandledRef.current = false // Reset on failure
@@ -84,7 +98,19 @@ function AuthHandler(): React.JSX.Element | null {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []) // Run only once on mount
 
-  return null
+  if (!error) return null
+
+  return (
+    <AuthErrorScreen
+      error={error}
+      onRetry={() => void login()}
+      onStartDemo={() => {
+        clearError()
+        enterDemoMode()
+      }}
+      onDismiss={clearError}
+    />
+  )
 }
 
 
@@ -135,11 +161,20 @@ function SpotifyPlayerProvider(): React.JSX.Element | null {
 
 function AppContent(): React.JSX.Element {
   const { isAuthenticated, login } = useAuthStore()
+  const isDemoMode = useDataSourceStore((state) => state.isDemoMode)
+  const enterDemoMode = useDataSourceStore((state) => state.enterDemoMode)
+  const { isRestoring } = usePersistedCache()
+  // Demo mode renders the full galaxy UI without a Spotify session
+  const hasGalaxy = isAuthenticated || isDemoMode
 
   return (
     <AppShell>
       {/* Data loader - handles fetching and transforming Spotify data */}
-      <DataLoader />
+      {/* Waits for the persisted cache so restored queries aren't refetched */}
+      {!isRestoring && <DataLoader />}
+
+      {/* Discovery halo - related artists around their source planet */}
+      <DiscoveryLoader />
 
       {/* Spotify SDK player initialization and debug indicator */}
       <SpotifyPlayerProvider />
@@ -151,22 +186,31 @@ function AppContent(): React.JSX.Element {
       <AuthHandler />
 
       {/* Unified onboarding overlay - handles welcome, connecting, success, and loading states */}
-      <OnboardingOverlay onStartLogin={login} />
+      <OnboardingOverlay onStartLogin={login} onStartDemo={enterDemoMode} />
 
       {/* Settings panel with feature flags */}
-      {isAuthenticated && <SettingsPanel />}
+      {hasGalaxy && <SettingsPanel />}
+
+      {/* Streaming history files dropped onto the app */}
+      {hasGalaxy && <HistoryDropOverlay />}
 
       {/* Genre legend overlay */}
-      {isAuthenticated && <GenreLegend />}
+      {hasGalaxy && <GenreLegend />}
 
       {/* Mobile touch hints */}
-      {isAuthenticated && <TouchHints />}
+      {hasGalaxy && <TouchHints />}
 
       {/* Selected artist panel */}
-      {isAuthenticated && <ArtistPanel />}
+      {hasGalaxy && <ArtistPanel />}
+
+      {/* Lasso tool for picking a galaxy region */}
+      {hasGalaxy && <LassoOverlay />}
+
+      {/* Playlist builder (genre, neighborhood or lasso selection) */}
+      {hasGalaxy && <PlaylistBuilder />}
 
       {/* Persistent now playing bar */}
-      {isAuthenticated && <NowPlayingBar />}
+      {hasGalaxy && <NowPlayingBar />}
     </AppShell>
   )
 }
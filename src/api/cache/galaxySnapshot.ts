@@ -0,0 +1,46 @@
+import type { GalaxyData, TimeRange } from '@/types/domain'
+import { profileKey } from '@/api/spotify/profiles'
+import { idbDelete, idbGet, idbSet } from './idbStore'
+
+const GALAXY_SNAPSHOT_KEY = 'galaxy-snapshot'
+// Older snapshots are ignored - a full reload beats showing stale data
+const SNAPSHOT_MAX_AGE = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Last rendered galaxy, shown instantly on the next visit
+ */
+export interface GalaxySnapshot {
+  galaxyData: GalaxyData
+  timeRange: TimeRange
+  providerId: string
+  /** When the underlying Spotify data was fetched */
+  dataUpdatedAt: number
+  savedAt: number
+}
+
+/**
+ * Save the current galaxy for the active profile (replaces any previous one)
+ */
+export function saveGalaxySnapshot(snapshot: GalaxySnapshot): Promise<void> {
+  return idbSet(profileKey(GALAXY_SNAPSHOT_KEY), snapshot)
+}
+
+/**
+ * Load the last galaxy snapshot if it is recent enough
+ */
+export async function loadGalaxySnapshot(): Promise<
+  GalaxySnapshot | undefined
+> {
+  const snapshot = await idbGet<GalaxySnapshot>(profileKey(GALAXY_SNAPSHOT_KEY))
+  if (!snapshot || Date.now() - snapshot.dataUpdatedAt > SNAPSHOT_MAX_AGE) {
+    return undefined
+  }
+  return snapshot
+}
+
+/**
+ * Remove a profile's galaxy snapshot (the active profile by default)
+ */
+export function clearGalaxySnapshot(profileId?: string): Promise<void> {
+  return idbDelete(profileKey(GALAXY_SNAPSHOT_KEY, profileId))
+}
@@ -0,0 +1,95 @@
+/**
+ * Minimal promise-based key/value store on top of IndexedDB
+ * Every call resolves (never rejects) so callers can treat persistence as
+ * best-effort - private browsing and test environments may not have it
+ */
+
+const DB_NAME = 'auranova-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'entries'
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null)
+      return
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (): void => {
+        request.result.createObjectStore(STORE_NAME)
+      }
+      request.onsuccess = (): void => {
+        resolve(request.result)
+      }
+      request.onerror = (): void => {
+        resolve(null)
+      }
+    } catch {
+      resolve(null)
+    }
+  })
+
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+  fallback: T
+): Promise<T> {
+  const db = await openDatabase()
+  if (!db) return fallback
+
+  return new Promise((resolve) => {
+    try {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = run(transaction.objectStore(STORE_NAME))
+      request.onsuccess = (): void => {
+        resolve((request.result as T | undefined) ?? fallback)
+      }
+      request.onerror = (): void => {
+        resolve(fallback)
+      }
+    } catch {
+      resolve(fallback)
+    }
+  })
+}
+
+/**
+ * Read a value (undefined if missing or IndexedDB is unavailable)
+ */
+export function idbGet<T>(key: string): Promise<T | undefined> {
+  return withStore<T | undefined>(
+    'readonly',
+    (store) => store.get(key),
+    undefined
+  )
+}
+
+/**
+ * Write a value (structured-cloneable data only)
+ */
+export async function idbSet(key: string, value: unknown): Promise<void> {
+  await withStore('readwrite', (store) => store.put(value, key), undefined)
+}
+
+/**
+ * Remove a single value
+ */
+export async function idbDelete(key: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(key), undefined)
+}
+
+/**
+ * Remove every value
+ */
+export async function idbClear(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear(), undefined)
+}
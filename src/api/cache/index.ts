@@ -0,0 +1,20 @@
+// Re-export persistence helpers
+export {
+  restoreQueryCache,
+  persistQueryCache,
+  clearPersistedCache,
+  PERSISTED_QUERY_MAX_AGE,
+} from './queryPersister'
+export {
+  saveGalaxySnapshot,
+  loadGalaxySnapshot,
+  clearGalaxySnapshot,
+  type GalaxySnapshot,
+} from './galaxySnapshot'
+export {
+  saveListeningHistory,
+  loadListeningHistory,
+  clearListeningHistory,
+  type ImportedListeningHistory,
+  type HistoryGalaxySource,
+} from './listeningHistory'
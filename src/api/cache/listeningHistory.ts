@@ -0,0 +1,49 @@
+import type {
+  HistoryWindow,
+  ListeningPlay,
+} from '@/simulation/listeningHistory'
+import { profileKey } from '@/api/spotify/profiles'
+import { idbDelete, idbGet, idbSet } from './idbStore'
+
+const LISTENING_HISTORY_KEY = 'listening-history'
+
+// Where the galaxy's artists come from while a history is imported
+export type HistoryGalaxySource = 'top_artists' | 'history'
+
+/**
+ * Listening history imported from files, kept until the user removes it
+ * Raw plays are kept so the date window can change without a re-import
+ */
+export interface ImportedListeningHistory {
+  plays: ListeningPlay[]
+  /** Names of the files the plays were read from */
+  fileNames: string[]
+  importedAt: number
+  window: HistoryWindow
+  galaxySource: HistoryGalaxySource
+}
+
+/**
+ * Save the imported history for the active profile (replaces any previous one)
+ */
+export function saveListeningHistory(
+  history: ImportedListeningHistory
+): Promise<void> {
+  return idbSet(profileKey(LISTENING_HISTORY_KEY), history)
+}
+
+/**
+ * Load the active profile's imported history
+ */
+export function loadListeningHistory(): Promise<
+  ImportedListeningHistory | undefined
+> {
+  return idbGet<ImportedListeningHistory>(profileKey(LISTENING_HISTORY_KEY))
+}
+
+/**
+ * Remove a profile's imported history (the active profile by default)
+ */
+export function clearListeningHistory(profileId?: string): Promise<void> {
+  return idbDelete(profileKey(LISTENING_HISTORY_KEY, profileId))
+}
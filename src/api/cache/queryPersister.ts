@@ -0,0 +1,135 @@
+/**
+ * Persist the TanStack Query cache to IndexedDB
+ * Restored queries keep their original dataUpdatedAt, so each hook's
+ * staleTime still decides when to revalidate in the background
+ */
+
+import {
+  dehydrate,
+  hydrate,
+  type DehydratedState,
+  type Query,
+  type QueryClient,
+  type QueryKey,
+} from '@tanstack/react-query'
+import { DEMO_PROVIDER_ID } from '@/api/providers/demoProvider'
+import { profileKey } from '@/api/spotify/profiles'
+import { idbDelete, idbGet, idbSet } from './idbStore'
+import { clearGalaxySnapshot } from './galaxySnapshot'
+
+const QUERY_CACHE_KEY = 'query-cache'
+// Bump when persisted query data changes shape
+const CACHE_BUSTER = 'v1'
+// Coalesce bursts of cache updates into one write
+const PERSIST_THROTTLE_MS = 1000
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+/**
+ * How long persisted data stays usable, per query key root
+ * Queries not listed here are never persisted
+ */
+export const PERSISTED_QUERY_MAX_AGE: Partial<Record<string, number>> = {
+  topArtists: DAY,
+  topTracks: DAY,
+  audioFeatures: 7 * DAY, // Audio features don't change
+  recentlyPlayed: HOUR,
+  libraryArtists: DAY,
+  relatedArtists: 7 * DAY,
+  artistTopTracks: DAY,
+  userProfile: DAY,
+}
+
+interface PersistedQueryCache {
+  buster: string
+  savedAt: number
+  state: DehydratedState
+}
+
+/**
+ * Whether persisted data for a query key is still within its max age
+ */
+function isWithinMaxAge(
+  queryKey: QueryKey,
+  dataUpdatedAt: number,
+  now: number
+): boolean {
+  const maxAge = PERSISTED_QUERY_MAX_AGE[String(queryKey[0])]
+  return maxAge !== undefined && now - dataUpdatedAt <= maxAge
+}
+
+function shouldPersistQuery(query: Query): boolean {
+  return (
+    query.state.status === 'success' &&
+    // Demo data is generated locally, caching it buys nothing
+    query.queryKey[1] !== DEMO_PROVIDER_ID &&
+    isWithinMaxAge(query.queryKey, query.state.dataUpdatedAt, Date.now())
+  )
+}
+
+async function writeQueryCache(queryClient: QueryClient): Promise<void> {
+  const persisted: PersistedQueryCache = {
+    buster: CACHE_BUSTER,
+    savedAt: Date.now(),
+    state: dehydrate(queryClient, {
+      shouldDehydrateQuery: shouldPersistQuery,
+      shouldDehydrateMutation: () => false,
+    }),
+  }
+  await idbSet(profileKey(QUERY_CACHE_KEY), persisted)
+}
+
+/**
+ * Load persisted queries into the client, dropping ones past their max age
+ */
+export async function restoreQueryCache(
+  queryClient: QueryClient
+): Promise<void> {
+  const persisted = await idbGet<PersistedQueryCache>(
+    profileKey(QUERY_CACHE_KEY)
+  )
+  if (persisted?.buster !== CACHE_BUSTER) return
+
+  const now = Date.now()
+  hydrate(queryClient, {
+    mutations: [],
+    queries: persisted.state.queries.filter((query) =>
+      isWithinMaxAge(query.queryKey, query.state.dataUpdatedAt, now)
+    ),
+  })
+}
+
+/**
+ * Write the query cache to IndexedDB whenever it changes (throttled)
+ * @returns Unsubscribe function
+ */
+export function persistQueryCache(queryClient: QueryClient): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== 'updated' && event.type !== 'removed') return
+    if (timer) return
+
+    timer = setTimeout(() => {
+      timer = null
+      void writeQueryCache(queryClient)
+    }, PERSIST_THROTTLE_MS)
+  })
+
+  return () => {
+    unsubscribe()
+    if (timer) clearTimeout(timer)
+  }
+}
+
+/**
+ * Remove a profile's persisted queries and galaxy snapshot
+ * Defaults to the active profile
+ */
+export async function clearPersistedCache(profileId?: string): Promise<void> {
+  await Promise.all([
+    idbDelete(profileKey(QUERY_CACHE_KEY, profileId)),
+    clearGalaxySnapshot(profileId),
+  ])
+}
@@ -1,6 +1,21 @@
 export { useTopArtists } from './useTopArtists'
 export { useTopTracks } from './useTopTracks'
 export { useAudioFeatures } from './useAudioFeatures'
-export { useArtistTopTracks, getTracksWithPreviews } from './useArtistTopTracks'
+export {
+  useArtistTopTracks,
+  getTracksWithPreviews,
+  getPlayableTracks,
+  isTrackPlayable,
+} from './useArtistTopTracks'
 export { useReducedMotion } from './useReducedMotion'
 export { useUserProfile } from './useUserProfile'
+export { useUserMarket } from './useUserMarket'
+export { useRequestScheduler } from './useRequestScheduler'
+export { useRecentlyPlayed } from './useRecentlyPlayed'
+export { useLibraryArtists } from './useLibraryArtists'
+export { useRelatedArtists } from './useRelatedArtists'
+export { usePersistedCache } from './usePersistedCache'
+export { useSessionSync } from './useSessionSync'
+export { useFeatureAccess } from './useFeatureAccess'
+export { usePlaylistPreview } from './usePlaylistPreview'
+export { useHistoryArtists } from './useHistoryArtists'
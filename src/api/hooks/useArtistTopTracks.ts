@@ -1,10 +1,13 @@
 import { useQuery } from '@tanstack/react-query'
-import { getArtistTopTracks } from '@/api/spotify/endpoints'
+import { DEFAULT_MARKET } from '@/api/spotify/endpoints'
 import type { SpotifyTrack } from '@/api/spotify/types'
 import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import { useUserMarket } from './useUserMarket'
 
 interface UseArtistTopTracksOptions {
   artistId: string | null
+  /** Defaults to the user's country */
   market?: string
   enabled?: boolean
 }
@@ -17,23 +20,32 @@ interface UseArtistTopTracksResult {
 }
 
 /**
- * Hook to fetch an artist's top tracks
+ * Hook to fetch an artist's top tracks in the user's market
  * Used for preview playback - returns tracks with preview_url
+ * Tracks come back relinked for the market; unplayable ones are kept, use
+ * getPlayableTracks to drop them
  */
 export function useArtistTopTracks(
   options: UseArtistTopTracksOptions
 ): UseArtistTopTracksResult {
-  const { artistId, market = 'US', enabled = true } = options
+  const { artistId, enabled = true } = options
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
+  const { market: userMarket, isLoading: isMarketLoading } = useUserMarket()
+  const market = options.market ?? userMarket ?? DEFAULT_MARKET
 
   const query = useQuery({
-    queryKey: ['artistTopTracks', artistId, market],
+    queryKey: ['artistTopTracks', provider.id, artistId, market],
     queryFn: async () => {
       if (!artistId) return []
-      const response = await getArtistTopTracks(artistId, market)
-      return response.tracks
+      return provider.getArtistTopTracks(artistId, market)
     },
-    enabled: enabled && isAuthenticated && !!artistId,
+    // Wait for the profile so tracks aren't fetched twice (default + user market)
+    enabled:
+      enabled &&
+      (isAuthenticated || !provider.requiresAuth) &&
+      !!artistId &&
+      (options.market !== undefined || !isMarketLoading),
     staleTime: 10 * 60 * 1000, // 10 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes
   })
@@ -49,11 +61,38 @@ export function useArtistTopTracks(
 }
 
 /**
- * Get tracks that have preview URLs available
+ * Whether a track can be played in the market it was requested for
+ * Tracks fetched without a market have no is_playable flag and count as
+ * playable
  */
-export function getTracksWithPreviews(
+export function isTrackPlayable(track: SpotifyTrack): boolean {
+  return track.is_playable !== false && track.restrictions === undefined
+}
+
+/**
+ * Get tracks the user can play, dropping unavailable ones
+ * Relinked tracks are kept (their id/uri already point at the playable
+ * version) but duplicates of the same original track are removed
+ */
+export function getPlayableTracks(
   tracks: SpotifyTrack[] | undefined
 ): SpotifyTrack[] {
   if (!tracks) return []
-  return tracks.filter((track) => track.preview_url !== null)
+  const seen = new Set<string>()
+  return tracks.filter((track) => {
+    if (!isTrackPlayable(track)) return false
+    const originalId = track.linked_from?.id ?? track.id
+    if (seen.has(originalId)) return false
+    seen.add(originalId)
+    return true
+  })
+}
+
+/**
+ * Get playable tracks that have preview URLs available
+ */
+export function getTracksWithPreviews(
+  tracks: SpotifyTrack[] | undefined
+): SpotifyTrack[] {
+  return getPlayableTracks(tracks).filter((track) => track.preview_url !== null)
 }
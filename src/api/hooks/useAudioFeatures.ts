@@ -1,7 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
-import { getAudioFeatures } from '@/api/spotify/endpoints'
 import type { SpotifyAudioFeatures } from '@/api/spotify/types'
 import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
 
 interface UseAudioFeaturesOptions {
   trackIds: string[]
@@ -16,17 +16,15 @@ export function useAudioFeatures(options: UseAudioFeaturesOptions): {
 } {
   const { trackIds, enabled = true } = options
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
 
   const query = useQuery({
-    queryKey: ['audioFeatures', trackIds],
-    queryFn: async () => {
-      const response = await getAudioFeatures(trackIds)
-      // Filter out null entries (tracks without audio features)
-      return response.audio_features.filter(
-        (f): f is SpotifyAudioFeatures => f !== null
-      )
-    },
-    enabled: enabled && isAuthenticated && trackIds.length > 0,
+    queryKey: ['audioFeatures', provider.id, trackIds],
+    queryFn: () => provider.getAudioFeatures(trackIds),
+    enabled:
+      enabled &&
+      (isAuthenticated || !provider.requiresAuth) &&
+      trackIds.length > 0,
     staleTime: 60 * 60 * 1000, // 1 hour - audio features don't change
     gcTime: 24 * 60 * 60 * 1000, // 24 hours
   })
@@ -0,0 +1,25 @@
+import { useAuthStore } from '@/stores/authStore'
+import { missingScopes, type AppFeature } from '@/api/spotify/scopes'
+
+/**
+ * Hook to check whether the session has the scopes a feature needs
+ * requestAccess re-authorizes with the missing scopes (a redirect to
+ * Spotify) - call it when the user invokes the feature, not up front
+ */
+export function useFeatureAccess(feature: AppFeature): {
+  hasAccess: boolean
+  missingScopes: string[]
+  requestAccess: () => Promise<void>
+} {
+  const grantedScopes = useAuthStore((state) => state.grantedScopes)
+  const requestFeatureAccess = useAuthStore(
+    (state) => state.requestFeatureAccess
+  )
+  const missing = missingScopes(feature, grantedScopes)
+
+  return {
+    hasAccess: missing.length === 0,
+    missingScopes: missing,
+    requestAccess: () => requestFeatureAccess(feature),
+  }
+}
@@ -0,0 +1,110 @@
+import { useMemo } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { SpotifyArtist } from '@/api/spotify/types'
+import {
+  findArtistMatch,
+  normalizeArtistName,
+  type ArtistListening,
+  type ListeningStats,
+} from '@/simulation/listeningHistory'
+import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+
+interface UseHistoryArtistsOptions {
+  stats: ListeningStats | null
+  // Most played artists in the window that become planets
+  maxArtists?: number
+  enabled?: boolean
+}
+
+export interface HistoryArtistsData {
+  // Matched Spotify artists, most played first
+  artists: SpotifyArtist[]
+  // History artists no Spotify artist matched by name (or whose search
+  // failed)
+  unmatched: ArtistListening[]
+}
+
+/**
+ * Hook to resolve the most played artists of an imported history to
+ * Spotify artists by name
+ * Searches are cached per artist, so moving the date window only looks up
+ * artists that weren't resolved before
+ */
+export function useHistoryArtists(options: UseHistoryArtistsOptions): {
+  data: HistoryArtistsData | undefined
+  isLoading: boolean
+  error: Error | null
+  refetch: () => void
+} {
+  const { stats, maxArtists = 100, enabled = true } = options
+  const queryClient = useQueryClient()
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
+
+  const topListening = useMemo(
+    () =>
+      (stats?.artists ?? [])
+        .filter((a) => a.playCount > 0)
+        .slice(0, maxArtists),
+    [stats, maxArtists]
+  )
+  const names = useMemo(
+    () => topListening.map((a) => a.artistName),
+    [topListening]
+  )
+
+  const query = useQuery({
+    queryKey: ['historyArtists', provider.id, names],
+    queryFn: async (): Promise<HistoryArtistsData> => {
+      const matches = await Promise.all(
+        topListening.map(async (listening) => {
+          const results = await queryClient
+            .fetchQuery({
+              queryKey: [
+                'artistSearch',
+                provider.id,
+                normalizeArtistName(listening.artistName),
+              ],
+              queryFn: () => provider.searchArtists(listening.artistName),
+              staleTime: 24 * 60 * 60 * 1000, // 24 hours - names don't move
+            })
+            // One failed search (rate limit, network) leaves that artist
+            // unmatched rather than failing the whole galaxy - it isn't
+            // cached, so the next load searches again
+            .catch(() => [])
+          return findArtistMatch(listening.artistName, results)
+        })
+      )
+
+      // Different spellings can resolve to the same artist
+      const seen = new Set<string>()
+      const artists: SpotifyArtist[] = []
+      const unmatched: ArtistListening[] = []
+      matches.forEach((artist, index) => {
+        if (!artist) {
+          unmatched.push(topListening[index])
+        } else if (!seen.has(artist.id)) {
+          seen.add(artist.id)
+          artists.push(artist)
+        }
+      })
+
+      return { artists, unmatched }
+    },
+    enabled:
+      enabled &&
+      (isAuthenticated || !provider.requiresAuth) &&
+      names.length > 0,
+    staleTime: 24 * 60 * 60 * 1000, // 24 hours
+  })
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: (): void => {
+      void query.refetch()
+    },
+  }
+}
@@ -0,0 +1,80 @@
+import { useQuery } from '@tanstack/react-query'
+import type { SpotifyArtist } from '@/api/spotify/types'
+import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import { useUserMarket } from './useUserMarket'
+
+interface UseLibraryArtistsOptions {
+  maxFollowed?: number
+  maxSavedTracks?: number
+  enabled?: boolean
+}
+
+export interface LibraryArtistsData {
+  // Artists the user follows
+  followed: SpotifyArtist[]
+  // Artists from saved tracks, most saved tracks first
+  library: SpotifyArtist[]
+}
+
+/**
+ * Hook to fetch followed artists and the artists behind saved tracks
+ */
+export function useLibraryArtists(options: UseLibraryArtistsOptions = {}): {
+  data: LibraryArtistsData | undefined
+  isLoading: boolean
+  error: Error | null
+  refetch: () => void
+} {
+  const { maxFollowed = 200, maxSavedTracks = 200, enabled = true } = options
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
+  const { market, isLoading: isMarketLoading } = useUserMarket()
+
+  const query = useQuery({
+    queryKey: [
+      'libraryArtists',
+      provider.id,
+      maxFollowed,
+      maxSavedTracks,
+      market,
+    ],
+    queryFn: async (): Promise<LibraryArtistsData> => {
+      const [followed, savedTracks] = await Promise.all([
+        provider.getFollowedArtists(maxFollowed),
+        provider.getSavedTracks(maxSavedTracks, market),
+      ])
+
+      // Saved tracks only carry simplified artists, so count them here and
+      // fetch the full objects (with genres) afterwards. Tracks unavailable
+      // in the user's market still say something about their taste
+      const savedCounts = new Map<string, number>()
+      savedTracks.forEach((item) => {
+        item.track.artists.forEach((artist) => {
+          savedCounts.set(artist.id, (savedCounts.get(artist.id) ?? 0) + 1)
+        })
+      })
+      const libraryIds = Array.from(savedCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([id]) => id)
+      const library = await provider.getArtists(libraryIds)
+
+      return { followed, library }
+    },
+    enabled:
+      enabled &&
+      (isAuthenticated || !provider.requiresAuth) &&
+      !isMarketLoading,
+    staleTime: 30 * 60 * 1000, // 30 minutes - libraries change slowly
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: (): void => {
+      void query.refetch()
+    },
+  }
+}
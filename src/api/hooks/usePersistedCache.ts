@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import {
+  restoreQueryCache,
+  persistQueryCache,
+  loadGalaxySnapshot,
+  loadListeningHistory,
+} from '@/api/cache'
+import { useMusicStore } from '@/stores/musicStore'
+import { useListeningHistoryStore } from '@/stores/listeningHistoryStore'
+import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+
+/**
+ * Hook to restore the persisted query cache, imported listening history and
+ * last galaxy on startup (and after every profile switch), then keep
+ * persisting the cache as it changes
+ * Data loading should wait until isRestoring is false so restored queries
+ * are used instead of refetched
+ */
+export function usePersistedCache(): { isRestoring: boolean } {
+  const queryClient = useQueryClient()
+  const activeProfileId = useAuthStore((state) => state.activeProfileId)
+  const [restoredProfileId, setRestoredProfileId] = useState<string | null>(
+    null
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    let unsubscribe: (() => void) | null = null
+
+    const restore = async (): Promise<void> => {
+      // Queries aren't keyed by account, so drop the previous profile's data
+      queryClient.clear()
+      await restoreQueryCache(queryClient)
+
+      // Imported listening history resizes the galaxy, so it comes first
+      useListeningHistoryStore
+        .getState()
+        .restoreHistory(await loadListeningHistory())
+
+      // Show the last galaxy right away if it matches the current view
+      const snapshot = await loadGalaxySnapshot()
+      const { galaxyData, timeRange, restoreGalaxy } = useMusicStore.getState()
+      const { provider } = useDataSourceStore.getState()
+      if (
+        snapshot &&
+        !galaxyData &&
+        snapshot.providerId === provider.id &&
+        snapshot.timeRange === timeRange
+      ) {
+        restoreGalaxy(snapshot.galaxyData, snapshot.dataUpdatedAt)
+      }
+    }
+
+    restore()
+      .catch(() => {
+        // Like the cache reads themselves, a failed restore just starts
+        // without cached data
+      })
+      .finally(() => {
+        if (cancelled) return
+        unsubscribe = persistQueryCache(queryClient)
+        setRestoredProfileId(activeProfileId)
+      })
+
+    return (): void => {
+      cancelled = true
+      unsubscribe?.()
+    }
+  }, [queryClient, activeProfileId])
+
+  return { isRestoring: restoredProfileId !== activeProfileId }
+}
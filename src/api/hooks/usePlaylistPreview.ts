@@ -0,0 +1,104 @@
+import { useMemo } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { DEFAULT_MARKET } from '@/api/spotify/endpoints'
+import type { SpotifyTrack } from '@/api/spotify/types'
+import {
+  buildPlaylistTracks,
+  orderPlaylistTracks,
+  type PlaylistTrack,
+} from '@/simulation/playlistBuilder'
+import type { GalaxyArtist, PlaylistOrdering } from '@/types/domain'
+import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import { useAudioFeatures } from './useAudioFeatures'
+import { getPlayableTracks } from './useArtistTopTracks'
+import { useUserMarket } from './useUserMarket'
+
+interface UsePlaylistPreviewOptions {
+  artists: GalaxyArtist[]
+  ordering: PlaylistOrdering
+  shuffleSeed: number
+  enabled?: boolean
+}
+
+/**
+ * Hook to build the dry-run track list for a playlist
+ * Fetches each artist's playable top tracks (sharing the cache with
+ * useArtistTopTracks), looks up audio features for ordering - falling back
+ * to genre estimates - and returns the tracks in the requested order
+ */
+export function usePlaylistPreview(options: UsePlaylistPreviewOptions): {
+  data: PlaylistTrack[] | undefined
+  isLoading: boolean
+  error: Error | null
+  refetch: () => void
+} {
+  const { artists, ordering, shuffleSeed, enabled = true } = options
+  const queryClient = useQueryClient()
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
+  const { market: userMarket, isLoading: isMarketLoading } = useUserMarket()
+  const market = userMarket ?? DEFAULT_MARKET
+  const artistIds = useMemo(() => artists.map((a) => a.id), [artists])
+
+  const tracksQuery = useQuery({
+    queryKey: ['playlistTracks', provider.id, artistIds, market],
+    queryFn: async () => {
+      const entries = await Promise.all(
+        artistIds.map(async (artistId) => {
+          const tracks = await queryClient.fetchQuery({
+            queryKey: ['artistTopTracks', provider.id, artistId, market],
+            queryFn: () => provider.getArtistTopTracks(artistId, market),
+            staleTime: 10 * 60 * 1000, // 10 minutes
+          })
+          return [artistId, getPlayableTracks(tracks)] as const
+        })
+      )
+      return Object.fromEntries(entries) as Record<string, SpotifyTrack[]>
+    },
+    enabled:
+      enabled &&
+      (isAuthenticated || !provider.requiresAuth) &&
+      artistIds.length > 0 &&
+      !isMarketLoading,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  })
+
+  // Tracks before audio features are known, to decide which to look up
+  const candidates = useMemo(() => {
+    if (!tracksQuery.data) return []
+    return buildPlaylistTracks(
+      artists,
+      new Map(Object.entries(tracksQuery.data)),
+      []
+    )
+  }, [artists, tracksQuery.data])
+
+  const trackIds = useMemo(
+    () => candidates.map((c) => c.track.id),
+    [candidates]
+  )
+  // Failures here only cost accuracy - tracks fall back to genre estimates
+  const { data: audioFeatures, isLoading: isFeaturesLoading } =
+    useAudioFeatures({ trackIds, enabled: trackIds.length > 0 })
+
+  const data = useMemo(() => {
+    if (!tracksQuery.data) return undefined
+    const tracks = buildPlaylistTracks(
+      artists,
+      new Map(Object.entries(tracksQuery.data)),
+      audioFeatures ?? []
+    )
+    return orderPlaylistTracks(tracks, ordering, shuffleSeed)
+  }, [artists, tracksQuery.data, audioFeatures, ordering, shuffleSeed])
+
+  return {
+    data,
+    isLoading:
+      tracksQuery.isLoading || (trackIds.length > 0 && isFeaturesLoading),
+    error: tracksQuery.error,
+    refetch: (): void => {
+      void tracksQuery.refetch()
+    },
+  }
+}
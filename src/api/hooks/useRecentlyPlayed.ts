@@ -0,0 +1,58 @@
+import { useQuery } from '@tanstack/react-query'
+import type { SpotifyArtist } from '@/api/spotify/types'
+import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import {
+  aggregatePlaysByArtist,
+  type ArtistPlaySummary,
+} from '@/simulation/recentPlays'
+
+interface UseRecentlyPlayedOptions {
+  maxItems?: number
+  enabled?: boolean
+}
+
+export interface RecentlyPlayedData {
+  // Plays aggregated per artist, most recent first
+  summaries: ArtistPlaySummary[]
+  // Full artist objects (history only contains simplified artists)
+  artists: SpotifyArtist[]
+}
+
+/**
+ * Hook to fetch recently played tracks, aggregated per artist
+ */
+export function useRecentlyPlayed(options: UseRecentlyPlayedOptions = {}): {
+  data: RecentlyPlayedData | undefined
+  isLoading: boolean
+  error: Error | null
+  refetch: () => void
+} {
+  const { maxItems = 50, enabled = true } = options
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
+
+  const query = useQuery({
+    queryKey: ['recentlyPlayed', provider.id, maxItems],
+    queryFn: async (): Promise<RecentlyPlayedData> => {
+      const history = await provider.getRecentlyPlayed(maxItems)
+      const summaries = aggregatePlaysByArtist(history)
+      const artists = await provider.getArtists(
+        summaries.map((s) => s.artistId)
+      )
+      return { summaries, artists }
+    },
+    enabled: enabled && (isAuthenticated || !provider.requiresAuth),
+    staleTime: 2 * 60 * 1000, // 2 minutes - changes as the user listens
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  })
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: (): void => {
+      void query.refetch()
+    },
+  }
+}
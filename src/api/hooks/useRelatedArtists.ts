@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query'
+import type { SpotifyArtist } from '@/api/spotify/types'
+import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+
+interface UseRelatedArtistsOptions {
+  artistIds: string[]
+  enabled?: boolean
+}
+
+/**
+ * Hook to fetch related artists for one or more source artists
+ * Returns a map of source artist ID -> related artists
+ */
+export function useRelatedArtists(options: UseRelatedArtistsOptions): {
+  data: Record<string, SpotifyArtist[]> | undefined
+  isLoading: boolean
+  error: Error | null
+  refetch: () => void
+} {
+  const { artistIds, enabled = true } = options
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
+
+  const query = useQuery({
+    queryKey: ['relatedArtists', provider.id, artistIds],
+    queryFn: async (): Promise<Record<string, SpotifyArtist[]>> => {
+      const related = await Promise.all(
+        artistIds.map((artistId) => provider.getRelatedArtists(artistId))
+      )
+      return Object.fromEntries(
+        artistIds.map((artistId, i) => [artistId, related[i] ?? []])
+      )
+    },
+    enabled:
+      enabled &&
+      (isAuthenticated || !provider.requiresAuth) &&
+      artistIds.length > 0,
+    staleTime: 24 * 60 * 60 * 1000, // 24 hours - related artists rarely change
+    gcTime: 24 * 60 * 60 * 1000, // 24 hours
+  })
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: (): void => {
+      void query.refetch()
+    },
+  }
+}
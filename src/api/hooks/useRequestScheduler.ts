@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react'
+import { requestScheduler, type SchedulerState } from '@/api/spotify/scheduler'
+
+/**
+ * Hook to observe the Spotify request scheduler
+ * Re-renders when requests are queued or a rate-limit backoff starts/ends
+ */
+export function useRequestScheduler(): SchedulerState & {
+  isBackingOff: boolean
+} {
+  const state = useSyncExternalStore(
+    (onChange) => requestScheduler.subscribe(onChange),
+    () => requestScheduler.getState()
+  )
+
+  return {
+    ...state,
+    isBackingOff: state.backoffUntil !== null,
+  }
+}
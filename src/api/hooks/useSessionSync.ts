@@ -0,0 +1,37 @@
+import { useEffect } from 'react'
+import { startTokenRefreshScheduler } from '@/api/spotify/auth'
+import { getActiveProfileId } from '@/api/spotify/profiles'
+import { subscribeToAuthEvents } from '@/api/spotify/sessionSync'
+import { useAuthStore } from '@/stores/authStore'
+
+/**
+ * Hook to keep the session fresh and in sync across tabs
+ * Logins and logouts in any tab update useAuthStore - a forced logout after a
+ * revoked refresh also records why, so the recovery screen can explain it -
+ * and the access token is renewed before it expires while signed in
+ */
+export function useSessionSync(): void {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const activeProfileId = useAuthStore((state) => state.activeProfileId)
+  const checkAuth = useAuthStore((state) => state.checkAuth)
+  const sessionEnded = useAuthStore((state) => state.sessionEnded)
+
+  useEffect(
+    () =>
+      subscribeToAuthEvents((event) => {
+        if (event.type === 'tokens-updated') return
+        if (event.profileId !== getActiveProfileId()) return
+        if (event.type === 'logout' && event.reason) {
+          sessionEnded(event.reason)
+        } else {
+          checkAuth()
+        }
+      }),
+    [checkAuth, sessionEnded]
+  )
+
+  useEffect(() => {
+    if (!isAuthenticated) return undefined
+    return startTokenRefreshScheduler()
+  }, [isAuthenticated, activeProfileId])
+}
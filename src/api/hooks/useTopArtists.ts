@@ -1,7 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
-import { getAllTopArtists } from '@/api/spotify/endpoints'
 import type { SpotifyArtist, TimeRange } from '@/api/spotify/types'
 import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
 
 interface UseTopArtistsOptions {
   timeRange?: TimeRange
@@ -13,15 +13,17 @@ export function useTopArtists(options: UseTopArtistsOptions = {}): {
   data: SpotifyArtist[] | undefined
   isLoading: boolean
   error: Error | null
+  dataUpdatedAt: number // 0 until data has loaded
   refetch: () => void
 } {
   const { timeRange = 'medium_term', maxArtists = 50, enabled = true } = options
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
 
   const query = useQuery({
-    queryKey: ['topArtists', timeRange, maxArtists],
-    queryFn: () => getAllTopArtists(timeRange, maxArtists),
-    enabled: enabled && isAuthenticated,
+    queryKey: ['topArtists', provider.id, timeRange, maxArtists],
+    queryFn: () => provider.getTopArtists(timeRange, maxArtists),
+    enabled: enabled && (isAuthenticated || !provider.requiresAuth),
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes (formerly cacheTime)
   })
@@ -30,6 +32,7 @@ export function useTopArtists(options: UseTopArtistsOptions = {}): {
     data: query.data,
     isLoading: query.isLoading,
     error: query.error,
+    dataUpdatedAt: query.dataUpdatedAt,
     refetch: query.refetch,
   }
 }
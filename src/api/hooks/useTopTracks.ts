@@ -1,7 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
-import { getAllTopTracks } from '@/api/spotify/endpoints'
 import type { SpotifyTrack, TimeRange } from '@/api/spotify/types'
 import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
 
 interface UseTopTracksOptions {
   timeRange?: TimeRange
@@ -13,15 +13,17 @@ export function useTopTracks(options: UseTopTracksOptions = {}): {
   data: SpotifyTrack[] | undefined
   isLoading: boolean
   error: Error | null
+  dataUpdatedAt: number // 0 until data has loaded
   refetch: () => void
 } {
   const { timeRange = 'medium_term', maxTracks = 50, enabled = true } = options
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
 
   const query = useQuery({
-    queryKey: ['topTracks', timeRange, maxTracks],
-    queryFn: () => getAllTopTracks(timeRange, maxTracks),
-    enabled: enabled && isAuthenticated,
+    queryKey: ['topTracks', provider.id, timeRange, maxTracks],
+    queryFn: () => provider.getTopTracks(timeRange, maxTracks),
+    enabled: enabled && (isAuthenticated || !provider.requiresAuth),
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 30 * 60 * 1000, // 30 minutes
   })
@@ -30,6 +32,7 @@ export function useTopTracks(options: UseTopTracksOptions = {}): {
     data: query.data,
     isLoading: query.isLoading,
     error: query.error,
+    dataUpdatedAt: query.dataUpdatedAt,
     refetch: query.refetch,
   }
 }
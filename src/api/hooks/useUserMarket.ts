@@ -0,0 +1,23 @@
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import { useUserProfile } from './useUserProfile'
+
+/**
+ * Hook to get the user's market (ISO 3166-1 alpha-2 country from the profile)
+ * for market-sensitive endpoints
+ * market is undefined for providers without a Spotify session or when the
+ * profile has no country; isLoading is true while it is still being resolved
+ */
+export function useUserMarket(): {
+  market: string | undefined
+  isLoading: boolean
+} {
+  const provider = useDataSourceStore((state) => state.provider)
+  const { data, isLoading } = useUserProfile({
+    enabled: provider.requiresAuth,
+  })
+
+  return {
+    market: provider.requiresAuth ? data?.country : undefined,
+    isLoading: provider.requiresAuth && isLoading,
+  }
+}
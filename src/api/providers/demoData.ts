@@ -0,0 +1,445 @@
+/**
+ * Synthetic, seeded music library for the offline demo
+ * Produces Spotify-shaped artists, tracks and audio features so the real
+ * transformation pipeline can run without login or network
+ */
+
+import type {
+  SpotifyArtist,
+  SpotifyTrack,
+  SpotifyAudioFeatures,
+  SpotifyPlayHistory,
+  SpotifySavedTrack,
+  TimeRange,
+} from '@/api/spotify/types'
+import { GENRE_FAMILIES, type GenreFamily } from '@/utils/genreTaxonomy'
+import { FAMILY_AUDIO_PRIORS } from '@/simulation/audioEstimator'
+import type { MusicDataFixture } from './types'
+
+const DEFAULT_SEED = 20240917
+const ARTIST_POOL_SIZE = 90
+const TOP_ARTISTS_PER_RANGE = 50
+const TOP_TRACKS_PER_RANGE = 50
+const TRACKS_PER_ARTIST = 5
+const RELATED_PER_ARTIST = 8
+const RECENT_PLAY_COUNT = 40
+const RECENT_PLAY_SPAN_HOURS = 24 * 6
+const FOLLOWED_ARTIST_COUNT = 24
+const SAVED_TRACK_COUNT = 60
+const SAVED_TRACK_SPAN_DAYS = 365 * 2
+
+// Relative share of the pool per family - skewed like a typical library
+const FAMILY_WEIGHTS: Record<GenreFamily, number> = {
+  electronic: 3,
+  rock: 3,
+  pop: 4,
+  'hip-hop': 3,
+  jazz: 1,
+  classical: 1,
+  country: 1,
+  latin: 1,
+  world: 1,
+}
+
+// Modifiers used to build Spotify-like micro-genres ("dream pop", "deep house")
+const GENRE_MODIFIERS = [
+  'dream',
+  'deep',
+  'indie',
+  'modern',
+  'neo',
+  'chill',
+  'dark',
+  'experimental',
+  'uk',
+  'nu',
+]
+
+const NAME_SYLLABLES = [
+  'lu',
+  'na',
+  've',
+  'ra',
+  'so',
+  'ka',
+  'mi',
+  'tor',
+  'el',
+  'an',
+  'zo',
+  'vi',
+  'ly',
+  'mar',
+  'en',
+  'cas',
+  'io',
+  'sel',
+]
+
+const NAME_NOUNS = [
+  'Echoes',
+  'Tides',
+  'Parade',
+  'Collective',
+  'Machines',
+  'Satellites',
+  'Lanterns',
+  'Orchestra',
+  'Club',
+  'Wolves',
+  'Signals',
+  'Gardens',
+]
+
+const TRACK_WORDS = [
+  'Midnight',
+  'Gravity',
+  'Neon',
+  'Paper',
+  'Golden',
+  'Static',
+  'Ocean',
+  'Velvet',
+  'Orbit',
+  'Silver',
+  'Summer',
+  'Echo',
+  'Wild',
+  'Hollow',
+  'Fever',
+  'Lights',
+  'Heart',
+  'Drive',
+  'Bloom',
+  'Skyline',
+]
+
+const ID_ALPHABET =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+
+/**
+ * Seeded PRNG (mulberry32) so the demo galaxy is identical on every visit
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value))
+}
+
+function spotifyId(random: () => number): string {
+  let id = ''
+  for (let i = 0; i < 22; i++) {
+    id += pick(random, ID_ALPHABET.split(''))
+  }
+  return id
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1)
+}
+
+function artistName(random: () => number): string {
+  const syllables = 2 + Math.floor(random() * 2)
+  let word = ''
+  for (let i = 0; i < syllables; i++) {
+    word += pick(random, NAME_SYLLABLES)
+  }
+
+  const style = random()
+  if (style < 0.45) return capitalize(word)
+  if (style < 0.8) return `${capitalize(word)} ${pick(random, NAME_NOUNS)}`
+  return `The ${pick(random, NAME_NOUNS)}`
+}
+
+function pickFamily(random: () => number): GenreFamily {
+  const entries = Object.entries(FAMILY_WEIGHTS) as [GenreFamily, number][]
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+  let roll = random() * total
+  for (const [family, weight] of entries) {
+    roll -= weight
+    if (roll <= 0) return family
+  }
+  return entries[0][0]
+}
+
+function artistGenres(random: () => number, family: GenreFamily): string[] {
+  const keywords = GENRE_FAMILIES[family]
+  const genres = new Set<string>([pick(random, keywords)])
+  const extra = Math.floor(random() * 3)
+
+  for (let i = 0; i < extra; i++) {
+    const base = pick(random, keywords)
+    genres.add(
+      random() < 0.5 ? `${pick(random, GENRE_MODIFIERS)} ${base}` : base
+    )
+  }
+
+  return Array.from(genres)
+}
+
+function createArtist(
+  random: () => number,
+  family: GenreFamily
+): SpotifyArtist {
+  const id = spotifyId(random)
+  const popularity = Math.round(20 + random() * 75)
+
+  return {
+    id,
+    name: artistName(random),
+    genres: artistGenres(random, family),
+    popularity,
+    images: [],
+    followers: {
+      total: Math.round(10 ** (3 + (popularity / 100) * 4 + random())),
+    },
+    external_urls: { spotify: `https://open.spotify.com/artist/${id}` },
+    uri: `spotify:artist:${id}`,
+  }
+}
+
+function createTrack(
+  random: () => number,
+  artist: SpotifyArtist
+): SpotifyTrack {
+  const id = spotifyId(random)
+  const albumId = spotifyId(random)
+  const title =
+    random() < 0.5
+      ? pick(random, TRACK_WORDS)
+      : `${pick(random, TRACK_WORDS)} ${pick(random, TRACK_WORDS)}`
+  const year = 1995 + Math.floor(random() * 30)
+
+  return {
+    id,
+    name: title,
+    artists: [artist],
+    album: {
+      id: albumId,
+      name: `${pick(random, TRACK_WORDS)} ${pick(random, NAME_NOUNS)}`,
+      images: [],
+      release_date: `${String(year)}-01-01`,
+      album_type: 'album',
+    },
+    duration_ms: Math.round(150000 + random() * 150000),
+    popularity: Math.round(
+      clamp01(artist.popularity / 100 + (random() - 0.5) * 0.3) * 100
+    ),
+    preview_url: null,
+    external_urls: { spotify: `https://open.spotify.com/track/${id}` },
+    uri: `spotify:track:${id}`,
+  }
+}
+
+function createAudioFeatures(
+  random: () => number,
+  trackId: string,
+  family: GenreFamily
+): SpotifyAudioFeatures {
+  const prior = FAMILY_AUDIO_PRIORS[family]
+  const jitter = (): number => (random() - 0.5) * 0.3
+
+  return {
+    id: trackId,
+    energy: clamp01(prior.energy + jitter()),
+    valence: clamp01(prior.valence + jitter()),
+    danceability: clamp01(prior.danceability + jitter()),
+    acousticness: clamp01(prior.acousticness + jitter()),
+    tempo: Math.round(prior.tempo + (random() - 0.5) * 30),
+    key: Math.floor(random() * 12),
+    loudness: -4 - random() * 12,
+    mode: random() < 0.6 ? 1 : 0,
+    speechiness: clamp01(0.04 + random() * (family === 'hip-hop' ? 0.3 : 0.08)),
+    instrumentalness: clamp01(
+      family === 'classical' || family === 'electronic'
+        ? 0.5 + random() * 0.5
+        : random() * 0.2
+    ),
+    liveness: clamp01(0.05 + random() * 0.3),
+    duration_ms: 0,
+    time_signature: 4,
+  }
+}
+
+/**
+ * Rank the pool for a time range: a shared "core" stays near the top while
+ * each range gets its own reshuffle so evolution highlighting has something
+ * to show
+ */
+function rankForRange(
+  random: () => number,
+  pool: SpotifyArtist[],
+  timeRange: TimeRange
+): SpotifyArtist[] {
+  const volatility: Record<TimeRange, number> = {
+    short_term: 0.9,
+    medium_term: 0.5,
+    long_term: 0.25,
+  }
+
+  return pool
+    .map((artist, index) => ({
+      artist,
+      score: index / pool.length + random() * volatility[timeRange],
+    }))
+    .sort((a, b) => a.score - b.score)
+    .slice(0, TOP_ARTISTS_PER_RANGE)
+    .map(({ artist }) => artist)
+}
+
+/**
+ * Recently played history over the last few days, mixing top artists with
+ * artists from the tail of the pool so the recent orbit layer has content
+ */
+function generateRecentlyPlayed(
+  random: () => number,
+  pool: SpotifyArtist[],
+  artistTopTracks: Record<string, SpotifyTrack[]>
+): SpotifyPlayHistory[] {
+  const now = Date.now()
+  const tail = pool.slice(TOP_ARTISTS_PER_RANGE)
+  const items: SpotifyPlayHistory[] = []
+
+  for (let i = 0; i < RECENT_PLAY_COUNT; i++) {
+    const artist = random() < 0.5 ? pick(random, tail) : pick(random, pool)
+    const tracks = artistTopTracks[artist.id] ?? []
+    if (tracks.length === 0) continue
+
+    const hoursAgo = random() * RECENT_PLAY_SPAN_HOURS
+    items.push({
+      track: pick(random, tracks),
+      played_at: new Date(now - hoursAgo * 60 * 60 * 1000).toISOString(),
+      context: null,
+    })
+  }
+
+  return items.sort((a, b) => b.played_at.localeCompare(a.played_at))
+}
+
+/**
+ * Followed artists and saved tracks, drawn from the whole pool so part of
+ * the library lies outside the top lists
+ */
+function generateLibrary(
+  random: () => number,
+  pool: SpotifyArtist[],
+  artistTopTracks: Record<string, SpotifyTrack[]>
+): Pick<MusicDataFixture, 'followedArtists' | 'savedTracks'> {
+  const now = Date.now()
+
+  const followedArtists = pool.filter(
+    () => random() < FOLLOWED_ARTIST_COUNT / pool.length
+  )
+
+  const savedIds = new Set<string>()
+  const savedTracks: SpotifySavedTrack[] = []
+  for (let i = 0; i < SAVED_TRACK_COUNT; i++) {
+    const tracks = artistTopTracks[pick(random, pool).id] ?? []
+    if (tracks.length === 0) continue
+
+    const track = pick(random, tracks)
+    if (savedIds.has(track.id)) continue
+    savedIds.add(track.id)
+
+    const daysAgo = random() * SAVED_TRACK_SPAN_DAYS
+    savedTracks.push({
+      added_at: new Date(now - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+      track,
+    })
+  }
+
+  return {
+    followedArtists,
+    savedTracks: savedTracks.sort((a, b) =>
+      b.added_at.localeCompare(a.added_at)
+    ),
+  }
+}
+
+/**
+ * Generate the full demo dataset
+ */
+export function generateDemoFixture(
+  seed: number = DEFAULT_SEED
+): MusicDataFixture {
+  const random = createRandom(seed)
+
+  // Artist pool with a family for each artist
+  const families = new Map<string, GenreFamily>()
+  const pool: SpotifyArtist[] = []
+  for (let i = 0; i < ARTIST_POOL_SIZE; i++) {
+    const family = pickFamily(random)
+    const artist = createArtist(random, family)
+    families.set(artist.id, family)
+    pool.push(artist)
+  }
+
+  // Tracks and audio features per artist
+  const artistTopTracks: Record<string, SpotifyTrack[]> = {}
+  const audioFeatures: SpotifyAudioFeatures[] = []
+  pool.forEach((artist) => {
+    const family = families.get(artist.id) ?? 'pop'
+    const tracks = Array.from({ length: TRACKS_PER_ARTIST }, () =>
+      createTrack(random, artist)
+    ).sort((a, b) => b.popularity - a.popularity)
+
+    artistTopTracks[artist.id] = tracks
+    tracks.forEach((track) => {
+      const features = createAudioFeatures(random, track.id, family)
+      features.duration_ms = track.duration_ms
+      audioFeatures.push(features)
+    })
+  })
+
+  // Related artists: others from the same family
+  const relatedArtists: Record<string, SpotifyArtist[]> = {}
+  pool.forEach((artist) => {
+    const family = families.get(artist.id)
+    relatedArtists[artist.id] = pool
+      .filter(
+        (other) => other.id !== artist.id && families.get(other.id) === family
+      )
+      .slice(0, RELATED_PER_ARTIST)
+  })
+
+  const timeRanges: TimeRange[] = ['short_term', 'medium_term', 'long_term']
+  const topArtists: MusicDataFixture['topArtists'] = {}
+  const topTracks: MusicDataFixture['topTracks'] = {}
+
+  timeRanges.forEach((timeRange) => {
+    const ranked = rankForRange(random, pool, timeRange)
+    topArtists[timeRange] = ranked
+
+    // Top tracks lean towards top artists: 1-3 tracks from each leading artist
+    const tracks: SpotifyTrack[] = []
+    for (const artist of ranked) {
+      const count = 1 + Math.floor(random() * 3)
+      tracks.push(...(artistTopTracks[artist.id] ?? []).slice(0, count))
+      if (tracks.length >= TOP_TRACKS_PER_RANGE) break
+    }
+    topTracks[timeRange] = tracks.slice(0, TOP_TRACKS_PER_RANGE)
+  })
+
+  return {
+    topArtists,
+    topTracks,
+    audioFeatures,
+    relatedArtists,
+    artistTopTracks,
+    recentlyPlayed: generateRecentlyPlayed(random, pool, artistTopTracks),
+    ...generateLibrary(random, pool, artistTopTracks),
+  }
+}
@@ -0,0 +1,15 @@
+import { createFixtureProvider } from './fixtureProvider'
+import { generateDemoFixture } from './demoData'
+import type { MusicDataProvider } from './types'
+
+export const DEMO_PROVIDER_ID = 'demo'
+
+/**
+ * Offline provider backed by the seeded synthetic library
+ */
+export function createDemoProvider(seed?: number): MusicDataProvider {
+  return createFixtureProvider(generateDemoFixture(seed), {
+    id: DEMO_PROVIDER_ID,
+    label: 'Demo galaxy',
+  })
+}
@@ -0,0 +1,152 @@
+import type { SpotifyArtist, TimeRange } from '@/api/spotify/types'
+import type { MusicDataFixture, MusicDataProvider } from './types'
+
+const FALLBACK_TIME_RANGE: TimeRange = 'medium_term'
+
+/**
+ * Index every full artist object that appears in a fixture
+ */
+function buildArtistIndex(
+  fixture: MusicDataFixture
+): Map<string, SpotifyArtist> {
+  const index = new Map<string, SpotifyArtist>()
+  const add = (artist: SpotifyArtist): void => {
+    if (!index.has(artist.id)) index.set(artist.id, artist)
+  }
+
+  Object.values(fixture.topArtists).flat().forEach(add)
+  Object.values(fixture.relatedArtists ?? {})
+    .flat()
+    .forEach(add)
+  Object.values(fixture.topTracks)
+    .flat()
+    .forEach((track) => {
+      track.artists.forEach(add)
+    })
+  fixture.recentlyPlayed?.forEach((item) => {
+    item.track.artists.forEach(add)
+  })
+  fixture.followedArtists?.forEach(add)
+  fixture.savedTracks?.forEach((item) => {
+    item.track.artists.forEach(add)
+  })
+
+  return index
+}
+
+/**
+ * Create a provider that serves a static dataset (fixture or imported file)
+ * Works without authentication or network access
+ */
+export function createFixtureProvider(
+  fixture: MusicDataFixture,
+  options: { id?: string; label?: string } = {}
+): MusicDataProvider {
+  const { id = 'fixture', label = 'Fixture data' } = options
+  const artistIndex = buildArtistIndex(fixture)
+
+  const provider: MusicDataProvider = {
+    id,
+    label,
+    requiresAuth: false,
+
+    getTopArtists: (timeRange, limit) => {
+      const artists =
+        fixture.topArtists[timeRange] ??
+        fixture.topArtists[FALLBACK_TIME_RANGE] ??
+        []
+      return Promise.resolve(artists.slice(0, limit))
+    },
+
+    getTopTracks: (timeRange, limit) => {
+      const tracks =
+        fixture.topTracks[timeRange] ??
+        fixture.topTracks[FALLBACK_TIME_RANGE] ??
+        []
+      return Promise.resolve(tracks.slice(0, limit))
+    },
+
+    getAudioFeatures: (trackIds) => {
+      const ids = new Set(trackIds)
+      return Promise.resolve(fixture.audioFeatures.filter((f) => ids.has(f.id)))
+    },
+
+    getRelatedArtists: (artistId) => {
+      return Promise.resolve(fixture.relatedArtists?.[artistId] ?? [])
+    },
+
+    getArtistTopTracks: (artistId) => {
+      const explicit = fixture.artistTopTracks?.[artistId]
+      if (explicit) return Promise.resolve(explicit)
+
+      // Derive from the top tracks of every time range
+      const seen = new Set<string>()
+      const tracks = Object.values(fixture.topTracks)
+        .flat()
+        .filter((track) => {
+          if (seen.has(track.id)) return false
+          seen.add(track.id)
+          return track.artists.some((a) => a.id === artistId)
+        })
+      return Promise.resolve(tracks.slice(0, 10))
+    },
+
+    getArtists: (artistIds) => {
+      return Promise.resolve(
+        artistIds
+          .map((artistId) => artistIndex.get(artistId))
+          .filter((a): a is SpotifyArtist => a !== undefined)
+      )
+    },
+
+    getRecentlyPlayed: (maxItems) => {
+      return Promise.resolve((fixture.recentlyPlayed ?? []).slice(0, maxItems))
+    },
+
+    getFollowedArtists: (maxItems) => {
+      return Promise.resolve((fixture.followedArtists ?? []).slice(0, maxItems))
+    },
+
+    getSavedTracks: (maxItems) => {
+      return Promise.resolve((fixture.savedTracks ?? []).slice(0, maxItems))
+    },
+
+    searchArtists: (query) => {
+      const needle = query.toLowerCase()
+      const matches = Array.from(artistIndex.values()).filter((artist) =>
+        artist.name.toLowerCase().includes(needle)
+      )
+      // Exact names first, like a real search ranking
+      return Promise.resolve(
+        matches.sort(
+          (a, b) =>
+            Number(b.name.toLowerCase() === needle) -
+            Number(a.name.toLowerCase() === needle)
+        )
+      )
+    },
+  }
+
+  return provider
+}
+
+/**
+ * Parse a JSON fixture file (e.g. one exported from a previous session)
+ * Throws if the file doesn't have the expected top-level shape
+ */
+export function parseFixture(json: string): MusicDataFixture {
+  const data = JSON.parse(json) as Partial<MusicDataFixture> | null
+
+  if (
+    !data ||
+    typeof data.topArtists !== 'object' ||
+    typeof data.topTracks !== 'object' ||
+    !Array.isArray(data.audioFeatures)
+  ) {
+    throw new Error(
+      'Invalid fixture file: expected topArtists, topTracks and audioFeatures'
+    )
+  }
+
+  return data as MusicDataFixture
+}
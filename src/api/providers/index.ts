@@ -0,0 +1,5 @@
+export { spotifyProvider } from './spotifyProvider'
+export { createFixtureProvider, parseFixture } from './fixtureProvider'
+export { createDemoProvider, DEMO_PROVIDER_ID } from './demoProvider'
+export { generateDemoFixture } from './demoData'
+export type * from './types'
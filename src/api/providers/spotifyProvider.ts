@@ -0,0 +1,65 @@
+import {
+  getAllTopArtists,
+  getAllTopTracks,
+  getAudioFeatures,
+  getRelatedArtists,
+  getArtistTopTracks,
+  getArtists,
+  getAllRecentlyPlayed,
+  getAllFollowedArtists,
+  getAllSavedTracks,
+  searchArtists,
+} from '@/api/spotify/endpoints'
+import { SpotifyApiError } from '@/api/spotify/client'
+import type { SpotifyAudioFeatures } from '@/api/spotify/types'
+import type { MusicDataProvider } from './types'
+
+/**
+ * Live Spotify Web API provider (requires an authenticated session)
+ */
+export const spotifyProvider: MusicDataProvider = {
+  id: 'spotify',
+  label: 'Spotify',
+  requiresAuth: true,
+
+  getTopArtists: (timeRange, limit) => getAllTopArtists(timeRange, limit),
+
+  getTopTracks: (timeRange, limit) => getAllTopTracks(timeRange, limit),
+
+  getAudioFeatures: async (trackIds) => {
+    try {
+      const response = await getAudioFeatures(trackIds)
+      // Filter out null entries (tracks without audio features)
+      return response.audio_features.filter(
+        (f): f is SpotifyAudioFeatures => f !== null
+      )
+    } catch (error) {
+      // The endpoint is restricted for many apps - fall back to genre
+      // estimates instead of failing the whole galaxy
+      if (error instanceof SpotifyApiError && error.status === 403) {
+        return []
+      }
+      throw error
+    }
+  },
+
+  getRelatedArtists: async (artistId) => {
+    const response = await getRelatedArtists(artistId)
+    return response.artists
+  },
+
+  getArtistTopTracks: async (artistId, market) => {
+    const response = await getArtistTopTracks(artistId, market)
+    return response.tracks
+  },
+
+  getArtists: (artistIds) => getArtists(artistIds),
+
+  getRecentlyPlayed: (maxItems) => getAllRecentlyPlayed(maxItems),
+
+  getFollowedArtists: (maxItems) => getAllFollowedArtists(maxItems),
+
+  getSavedTracks: (maxItems, market) => getAllSavedTracks(maxItems, market),
+
+  searchArtists: (query) => searchArtists(query),
+}
@@ -0,0 +1,59 @@
+import type {
+  SpotifyArtist,
+  SpotifyTrack,
+  SpotifyAudioFeatures,
+  SpotifyPlayHistory,
+  SpotifySavedTrack,
+  TimeRange,
+} from '@/api/spotify/types'
+
+/**
+ * Source of the music data that feeds the galaxy
+ * The live Spotify API is one implementation; fixtures, imported files or a
+ * local mock server can provide the same shapes
+ */
+export interface MusicDataProvider {
+  /** Stable identifier, used in query keys so caches don't mix sources */
+  id: string
+  /** Human readable name for the UI */
+  label: string
+  /** Whether the provider needs a Spotify session to return data */
+  requiresAuth: boolean
+
+  getTopArtists: (
+    timeRange: TimeRange,
+    limit: number
+  ) => Promise<SpotifyArtist[]>
+  getTopTracks: (timeRange: TimeRange, limit: number) => Promise<SpotifyTrack[]>
+  getAudioFeatures: (trackIds: string[]) => Promise<SpotifyAudioFeatures[]>
+  getRelatedArtists: (artistId: string) => Promise<SpotifyArtist[]>
+  /** Market is an ISO 3166-1 alpha-2 country code */
+  getArtistTopTracks: (
+    artistId: string,
+    market: string
+  ) => Promise<SpotifyTrack[]>
+  getArtists: (artistIds: string[]) => Promise<SpotifyArtist[]>
+  getRecentlyPlayed: (maxItems: number) => Promise<SpotifyPlayHistory[]>
+  getFollowedArtists: (maxItems: number) => Promise<SpotifyArtist[]>
+  getSavedTracks: (
+    maxItems: number,
+    market?: string
+  ) => Promise<SpotifySavedTrack[]>
+  /** Artists matching a name, best matches first */
+  searchArtists: (query: string) => Promise<SpotifyArtist[]>
+}
+
+/**
+ * Serializable dataset for fixture/import based providers
+ * Time ranges without data fall back to `medium_term`
+ */
+export interface MusicDataFixture {
+  topArtists: Partial<Record<TimeRange, SpotifyArtist[]>>
+  topTracks: Partial<Record<TimeRange, SpotifyTrack[]>>
+  audioFeatures: SpotifyAudioFeatures[]
+  relatedArtists?: Record<string, SpotifyArtist[]>
+  artistTopTracks?: Record<string, SpotifyTrack[]>
+  recentlyPlayed?: SpotifyPlayHistory[]
+  followedArtists?: SpotifyArtist[]
+  savedTracks?: SpotifySavedTrack[]
+}
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AuthError, handleCallback, refreshAccessToken } from './auth'
+
+vi.mock('@/api/cache', () => ({
+  clearPersistedCache: vi.fn(() => Promise.resolve()),
+}))
+
+// localStorage contents (the setup file's mock stores nothing)
+const storage = new Map<string, string>()
+
+function startPendingLogin(startedAt = Date.now()): void {
+  storage.set('spotify_code_verifier', 'verifier')
+  storage.set('spotify_auth_state', 'state')
+  storage.set('spotify_auth_started_at', startedAt.toString())
+}
+
+function storeExpiredTokens(): void {
+  storage.set('spotify_access_token', 'old-access')
+  storage.set('spotify_refresh_token', 'refresh')
+  storage.set('spotify_expires_at', (Date.now() - 1000).toString())
+}
+
+function tokenError(error: string): Response {
+  return new Response(JSON.stringify({ error }), { status: 400 })
+}
+
+describe('auth', () => {
+  let fetchMock: ReturnType<typeof vi.fn<typeof fetch>>
+
+  beforeEach(() => {
+    storage.clear()
+    vi.spyOn(localStorage, 'getItem').mockImplementation(
+      (key) => storage.get(key) ?? null
+    )
+    vi.spyOn(localStorage, 'setItem').mockImplementation((key, value) => {
+      storage.set(key, value)
+    })
+    vi.spyOn(localStorage, 'removeItem').mockImplementation((key) => {
+      storage.delete(key)
+    })
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    vi.stubEnv('VITE_SPOTIFY_CLIENT_ID', 'client-id')
+    vi.stubEnv('VITE_SPOTIFY_REDIRECT_URI', 'http://localhost/callback')
+    fetchMock = vi.fn<typeof fetch>()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  describe('handleCallback', () => {
+    it('rejects a state that does not match the pending login', async () => {
+      startPendingLogin()
+
+      await expect(
+        handleCallback(new URLSearchParams({ state: 'forged', code: 'code' }))
+      ).rejects.toMatchObject({ kind: 'state_mismatch' })
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('rejects a callback when no login was started', async () => {
+      await expect(
+        handleCallback(new URLSearchParams({ state: 'state', code: 'code' }))
+      ).rejects.toMatchObject({ kind: 'state_mismatch' })
+    })
+
+    it('reports a declined consent screen as denied', async () => {
+      startPendingLogin()
+
+      const result = handleCallback(
+        new URLSearchParams({ state: 'state', error: 'access_denied' })
+      )
+
+      await expect(result).rejects.toBeInstanceOf(AuthError)
+      await expect(result).rejects.toMatchObject({ kind: 'denied' })
+    })
+
+    it('rejects a login that took too long', async () => {
+      startPendingLogin(Date.now() - 31 * 60 * 1000)
+
+      await expect(
+        handleCallback(new URLSearchParams({ state: 'state', code: 'code' }))
+      ).rejects.toMatchObject({ kind: 'expired_verifier' })
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('treats a rejected code exchange as an expired verifier', async () => {
+      startPendingLogin()
+      fetchMock.mockResolvedValue(tokenError('invalid_grant'))
+
+      await expect(
+        handleCallback(new URLSearchParams({ state: 'state', code: 'code' }))
+      ).rejects.toMatchObject({ kind: 'expired_verifier' })
+    })
+
+    it('stores the tokens and forgets the pending login', async () => {
+      startPendingLogin()
+      fetchMock.mockResolvedValue(
+        Response.json({
+          access_token: 'access',
+          token_type: 'Bearer',
+          expires_in: 3600,
+          refresh_token: 'refresh',
+          scope: 'user-top-read',
+        })
+      )
+
+      await handleCallback(
+        new URLSearchParams({ state: 'state', code: 'code' })
+      )
+
+      expect(storage.get('spotify_access_token')).toBe('access')
+      expect(storage.get('spotify_scope')).toBe('user-top-read')
+      expect(storage.has('spotify_code_verifier')).toBe(false)
+    })
+  })
+
+  describe('refreshAccessToken', () => {
+    it('reuses a token another tab refreshed while it waited', async () => {
+      storeExpiredTokens()
+      vi.stubGlobal('navigator', {
+        locks: {
+          request: (_name: string, task: () => Promise<void>) => {
+            // The other tab held the lock and stored its new token
+            storage.set('spotify_access_token', 'other-tab-access')
+            return task()
+          },
+        },
+      })
+
+      await refreshAccessToken()
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(storage.get('spotify_access_token')).toBe('other-tab-access')
+    })
+
+    it('shares one request between concurrent callers', async () => {
+      storeExpiredTokens()
+      fetchMock.mockResolvedValue(
+        Response.json({
+          access_token: 'new-access',
+          token_type: 'Bearer',
+          expires_in: 3600,
+          scope: 'user-top-read',
+        })
+      )
+
+      await Promise.all([refreshAccessToken(), refreshAccessToken()])
+
+      expect(fetchMock).toHaveBeenCalledOnce()
+      expect(storage.get('spotify_access_token')).toBe('new-access')
+      // The response had no refresh token - the old one is kept
+      expect(storage.get('spotify_refresh_token')).toBe('refresh')
+    })
+
+    it('signs out when the refresh token was revoked', async () => {
+      storeExpiredTokens()
+      fetchMock.mockResolvedValue(tokenError('invalid_grant'))
+
+      await expect(refreshAccessToken()).rejects.toMatchObject({
+        kind: 'refresh_revoked',
+      })
+      expect(storage.has('spotify_access_token')).toBe(false)
+    })
+
+    it('keeps the session after a network failure', async () => {
+      storeExpiredTokens()
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+
+      await expect(refreshAccessToken()).rejects.toMatchObject({
+        kind: 'network',
+      })
+      expect(storage.get('spotify_access_token')).toBe('old-access')
+    })
+  })
+})
@@ -1,19 +1,32 @@
 import CryptoJS from 'crypto-js'
-import type { TokenResponse } from './types'
+import type { TokenErrorResponse, TokenResponse } from './types'
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfile,
+  getActiveProfileId,
+  profileKey,
+} from './profiles'
+import { tokenStores, type TokenStore } from './tokenStore'
+import {
+  broadcastAuthEvent,
+  subscribeToAuthEvents,
+  withCrossTabLock,
+} from './sessionSync'
+import {
+  BASE_FEATURES,
+  LEGACY_SCOPES,
+  parseScope,
+  scopesForFeatures,
+  type AppFeature,
+} from './scopes'
+import { clearPersistedCache } from '@/api/cache'
 
 // Spotify OAuth configuration
 const SPOTIFY_AUTH_URL = 'https://accounts.spotify.com/authorize'
 const SPOTIFY_TOKEN_URL = 'https://accounts.spotify.com/api/token'
 
-const SCOPES = [
-  'user-top-read',
-  'user-read-recently-played',
-  'streaming',
-  'user-read-email',
-  'user-read-private',
-  'user-modify-playback-state',
-  'user-read-playback-state',
-].join(' ')
+// Scopes every login asks for - other features request theirs on first use
+const BASE_SCOPES = scopesForFeatures(BASE_FEATURES)
 
 // PKCE helpers
 function generateRandomString(length: number): string {
@@ -55,14 +68,87 @@ async function generateCodeChallenge(codeVerifier: string): Promise<string> {
   return base64urlencode(hashed)
 }
 
-// Storage keys
+// Storage keys (tokens themselves live in the active TokenStore)
 const STORAGE_KEYS = {
   CODE_VERIFIER: 'spotify_code_verifier',
-  ACCESS_TOKEN: 'spotify_access_token',
-  REFRESH_TOKEN: 'spotify_refresh_token',
-  EXPIRES_AT: 'spotify_expires_at',
+  AUTH_STATE: 'spotify_auth_state',
+  AUTH_STARTED_AT: 'spotify_auth_started_at',
 } as const
 
+// A login that takes longer than this has to start over
+const PENDING_AUTH_MAX_AGE_MS = 30 * 60 * 1000
+
+// Renew this long before the access token expires
+const REFRESH_AHEAD_MS = 5 * 60 * 1000
+// Retry delay after a failed proactive refresh
+const REFRESH_RETRY_MS = 30 * 1000
+// Lock name shared by every tab refreshing the same profile
+const REFRESH_LOCK = 'auranova-token-refresh'
+
+export type AuthErrorKind =
+  // The user declined the consent screen
+  | 'denied'
+  // The callback's state doesn't match a login started in this browser
+  | 'state_mismatch'
+  // The code verifier is missing, too old or was rejected with the code
+  | 'expired_verifier'
+  // The refresh token was revoked or is missing
+  | 'refresh_revoked'
+  // Spotify's accounts service couldn't be reached
+  | 'network'
+  | 'unknown'
+
+const AUTH_ERROR_MESSAGES: Record<AuthErrorKind, string> = {
+  denied: 'Spotify access was not granted',
+  state_mismatch: 'The login response did not match a login from this browser',
+  expired_verifier: 'The login request expired',
+  refresh_revoked: 'The Spotify session was revoked',
+  network: 'Could not reach Spotify',
+  unknown: 'Spotify login failed',
+}
+
+export class AuthError extends Error {
+  kind: AuthErrorKind
+
+  constructor(kind: AuthErrorKind, message = AUTH_ERROR_MESSAGES[kind]) {
+    super(message)
+    this.name = 'AuthError'
+    this.kind = kind
+  }
+}
+
+// Map a failed token endpoint response to an AuthError
+// invalid_grant means the grant itself is dead, which is `grantErrorKind`
+async function tokenRequestError(
+  response: Response,
+  grantErrorKind: AuthErrorKind
+): Promise<AuthError> {
+  if (response.status >= 500) {
+    return new AuthError(
+      'network',
+      `Spotify accounts service returned ${String(response.status)}`
+    )
+  }
+
+  let body: TokenErrorResponse = {}
+  try {
+    body = (await response.json()) as TokenErrorResponse
+  } catch {
+    // Not JSON - fall back to the status text
+  }
+
+  const message = body.error_description ?? body.error ?? response.statusText
+  return new AuthError(
+    body.error === 'invalid_grant' ? grantErrorKind : 'unknown',
+    message || undefined
+  )
+}
+
+// Where the active profile's tokens are kept
+export function getTokenStore(): TokenStore {
+  return tokenStores[getActiveProfile().tokenStorage]
+}
+
 // Get configuration from environment
 function getConfig(): { clientId: string; redirectUri: string } {
   const clientId = import.meta.env.VITE_SPOTIFY_CLIENT_ID
@@ -78,8 +164,17 @@ function getConfig(): { clientId: string; redirectUri: string } {
 }
 
 // Start the OAuth flow
-export async function startAuthFlow(): Promise<void> {
+// `features` adds their scopes to the ones already granted, so an upgrade
+// only asks the user to consent to what's new
+export async function startAuthFlow(
+  features: AppFeature[] = []
+): Promise<void> {
   const { clientId, redirectUri } = getConfig()
+  const scopes = new Set<string>([
+    ...BASE_SCOPES,
+    ...getGrantedScopes(),
+    ...scopesForFeatures(features),
+  ])
 
   console.log('startAuthFlow: generating PKCE challenge')
   console.log('startAuthFlow: redirect URI:', redirectUri)
@@ -93,40 +188,67 @@ export async function startAuthFlow(): Promise<void> {
     codeChallenge.substring(0, 20) + '...'
   )
 
-  // Store the code verifier for later
+  // Random state ties the callback to this login (CSRF protection)
+  const state = generateRandomString(32)
+
+  // Store the code verifier and state for the callback
   localStorage.setItem(STORAGE_KEYS.CODE_VERIFIER, codeVerifier)
+  localStorage.setItem(STORAGE_KEYS.AUTH_STATE, state)
+  localStorage.setItem(STORAGE_KEYS.AUTH_STARTED_AT, Date.now().toString())
   console.log('startAuthFlow: stored code verifier in localStorage')
 
   const params = new URLSearchParams({
     client_id: clientId,
     response_type: 'code',
     redirect_uri: redirectUri,
-    scope: SCOPES,
+    scope: [...scopes].join(' '),
     code_challenge_method: 'S256',
     code_challenge: codeChallenge,
-    show_dialog: 'false',
+    state,
+    // Extra profiles are usually other household members - let them pick
+    // a different Spotify account than the one signed in on spotify.com
+    show_dialog: getActiveProfileId() === DEFAULT_PROFILE_ID ? 'false' : 'true',
   })
 
   window.location.href = `${SPOTIFY_AUTH_URL}?${params.toString()}`
 }
 
-// Exchange authorization code for tokens
-export async function exchangeCodeForToken(code: string): Promise<boolean> {
-  const { clientId, redirectUri } = getConfig()
-
+// Read and forget the pending login - a callback can only be used once
+function takePendingAuth(): {
+  codeVerifier: string | null
+  state: string | null
+  startedAt: number | null
+} {
   const codeVerifier = localStorage.getItem(STORAGE_KEYS.CODE_VERIFIER)
-  if (!codeVerifier) {
-    console.error('No code verifier found in localStorage')
-    console.error(
-      'This usually means the auth flow was started in a different browser tab/window'
-    )
-    return false
+  const state = localStorage.getItem(STORAGE_KEYS.AUTH_STATE)
+  const startedAt = localStorage.getItem(STORAGE_KEYS.AUTH_STARTED_AT)
+  clearPendingAuth()
+
+  return {
+    codeVerifier,
+    state,
+    startedAt: startedAt ? parseInt(startedAt, 10) : null,
   }
+}
+
+function clearPendingAuth(): void {
+  localStorage.removeItem(STORAGE_KEYS.CODE_VERIFIER)
+  localStorage.removeItem(STORAGE_KEYS.AUTH_STATE)
+  localStorage.removeItem(STORAGE_KEYS.AUTH_STARTED_AT)
+}
+
+// Exchange authorization code for tokens
+export async function exchangeCodeForToken(
+  code: string,
+  codeVerifier: string
+): Promise<void> {
+  const { clientId, redirectUri } = getConfig()
 
   console.log('Exchanging code for token...')
   console.log('Redirect URI:', redirectUri)
   console.log('Code verifier length:', codeVerifier.length)
 
+  let response: Response
   try {
     const body = new URLSearchParams({
       client_id: clientId,
@@ -136,51 +258,90 @@ export async function exchangeCodeForToken(code: string): Promise<boolean> {
       code_verifier: codeVerifier,
     })
 
-    const response = await fetch(SPOTIFY_TOKEN_URL, {
+    response = await fetch(SPOTIFY_TOKEN_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
       body,
     })
+  } catch (error) {
+    console.error('Token exchange error:', error)
+    throw new AuthError('network')
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(
-        'Token exchange failed:',
-        response.status,
-        response.statusText
-      )
-      console.error('Error response:', errorText)
-      return false
-    }
+  if (!response.ok) {
+    console.error(
+      'Token exchange failed:',
+      response.status,
+      response.statusText
+    )
+    // invalid_grant: the code expired, was reused or doesn't match the verifier
+    throw await tokenRequestError(response, 'expired_verifier')
+  }
 
-    const data = (await response.json()) as TokenResponse
-    console.log('Token exchange successful!')
-    storeTokens(data)
+  const data = (await response.json()) as TokenResponse
+  console.log('Token exchange successful!')
+  const profile = getActiveProfile()
+  storeTokens(data, profile.id, tokenStores[profile.tokenStorage])
 
-    // Clean up code verifier
-    localStorage.removeItem(STORAGE_KEYS.CODE_VERIFIER)
+  broadcastAuthEvent({ type: 'login', profileId: profile.id })
+}
 
-    return true
-  } catch (error) {
-    console.error('Token exchange error:', error)
-    return false
+// Refresh the access token
+// Concurrent callers share one request, and tabs sharing localStorage tokens
+// take turns: a tab that waited for the lock reuses the other tab's result
+// Rejects with an AuthError; a revoked session is signed out everywhere
+let refreshInFlight: Promise<void> | null = null
+
+export function refreshAccessToken(): Promise<void> {
+  refreshInFlight ??= refreshWithLock()
+    .catch((error: unknown) => {
+      if (error instanceof AuthError && error.kind === 'refresh_revoked') {
+        logout(error.kind)
+      }
+      throw error
+    })
+    .finally(() => {
+      refreshInFlight = null
+    })
+  return refreshInFlight
+}
+
+async function refreshWithLock(): Promise<void> {
+  // Resolved once, so a profile switch mid-refresh can't redirect the write
+  const profile = getActiveProfile()
+  const store = tokenStores[profile.tokenStorage]
+  const staleAccessToken = store.load(profile.id)?.accessToken
+
+  // Session and in-memory tokens belong to this tab alone
+  if (profile.tokenStorage !== 'local') {
+    return requestTokenRefresh(profile.id, store)
   }
+
+  return withCrossTabLock(profileKey(REFRESH_LOCK, profile.id), async () => {
+    const current = store.load(profile.id)
+    if (current && current.accessToken !== staleAccessToken) {
+      return
+    }
+    await requestTokenRefresh(profile.id, store)
+  })
 }
 
-// Refresh the access token
-export async function refreshAccessToken(): Promise<boolean> {
+async function requestTokenRefresh(
+  profileId: string,
+  store: TokenStore
+): Promise<void> {
   const { clientId } = getConfig()
 
-  const refreshToken = localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN)
+  const refreshToken = store.load(profileId)?.refreshToken
   if (!refreshToken) {
-    console.error('No refresh token found')
-    return false
+    throw new AuthError('refresh_revoked', 'No refresh token found')
   }
 
+  let response: Response
   try {
-    const response = await fetch(SPOTIFY_TOKEN_URL, {
+    response = await fetch(SPOTIFY_TOKEN_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -191,69 +352,71 @@ export async function refreshAccessToken(): Promise<boolean> {
         refresh_token: refreshToken,
       }),
     })
-
-    if (!response.ok) {
-      const error = await response.text()
-      console.error('Token refresh failed:', error)
-      return false
-    }
-
-    const data = (await response.json()) as TokenResponse
-    storeTokens(data)
-
-    return true
   } catch (error) {
     console.error('Token refresh error:', error)
-    return false
+    throw new AuthError('network')
   }
-}
 
-// Store tokens in localStorage
-function storeTokens(data: TokenResponse): void {
-  const expiresAt = Date.now() + data.expires_in * 1000
+  if (!response.ok) {
+    const error = await tokenRequestError(response, 'refresh_revoked')
+    console.error('Token refresh failed:', error.message)
+    throw error
+  }
 
-  localStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.access_token)
-  localStorage.setItem(STORAGE_KEYS.EXPIRES_AT, expiresAt.toString())
+  const data = (await response.json()) as TokenResponse
+  storeTokens(data, profileId, store)
+  broadcastAuthEvent({ type: 'tokens-updated', profileId })
+}
 
-  if (data.refresh_token) {
-    localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refresh_token)
-  }
+// Store tokens for a profile in that profile's token store
+function storeTokens(
+  data: TokenResponse,
+  profileId: string,
+  store: TokenStore
+): void {
+  const previous = store.load(profileId)
+
+  store.save(profileId, {
+    accessToken: data.access_token,
+    // Refresh responses may omit the refresh token - keep the old one
+    refreshToken: data.refresh_token ?? previous?.refreshToken ?? null,
+    expiresAt: Date.now() + data.expires_in * 1000,
+    scope: data.scope,
+  })
 }
 
 // Get the current access token (refreshing if needed)
+// Rejects with an AuthError if the refresh fails
 export async function getAccessToken(): Promise<string | null> {
-  const accessToken = localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN)
-  const expiresAt = localStorage.getItem(STORAGE_KEYS.EXPIRES_AT)
+  const tokens = getTokenStore().load(getActiveProfileId())
 
-  if (!accessToken || !expiresAt) {
+  if (!tokens) {
     return null
   }
 
   // Check if token is expired or will expire in the next minute
-  const isExpired = Date.now() > parseInt(expiresAt, 10) - 60000
+  const isExpired = Date.now() > tokens.expiresAt - 60000
 
   if (isExpired) {
-    const refreshed = await refreshAccessToken()
-    if (!refreshed) {
-      return null
-    }
-    return localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN)
+    await refreshAccessToken()
+    return getTokenStore().load(getActiveProfileId())?.accessToken ?? null
   }
 
-  return accessToken
+  return tokens.accessToken
 }
 
 // Check if user is authenticated
 export function isAuthenticated(): boolean {
-  const accessToken = localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN)
-  const expiresAt = localStorage.getItem(STORAGE_KEYS.EXPIRES_AT)
-
-  if (!accessToken || !expiresAt) {
-    return false
-  }
-
   // Consider authenticated if we have a token (even if expired, we might refresh it)
-  return !!accessToken
+  return getTokenStore().load(getActiveProfileId()) !== null
+}
+
+// Scopes granted to the active profile's tokens
+export function getGrantedScopes(): string[] {
+  const tokens = getTokenStore().load(getActiveProfileId())
+  if (!tokens) return []
+  // Tokens from before scopes were tracked only have the original ones
+  return tokens.scope === null ? [...LEGACY_SCOPES] : parseScope(tokens.scope)
 }
 
 // Get stored token info
@@ -262,33 +425,121 @@ export function getStoredAuth(): {
   refreshToken: string | null
   expiresAt: number | null
 } {
+  const tokens = getTokenStore().load(getActiveProfileId())
   return {
-    accessToken: localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN),
-    refreshToken: localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN),
-    expiresAt: localStorage.getItem(STORAGE_KEYS.EXPIRES_AT)
-      ? parseInt(localStorage.getItem(STORAGE_KEYS.EXPIRES_AT) ?? '0', 10)
-      : null,
+    accessToken: tokens?.accessToken ?? null,
+    refreshToken: tokens?.refreshToken ?? null,
+    expiresAt: tokens?.expiresAt ?? null,
   }
 }
 
-// Logout - clear all tokens
-export function logout(): void {
-  localStorage.removeItem(STORAGE_KEYS.ACCESS_TOKEN)
-  localStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN)
-  localStorage.removeItem(STORAGE_KEYS.EXPIRES_AT)
-  localStorage.removeItem(STORAGE_KEYS.CODE_VERIFIER)
+// Logout - clear the active profile's tokens (in every tab)
+// `reason` is set when the session ended on its own rather than by the user
+export function logout(reason?: AuthErrorKind): void {
+  const profileId = getActiveProfileId()
+  getTokenStore().clear(profileId)
+  clearPendingAuth()
+  // Cached listening data belongs to this user
+  void clearPersistedCache()
+  broadcastAuthEvent(
+    reason
+      ? { type: 'logout', profileId, reason }
+      : { type: 'logout', profileId }
+  )
+}
+
+/**
+ * Renew the active profile's access token shortly before it expires
+ * Reschedules itself whenever any tab stores new tokens
+ * @returns Stop function
+ */
+export function startTokenRefreshScheduler(): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const schedule = (delay?: number): void => {
+    if (timer) clearTimeout(timer)
+    timer = null
+
+    const tokens = getTokenStore().load(getActiveProfileId())
+    if (!tokens?.refreshToken) return
+
+    const wait = delay ?? tokens.expiresAt - REFRESH_AHEAD_MS - Date.now()
+    timer = setTimeout(
+      () => {
+        refreshAccessToken().then(
+          () => {
+            schedule()
+          },
+          (error: unknown) => {
+            // Retry while the current token is still usable; once it has
+            // expired the next API call refreshes reactively. A revoked
+            // session has already been signed out
+            const current = getTokenStore().load(getActiveProfileId())
+            if (
+              error instanceof AuthError &&
+              error.kind === 'network' &&
+              current &&
+              current.expiresAt > Date.now()
+            ) {
+              schedule(REFRESH_RETRY_MS)
+            }
+          }
+        )
+      },
+      Math.max(0, wait)
+    )
+  }
+
+  // Background tabs throttle timers, so re-check when the tab is shown
+  const handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') schedule()
+  }
+
+  const unsubscribe = subscribeToAuthEvents((event) => {
+    if (
+      event.type === 'tokens-updated' &&
+      event.profileId === getActiveProfileId()
+    ) {
+      schedule()
+    }
+  })
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+  schedule()
+
+  return () => {
+    if (timer) clearTimeout(timer)
+    unsubscribe()
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }
 }
 
 // Handle the callback from Spotify
-export async function handleCallback(code: string): Promise<{
-  success: boolean
-  error?: string
-}> {
+// Rejects with an AuthError describing why the login can't complete
+export async function handleCallback(params: URLSearchParams): Promise<void> {
+  const pending = takePendingAuth()
+
+  const state = params.get('state')
+  if (!state || state !== pending.state) {
+    throw new AuthError('state_mismatch')
+  }
+
+  const error = params.get('error')
+  if (error) {
+    throw new AuthError(error === 'access_denied' ? 'denied' : 'unknown', error)
+  }
+
+  const code = params.get('code')
   if (!code) {
-    return { success: false, error: 'No authorization code received' }
+    throw new AuthError('unknown', 'No authorization code received')
   }
 
-  const success = await exchangeCodeForToken(code)
+  if (
+    !pending.codeVerifier ||
+    pending.startedAt === null ||
+    Date.now() - pending.startedAt > PENDING_AUTH_MAX_AGE_MS
+  ) {
+    throw new AuthError('expired_verifier')
+  }
 
-  return { success }
+  await exchangeCodeForToken(code, pending.codeVerifier)
 }
@@ -1,12 +1,16 @@
-import { getAccessToken, refreshAccessToken, logout } from './auth'
+import { getAccessToken, refreshAccessToken } from './auth'
+import { requestScheduler } from './scheduler'
+import { SchemaError, type Schema } from './validation'
 import type { SpotifyError } from './types'
 
 const SPOTIFY_API_BASE = 'https://api.spotify.com/v1'
 
-interface FetchOptions {
+interface FetchOptions<T> {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
   body?: Record<string, unknown>
   retried?: boolean
+  /** Validates (and coerces) the response body before it is returned */
+  schema?: Schema<T>
 }
 
 export class SpotifyApiError extends Error {
@@ -19,11 +23,34 @@ export class SpotifyApiError extends Error {
   }
 }
 
+/**
+ * A response body that doesn't match the expected schema
+ */
+export class SpotifyValidationError extends Error {
+  /** Endpoint path without query string, e.g. `/me/top/artists` */
+  endpoint: string
+  /** Path of the offending field, e.g. `items[3].followers.total` */
+  path: string
+  expected: string
+  received: string
+
+  constructor(endpoint: string, error: SchemaError) {
+    super(
+      `Invalid response from ${endpoint}: expected ${error.expected} at ${error.path || '(root)'}, received ${error.received}`
+    )
+    this.name = 'SpotifyValidationError'
+    this.endpoint = endpoint
+    this.path = error.path
+    this.expected = error.expected
+    this.received = error.received
+  }
+}
+
 export async function spotifyFetch<T>(
   endpoint: string,
-  options: FetchOptions = {}
+  options: FetchOptions<T> = {}
 ): Promise<T> {
-  const { method = 'GET', body, retried = false } = options
+  const { method = 'GET', body, retried = false, schema } = options
 
   const accessToken = await getAccessToken()
 
@@ -45,16 +72,16 @@ export async function spotifyFetch<T>(
     fetchOptions.body = JSON.stringify(body)
   }
 
-  const response = await fetch(`${SPOTIFY_API_BASE}${endpoint}`, fetchOptions)
+  // Routed through the scheduler for concurrency limits and 429/5xx backoff
+  const response = await requestScheduler.run(() =>
+    fetch(`${SPOTIFY_API_BASE}${endpoint}`, fetchOptions)
+  )
 
   // Handle token expiration
+  // A failed refresh rejects with an AuthError (and signs out if revoked)
   if (response.status === 401 && !retried) {
-    const refreshed = await refreshAccessToken()
-    if (refreshed) {
-      return spotifyFetch<T>(endpoint, { ...options, retried: true })
-    }
-    logout()
-    throw new SpotifyApiError(401, 'Session expired. Please log in again.')
+    await refreshAccessToken()
+    return spotifyFetch<T>(endpoint, { ...options, retried: true })
   }
 
   if (!response.ok) {
@@ -75,5 +102,17 @@ export async function spotifyFetch<T>(
     return {} as T
   }
 
-  return response.json() as Promise<T>
+  const data: unknown = await response.json()
+  if (!schema) {
+    return data as T
+  }
+
+  try {
+    return schema(data, '')
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new SpotifyValidationError(endpoint.split('?')[0], error)
+    }
+    throw error
+  }
 }
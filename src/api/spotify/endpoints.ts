@@ -1,4 +1,17 @@
 import { spotifyFetch } from './client'
+import {
+  topArtistsResponseSchema,
+  topTracksResponseSchema,
+  audioFeaturesResponseSchema,
+  relatedArtistsResponseSchema,
+  artistTopTracksResponseSchema,
+  artistsResponseSchema,
+  recentlyPlayedResponseSchema,
+  artistSearchResponseSchema,
+  followedArtistsResponseSchema,
+  savedTracksResponseSchema,
+  userProfileSchema,
+} from './schemas'
 import type {
   SpotifyTopArtistsResponse,
   SpotifyTopTracksResponse,
@@ -6,18 +19,62 @@ import type {
   SpotifyRelatedArtistsResponse,
   SpotifyArtistTopTracksResponse,
   SpotifyUserProfile,
+  SpotifyArtist,
+  SpotifyPlayHistory,
+  SpotifyRecentlyPlayedResponse,
+  SpotifyFollowedArtistsResponse,
+  SpotifySavedTrack,
+  SpotifySavedTracksResponse,
   TimeRange,
 } from './types'
 
 // Default parameters
 const DEFAULT_LIMIT = 50
 const DEFAULT_TIME_RANGE: TimeRange = 'medium_term'
+// Used when the user's country is unknown (e.g. the profile hasn't loaded)
+export const DEFAULT_MARKET = 'US'
+
+// Spotify API allows max 100 tracks per audio-features request
+const AUDIO_FEATURES_CHUNK_SIZE = 100
+// Chunks requested in parallel (the request scheduler still caps globally)
+const AUDIO_FEATURES_CONCURRENCY = 3
+
+// Split an array into chunks of at most `size` items
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+// Map over items with at most `limit` tasks in flight, preserving order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await task(items[index])
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  )
+  return results
+}
 
 // Get user's top artists
 export async function getTopArtists(
   timeRange: TimeRange = DEFAULT_TIME_RANGE,
   limit: number = DEFAULT_LIMIT,
-  offset: number = 0
+  offset = 0
 ): Promise<SpotifyTopArtistsResponse> {
   const params = new URLSearchParams({
     time_range: timeRange,
@@ -25,14 +82,16 @@ export async function getTopArtists(
     offset: offset.toString(),
   })
 
-  return spotifyFetch<SpotifyTopArtistsResponse>(`/me/top/artists?${params}`)
+  return spotifyFetch(`/me/top/artists?${params}`, {
+    schema: topArtistsResponseSchema,
+  })
 }
 
 // Get user's top tracks
 export async function getTopTracks(
   timeRange: TimeRange = DEFAULT_TIME_RANGE,
   limit: number = DEFAULT_LIMIT,
-  offset: number = 0
+  offset = 0
 ): Promise<SpotifyTopTracksResponse> {
   const params = new URLSearchParams({
     time_range: timeRange,
@@ -40,37 +99,50 @@ export async function getTopTracks(
     offset: offset.toString(),
   })
 
-  return spotifyFetch<SpotifyTopTracksResponse>(`/me/top/tracks?${params}`)
+  return spotifyFetch(`/me/top/tracks?${params}`, {
+    schema: topTracksResponseSchema,
+  })
 }
 
-// Get audio features for multiple tracks
+// Get audio features for any number of tracks
+// Requests are chunked and run with limited concurrency; duplicate IDs are
+// fetched once. Entries stay aligned with the deduped IDs, so unavailable
+// tracks come back as null
 export async function getAudioFeatures(
   trackIds: string[]
 ): Promise<SpotifyAudioFeaturesResponse> {
-  if (trackIds.length === 0) {
+  const uniqueIds = Array.from(new Set(trackIds))
+  if (uniqueIds.length === 0) {
     return { audio_features: [] }
   }
 
-  // Spotify API allows max 100 tracks per request
-  const ids = trackIds.slice(0, 100).join(',')
-  return spotifyFetch<SpotifyAudioFeaturesResponse>(
-    `/audio-features?ids=${ids}`
+  const responses = await mapWithConcurrency(
+    chunk(uniqueIds, AUDIO_FEATURES_CHUNK_SIZE),
+    AUDIO_FEATURES_CONCURRENCY,
+    (ids) =>
+      spotifyFetch(`/audio-features?ids=${ids.join(',')}`, {
+        schema: audioFeaturesResponseSchema,
+      })
   )
+
+  return {
+    audio_features: responses.flatMap((response) => response.audio_features),
+  }
 }
 
 // Get related artists for a given artist
 export async function getRelatedArtists(
   artistId: string
 ): Promise<SpotifyRelatedArtistsResponse> {
-  return spotifyFetch<SpotifyRelatedArtistsResponse>(
-    `/artists/${artistId}/related-artists`
-  )
+  return spotifyFetch(`/artists/${artistId}/related-artists`, {
+    schema: relatedArtistsResponseSchema,
+  })
 }
 
 // Fetch all top artists (handles pagination)
 export async function getAllTopArtists(
   timeRange: TimeRange = DEFAULT_TIME_RANGE,
-  maxArtists: number = 100
+  maxArtists = 100
 ): Promise<SpotifyTopArtistsResponse['items']> {
   const artists: SpotifyTopArtistsResponse['items'] = []
   let offset = 0
@@ -93,7 +165,7 @@ export async function getAllTopArtists(
 // Fetch all top tracks (handles pagination)
 export async function getAllTopTracks(
   timeRange: TimeRange = DEFAULT_TIME_RANGE,
-  maxTracks: number = 100
+  maxTracks = 100
 ): Promise<SpotifyTopTracksResponse['items']> {
   const tracks: SpotifyTopTracksResponse['items'] = []
   let offset = 0
@@ -114,16 +186,172 @@ export async function getAllTopTracks(
 }
 
 // Get artist's top tracks (for preview playback)
+// The market decides which tracks are playable and how they are relinked
 export async function getArtistTopTracks(
   artistId: string,
-  market: string = 'US'
+  market: string = DEFAULT_MARKET
 ): Promise<SpotifyArtistTopTracksResponse> {
-  return spotifyFetch<SpotifyArtistTopTracksResponse>(
-    `/artists/${artistId}/top-tracks?market=${market}`
-  )
+  return spotifyFetch(`/artists/${artistId}/top-tracks?market=${market}`, {
+    schema: artistTopTracksResponseSchema,
+  })
+}
+
+// Get several artists by ID (handles the 50-per-request limit)
+export async function getArtists(ids: string[]): Promise<SpotifyArtist[]> {
+  const artists: SpotifyArtist[] = []
+
+  for (let i = 0; i < ids.length; i += 50) {
+    const chunk = ids.slice(i, i + 50).join(',')
+    const response = await spotifyFetch(`/artists?ids=${chunk}`, {
+      schema: artistsResponseSchema,
+    })
+    artists.push(
+      ...response.artists.filter((a): a is SpotifyArtist => a !== null)
+    )
+  }
+
+  return artists
+}
+
+// Search artists by name (best matches first)
+export async function searchArtists(
+  query: string,
+  limit = 5
+): Promise<SpotifyArtist[]> {
+  const params = new URLSearchParams({
+    q: query,
+    type: 'artist',
+    limit: limit.toString(),
+  })
+  const response = await spotifyFetch(`/search?${params.toString()}`, {
+    schema: artistSearchResponseSchema,
+  })
+  return response.artists.items
+}
+
+// Get the user's recently played tracks (one cursor page)
+export async function getRecentlyPlayed(
+  limit: number = DEFAULT_LIMIT,
+  before?: number
+): Promise<SpotifyRecentlyPlayedResponse> {
+  const params = new URLSearchParams({ limit: limit.toString() })
+  if (before !== undefined) {
+    params.set('before', before.toString())
+  }
+
+  return spotifyFetch(`/me/player/recently-played?${params}`, {
+    schema: recentlyPlayedResponseSchema,
+  })
+}
+
+// Fetch recently played tracks (follows the `before` cursor backwards in time)
+export async function getAllRecentlyPlayed(
+  maxItems = 50
+): Promise<SpotifyPlayHistory[]> {
+  const items: SpotifyPlayHistory[] = []
+  let before: number | undefined
+
+  while (items.length < maxItems) {
+    const limit = Math.min(50, maxItems - items.length)
+    const response = await getRecentlyPlayed(limit, before)
+    items.push(...response.items)
+
+    const cursor = response.cursors?.before
+    if (!response.next || !cursor || response.items.length === 0) {
+      break
+    }
+
+    before = parseInt(cursor, 10)
+  }
+
+  return items.slice(0, maxItems)
+}
+
+// Get artists the user follows (one cursor page)
+export async function getFollowedArtists(
+  limit: number = DEFAULT_LIMIT,
+  after?: string
+): Promise<SpotifyFollowedArtistsResponse> {
+  const params = new URLSearchParams({
+    type: 'artist',
+    limit: limit.toString(),
+  })
+  if (after !== undefined) {
+    params.set('after', after)
+  }
+
+  return spotifyFetch(`/me/following?${params}`, {
+    schema: followedArtistsResponseSchema,
+  })
+}
+
+// Fetch all followed artists (follows cursors.after)
+export async function getAllFollowedArtists(
+  maxItems = 200
+): Promise<SpotifyArtist[]> {
+  const artists: SpotifyArtist[] = []
+  let after: string | undefined
+
+  while (artists.length < maxItems) {
+    const limit = Math.min(50, maxItems - artists.length)
+    const response = await getFollowedArtists(limit, after)
+    artists.push(...response.artists.items)
+
+    const cursor = response.artists.cursors?.after
+    if (!response.artists.next || !cursor) {
+      break
+    }
+
+    after = cursor
+  }
+
+  return artists.slice(0, maxItems)
+}
+
+// Get the user's saved tracks (one offset page)
+// With a market, tracks are relinked and flagged with is_playable
+export async function getSavedTracks(
+  limit: number = DEFAULT_LIMIT,
+  offset = 0,
+  market?: string
+): Promise<SpotifySavedTracksResponse> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    offset: offset.toString(),
+  })
+  if (market !== undefined) {
+    params.set('market', market)
+  }
+
+  return spotifyFetch(`/me/tracks?${params}`, {
+    schema: savedTracksResponseSchema,
+  })
+}
+
+// Fetch saved tracks, newest first (handles pagination)
+export async function getAllSavedTracks(
+  maxItems = 200,
+  market?: string
+): Promise<SpotifySavedTrack[]> {
+  const items: SpotifySavedTrack[] = []
+  let offset = 0
+
+  while (items.length < maxItems) {
+    const limit = Math.min(50, maxItems - items.length)
+    const response = await getSavedTracks(limit, offset, market)
+    items.push(...response.items)
+
+    if (!response.next || response.items.length === 0) {
+      break
+    }
+
+    offset += response.items.length
+  }
+
+  return items.slice(0, maxItems)
 }
 
 // Get current user's profile
 export async function getUserProfile(): Promise<SpotifyUserProfile> {
-  return spotifyFetch<SpotifyUserProfile>('/me')
+  return spotifyFetch('/me', { schema: userProfileSchema })
 }
@@ -2,4 +2,11 @@
 export * from './auth'
 export * from './client'
 export * from './endpoints'
+export * from './scheduler'
+export * from './profiles'
+export * from './tokenStore'
+export * from './sessionSync'
+export * from './scopes'
+export * from './schemas'
+export * from './validation'
 export type * from './types'
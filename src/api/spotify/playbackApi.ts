@@ -1,4 +1,5 @@
 import { spotifyFetch } from './client'
+import { playbackStateSchema, devicesResponseSchema } from './schemas'
 import type { SpotifyPlaybackState, SpotifyDevicesResponse } from './types'
 
 /**
@@ -6,7 +7,7 @@ import type { SpotifyPlaybackState, SpotifyDevicesResponse } from './types'
  */
 export async function getPlaybackState(): Promise<SpotifyPlaybackState | null> {
   try {
-    return await spotifyFetch<SpotifyPlaybackState>('/me/player')
+    return await spotifyFetch('/me/player', { schema: playbackStateSchema })
   } catch {
     return null
   }
@@ -16,7 +17,9 @@ export async function getPlaybackState(): Promise<SpotifyPlaybackState | null> {
  * Get available devices
  */
 export async function getDevices(): Promise<SpotifyDevicesResponse> {
-  return spotifyFetch<SpotifyDevicesResponse>('/me/player/devices')
+  return spotifyFetch('/me/player/devices', {
+    schema: devicesResponseSchema,
+  })
 }
 
 /**
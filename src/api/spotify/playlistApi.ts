@@ -0,0 +1,67 @@
+import { spotifyFetch } from './client'
+import { playlistSchema, playlistSnapshotSchema } from './schemas'
+import type { SpotifyPlaylist } from './types'
+
+// Spotify accepts at most 100 items per add-tracks request
+const ADD_TRACKS_CHUNK_SIZE = 100
+
+export interface PlaylistDetails {
+  name: string
+  description?: string
+  /** Private by default */
+  public?: boolean
+}
+
+/**
+ * Create an empty playlist in a user's library
+ * Needs playlist-modify-private (or -public for public playlists)
+ */
+export async function createPlaylist(
+  userId: string,
+  details: PlaylistDetails
+): Promise<SpotifyPlaylist> {
+  return spotifyFetch(`/users/${encodeURIComponent(userId)}/playlists`, {
+    method: 'POST',
+    body: {
+      name: details.name,
+      description: details.description ?? '',
+      public: details.public ?? false,
+    },
+    schema: playlistSchema,
+  })
+}
+
+/**
+ * Append tracks to a playlist, in order (handles the 100-per-request limit)
+ * @returns Snapshot ID of the playlist after the last addition
+ */
+export async function addTracksToPlaylist(
+  playlistId: string,
+  trackUris: string[]
+): Promise<string | null> {
+  let snapshotId: string | null = null
+
+  for (let i = 0; i < trackUris.length; i += ADD_TRACKS_CHUNK_SIZE) {
+    const response = await spotifyFetch(`/playlists/${playlistId}/tracks`, {
+      method: 'POST',
+      body: { uris: trackUris.slice(i, i + ADD_TRACKS_CHUNK_SIZE) },
+      schema: playlistSnapshotSchema,
+    })
+    snapshotId = response.snapshot_id
+  }
+
+  return snapshotId
+}
+
+/**
+ * Create a playlist and fill it with tracks in the given order
+ */
+export async function createPlaylistWithTracks(
+  userId: string,
+  details: PlaylistDetails,
+  trackUris: string[]
+): Promise<SpotifyPlaylist> {
+  const playlist = await createPlaylist(userId, details)
+  await addTracksToPlaylist(playlist.id, trackUris)
+  return playlist
+}
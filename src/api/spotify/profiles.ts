@@ -0,0 +1,204 @@
+/**
+ * Account profiles
+ * Tokens, caches and preferences are stored per profile so several Spotify
+ * accounts can share one browser. The default profile keeps the original
+ * un-prefixed keys, so data from before profiles existed still belongs to it
+ *
+ * The registry is read synchronously on load so persisted stores created at
+ * import time already see the right profile
+ */
+
+import type { TokenStorageKind } from './tokenStore'
+
+export const DEFAULT_PROFILE_ID = 'default'
+
+const REGISTRY_KEY = 'auranova-profiles'
+
+export interface AuthProfile {
+  id: string
+  name: string
+  /** Where this profile's tokens are kept */
+  tokenStorage: TokenStorageKind
+}
+
+export interface ProfileRegistry {
+  profiles: AuthProfile[]
+  activeProfileId: string
+}
+
+type RegistryListener = (registry: ProfileRegistry) => void
+
+const DEFAULT_REGISTRY: ProfileRegistry = {
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Main', tokenStorage: 'local' }],
+  activeProfileId: DEFAULT_PROFILE_ID,
+}
+
+function loadRegistry(): ProfileRegistry {
+  try {
+    const stored = localStorage.getItem(REGISTRY_KEY)
+    if (!stored) return DEFAULT_REGISTRY
+
+    const registry = JSON.parse(stored) as ProfileRegistry
+    const hasActive = registry.profiles.some(
+      (profile) => profile.id === registry.activeProfileId
+    )
+    return hasActive ? registry : DEFAULT_REGISTRY
+  } catch {
+    return DEFAULT_REGISTRY
+  }
+}
+
+let registry = loadRegistry()
+const listeners = new Set<RegistryListener>()
+
+function commit(next: ProfileRegistry): void {
+  registry = next
+  try {
+    localStorage.setItem(REGISTRY_KEY, JSON.stringify(next))
+  } catch {
+    // Storage unavailable - the registry still works for this session
+  }
+  listeners.forEach((listener) => {
+    listener(registry)
+  })
+}
+
+/**
+ * Current registry (stable reference between changes)
+ */
+export function getProfileRegistry(): ProfileRegistry {
+  return registry
+}
+
+/**
+ * Subscribe to registry changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToProfiles(listener: RegistryListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Profile whose tokens and data are currently in use
+ */
+export function getActiveProfile(): AuthProfile {
+  return (
+    registry.profiles.find((p) => p.id === registry.activeProfileId) ??
+    DEFAULT_REGISTRY.profiles[0]
+  )
+}
+
+export function getActiveProfileId(): string {
+  return registry.activeProfileId
+}
+
+/**
+ * Switch the profile used for tokens and namespaced storage
+ * Callers are responsible for reloading anything read from the old profile
+ */
+export function setActiveProfileId(profileId: string): void {
+  if (!registry.profiles.some((profile) => profile.id === profileId)) return
+  commit({ ...registry, activeProfileId: profileId })
+}
+
+/**
+ * Register a new profile (does not switch to it)
+ */
+export function addProfile(
+  name: string,
+  tokenStorage: TokenStorageKind
+): AuthProfile {
+  const profile: AuthProfile = {
+    id: `profile-${Date.now().toString(36)}`,
+    name,
+    tokenStorage,
+  }
+  commit({ ...registry, profiles: [...registry.profiles, profile] })
+  return profile
+}
+
+export function renameProfile(profileId: string, name: string): void {
+  commit({
+    ...registry,
+    profiles: registry.profiles.map((profile) =>
+      profile.id === profileId ? { ...profile, name } : profile
+    ),
+  })
+}
+
+/**
+ * Remove a profile and its namespaced localStorage data
+ * The default and the active profile can't be removed
+ */
+export function removeProfile(profileId: string): void {
+  if (
+    profileId === DEFAULT_PROFILE_ID ||
+    profileId === registry.activeProfileId
+  ) {
+    return
+  }
+
+  try {
+    const suffix = profileKey('', profileId)
+    const keysToRemove: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key?.endsWith(suffix)) {
+        keysToRemove.push(key)
+      }
+    }
+    keysToRemove.forEach((key) => {
+      localStorage.removeItem(key)
+    })
+  } catch {
+    // Storage unavailable - nothing to clear
+  }
+
+  commit({
+    ...registry,
+    profiles: registry.profiles.filter((profile) => profile.id !== profileId),
+  })
+}
+
+/**
+ * Namespace a storage key for a profile (the active one by default)
+ */
+export function profileKey(
+  key: string,
+  profileId: string = registry.activeProfileId
+): string {
+  return profileId === DEFAULT_PROFILE_ID ? key : `${key}@${profileId}`
+}
+
+// Storage operations zustand's persist middleware needs
+export type ProfileScopedStorage = Pick<
+  Storage,
+  'getItem' | 'setItem' | 'removeItem'
+>
+
+function scopeStorage(getStorage: () => Storage): ProfileScopedStorage {
+  return {
+    getItem: (name) => getStorage().getItem(profileKey(name)),
+    setItem: (name, value): void => {
+      getStorage().setItem(profileKey(name), value)
+    },
+    removeItem: (name): void => {
+      getStorage().removeItem(profileKey(name))
+    },
+  }
+}
+
+/**
+ * Storage adapter for zustand's persist middleware that namespaces every key
+ * by the active profile
+ */
+export const profileScopedStorage = scopeStorage(() => localStorage)
+
+/**
+ * Profile-scoped adapter over sessionStorage, for state that should not
+ * outlive the tab
+ */
+export const profileScopedSessionStorage = scopeStorage(() => sessionStorage)
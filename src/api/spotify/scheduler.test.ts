@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  isRetryableStatus,
+  parseRetryAfter,
+  requestScheduler,
+} from './scheduler'
+
+function respond(status: number, headers: HeadersInit = {}): Response {
+  return new Response(null, { status, headers })
+}
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000)
+  })
+
+  it('reads an HTTP date relative to now', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z')
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000)
+  })
+
+  it('ignores missing or malformed headers', () => {
+    expect(parseRetryAfter(null)).toBeNull()
+    expect(parseRetryAfter('soon')).toBeNull()
+  })
+})
+
+describe('isRetryableStatus', () => {
+  it('retries 429 and 5xx only', () => {
+    expect(isRetryableStatus(429)).toBe(true)
+    expect(isRetryableStatus(503)).toBe(true)
+    expect(isRetryableStatus(404)).toBe(false)
+    expect(isRetryableStatus(200)).toBe(false)
+  })
+})
+
+describe('requestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    requestScheduler.configure({ maxConcurrent: 1 })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    requestScheduler.configure({ maxConcurrent: 4, maxRetries: 4 })
+  })
+
+  it('holds queued requests until a 429 backoff ends', async () => {
+    const started: string[] = []
+    let rateLimited = false
+    const task = (name: string) => (): Promise<Response> => {
+      started.push(name)
+      if (name === 'a' && !rateLimited) {
+        rateLimited = true
+        return Promise.resolve(respond(429, { 'Retry-After': '2' }))
+      }
+      return Promise.resolve(respond(200))
+    }
+
+    const results = Promise.all(
+      ['a', 'b', 'c'].map((name) => requestScheduler.run(task(name)))
+    )
+
+    // The 429 came back, but nothing else may start during the backoff
+    await vi.advanceTimersByTimeAsync(1900)
+    expect(started).toEqual(['a'])
+    expect(requestScheduler.getState().backoffReason).toBe(429)
+
+    await vi.advanceTimersByTimeAsync(200)
+    const responses = await results
+    expect(responses.map((response) => response.status)).toEqual([
+      200, 200, 200,
+    ])
+    expect(started).toEqual(['a', 'b', 'c', 'a'])
+    expect(requestScheduler.getState()).toMatchObject({
+      active: 0,
+      queued: 0,
+      backoffUntil: null,
+    })
+  })
+
+  it('returns the last response once retries are exhausted', async () => {
+    requestScheduler.configure({ maxRetries: 1 })
+    const task = vi.fn(() => Promise.resolve(respond(503)))
+
+    const result = requestScheduler.run(task)
+    await vi.runAllTimersAsync()
+
+    expect((await result).status).toBe(503)
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,231 @@
+/**
+ * RequestScheduler - Rate-limit aware queue in front of the Spotify Web API
+ * Caps concurrent requests, honors Retry-After on 429 and backs off
+ * exponentially (with jitter) on 429/5xx responses
+ */
+
+export interface SchedulerConfig {
+  /** Maximum number of requests in flight at once */
+  maxConcurrent: number
+  /** Maximum number of retries for a single request */
+  maxRetries: number
+  /** Base delay for exponential backoff (ms) */
+  baseDelayMs: number
+  /** Upper bound for any single backoff delay (ms) */
+  maxDelayMs: number
+}
+
+export interface SchedulerState {
+  /** Requests currently in flight */
+  active: number
+  /** Requests waiting for a free slot */
+  queued: number
+  /** Epoch ms until which all requests are paused (null = not backing off) */
+  backoffUntil: number | null
+  /** Status code that triggered the current backoff */
+  backoffReason: number | null
+}
+
+type SchedulerListener = (state: SchedulerState) => void
+
+const DEFAULT_CONFIG: SchedulerConfig = {
+  maxConcurrent: 4,
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Whether a response status should be retried
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status <= 599)
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now()
+): number | null {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(header)
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now)
+  }
+
+  return null
+}
+
+class RequestScheduler {
+  private config: SchedulerConfig
+  private active = 0
+  private waiting: (() => void)[] = []
+  private backoffUntil: number | null = null
+  private backoffReason: number | null = null
+  private listeners = new Set<SchedulerListener>()
+  private snapshot: SchedulerState
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+    this.snapshot = this.buildSnapshot()
+  }
+
+  /**
+   * Run a fetch through the scheduler
+   * Retries 429/5xx responses; the last response is returned once retries
+   * are exhausted so the caller can surface it as an error
+   */
+  async run(task: () => Promise<Response>): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire()
+
+      let response: Response
+      let delay: number
+      try {
+        // A backoff may have started while this request was queued
+        await this.waitForBackoff()
+        response = await task()
+
+        if (
+          !isRetryableStatus(response.status) ||
+          attempt >= this.config.maxRetries
+        ) {
+          return response
+        }
+
+        delay = this.getRetryDelay(response, attempt)
+
+        // A 429 applies to the whole app, so pause every queued request -
+        // before the slot is handed to the next one
+        if (response.status === 429) {
+          this.startBackoff(delay, response.status)
+        }
+      } finally {
+        this.release()
+      }
+
+      if (response.status !== 429) {
+        await sleep(delay)
+      }
+    }
+  }
+
+  /**
+   * Current queue/backoff state (stable reference between changes)
+   */
+  getState(): SchedulerState {
+    return this.snapshot
+  }
+
+  /**
+   * Subscribe to state changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: SchedulerListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Update scheduler configuration
+   */
+  configure(config: Partial<SchedulerConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  private getRetryDelay(response: Response, attempt: number): number {
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, this.config.maxDelayMs)
+    }
+
+    // Exponential backoff with "equal jitter" (half fixed, half random)
+    const exponential = Math.min(
+      this.config.baseDelayMs * 2 ** attempt,
+      this.config.maxDelayMs
+    )
+    return exponential / 2 + Math.random() * (exponential / 2)
+  }
+
+  private startBackoff(delay: number, status: number): void {
+    const until = Date.now() + delay
+    // Never shorten an existing backoff window
+    if (this.backoffUntil === null || until > this.backoffUntil) {
+      this.backoffUntil = until
+      this.backoffReason = status
+      this.emit()
+    }
+  }
+
+  private async waitForBackoff(): Promise<void> {
+    while (this.backoffUntil !== null) {
+      const remaining = this.backoffUntil - Date.now()
+      if (remaining <= 0) {
+        this.backoffUntil = null
+        this.backoffReason = null
+        this.emit()
+        break
+      }
+      await sleep(remaining)
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.config.maxConcurrent) {
+      this.active++
+      this.emit()
+      return
+    }
+
+    // The releasing request hands its slot over directly
+    await new Promise<void>((resolve) => {
+      this.waiting.push(resolve)
+      this.emit()
+    })
+  }
+
+  private release(): void {
+    const next = this.waiting.shift()
+    if (next) {
+      next()
+    } else {
+      this.active--
+    }
+    this.emit()
+  }
+
+  private buildSnapshot(): SchedulerState {
+    return {
+      active: this.active,
+      queued: this.waiting.length,
+      backoffUntil: this.backoffUntil,
+      backoffReason: this.backoffReason,
+    }
+  }
+
+  private emit(): void {
+    this.snapshot = this.buildSnapshot()
+    this.listeners.forEach((listener) => {
+      listener(this.snapshot)
+    })
+  }
+}
+
+// Singleton instance shared by every spotifyFetch call
+export const requestScheduler = new RequestScheduler()
+
+export type { RequestScheduler }
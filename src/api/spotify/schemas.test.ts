@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import {
+  artistSchema,
+  audioFeaturesResponseSchema,
+  topTracksResponseSchema,
+} from './schemas'
+import { SchemaError } from './validation'
+
+describe('artistSchema', () => {
+  it('fills cosmetic fields Spotify omits on simplified artists', () => {
+    expect(artistSchema({ id: 'a1', name: 'Artist' }, '')).toEqual({
+      id: 'a1',
+      name: 'Artist',
+      genres: [],
+      popularity: 0,
+      images: [],
+      followers: { total: 0 },
+      external_urls: { spotify: '' },
+      uri: '',
+    })
+  })
+
+  it('requires an id', () => {
+    expect(() => artistSchema({ name: 'Artist' }, '')).toThrow(SchemaError)
+  })
+})
+
+describe('topTracksResponseSchema', () => {
+  const track = {
+    id: 't1',
+    name: 'Track',
+    artists: [{ id: 'a1', name: 'Artist' }],
+    album: { id: 'al1', name: 'Album' },
+  }
+
+  it('parses a page of tracks', () => {
+    const page = topTracksResponseSchema(
+      { items: [track], total: 1, next: null, previous: null },
+      ''
+    )
+    expect(page.items[0]?.artists[0]?.genres).toEqual([])
+    expect(page.items[0]?.album.images).toEqual([])
+    expect(page.total).toBe(1)
+  })
+
+  it('names the failing track in the error', () => {
+    expect(() =>
+      topTracksResponseSchema(
+        {
+          items: [track, { ...track, album: null }],
+          next: null,
+          previous: null,
+        },
+        ''
+      )
+    ).toThrow('Expected object at items[1].album, received null')
+  })
+})
+
+describe('audioFeaturesResponseSchema', () => {
+  it('keeps null entries for tracks without features', () => {
+    const response = audioFeaturesResponseSchema({ audio_features: [null] }, '')
+    expect(response.audio_features).toEqual([null])
+  })
+})
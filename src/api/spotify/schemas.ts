@@ -0,0 +1,294 @@
+import {
+  array,
+  boolean,
+  lenient,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+  type Schema,
+} from './validation'
+import type {
+  SpotifyImage,
+  SpotifyArtist,
+  SpotifyAlbum,
+  SpotifyTrack,
+  SpotifyLinkedTrack,
+  SpotifyAudioFeatures,
+  SpotifyPagingObject,
+  SpotifyTopArtistsResponse,
+  SpotifyTopTracksResponse,
+  SpotifyAudioFeaturesResponse,
+  SpotifyRelatedArtistsResponse,
+  SpotifyArtistTopTracksResponse,
+  SpotifyArtistsResponse,
+  SpotifyPlayHistory,
+  SpotifyCursors,
+  SpotifyRecentlyPlayedResponse,
+  SpotifyArtistSearchResponse,
+  SpotifyFollowedArtistsResponse,
+  SpotifySavedTrack,
+  SpotifySavedTracksResponse,
+  SpotifyDevice,
+  SpotifyDevicesResponse,
+  SpotifyPlaybackState,
+  SpotifyUserProfile,
+  SpotifyPlaylist,
+  SpotifyPlaylistSnapshot,
+} from './types'
+
+// Response schemas for every endpoint the app reads
+// IDs and names are required; cosmetic or statistical fields that Spotify
+// omits on simplified objects (images, followers, genres...) are coerced to
+// empty values so the transform pipeline can rely on them
+
+const imageSchema = object<SpotifyImage>({
+  url: string,
+  height: lenient(nullable(number), null),
+  width: lenient(nullable(number), null),
+})
+
+const images = lenient(array(imageSchema), [])
+
+const externalUrls = lenient(
+  object<SpotifyArtist['external_urls']>({ spotify: string }),
+  { spotify: '' }
+)
+
+const followers = lenient(
+  object<SpotifyArtist['followers']>({ total: number }),
+  { total: 0 }
+)
+
+const contextSchema = lenient(
+  nullable(
+    object<NonNullable<SpotifyPlayHistory['context']>>({
+      type: string,
+      href: lenient(string, ''),
+      external_urls: externalUrls,
+      uri: string,
+    })
+  ),
+  null
+)
+
+export const artistSchema = object<SpotifyArtist>({
+  id: string,
+  name: string,
+  genres: lenient(array(string), []),
+  popularity: lenient(number, 0),
+  images,
+  followers,
+  external_urls: externalUrls,
+  uri: lenient(string, ''),
+})
+
+const albumSchema = object<SpotifyAlbum>({
+  id: string,
+  name: string,
+  images,
+  release_date: lenient(string, ''),
+  album_type: lenient(string, ''),
+})
+
+export const trackSchema = object<SpotifyTrack>({
+  id: string,
+  name: string,
+  artists: array(artistSchema),
+  album: albumSchema,
+  duration_ms: lenient(number, 0),
+  popularity: lenient(number, 0),
+  preview_url: lenient(nullable(string), null),
+  external_urls: externalUrls,
+  uri: lenient(string, ''),
+  is_playable: lenient(optional(boolean), undefined),
+  linked_from: lenient(
+    optional(object<SpotifyLinkedTrack>({ id: string, uri: string })),
+    undefined
+  ),
+  restrictions: lenient(
+    optional(object<{ reason: string }>({ reason: string })),
+    undefined
+  ),
+})
+
+const audioFeaturesSchema = object<SpotifyAudioFeatures>({
+  id: string,
+  danceability: number,
+  energy: number,
+  key: number,
+  loudness: number,
+  mode: number,
+  speechiness: number,
+  acousticness: number,
+  instrumentalness: number,
+  liveness: number,
+  valence: number,
+  tempo: number,
+  duration_ms: lenient(number, 0),
+  time_signature: lenient(number, 4),
+})
+
+function paging<T>(item: Schema<T>): Schema<SpotifyPagingObject<T>> {
+  return object<SpotifyPagingObject<T>>({
+    items: array(item),
+    total: lenient(number, 0),
+    limit: lenient(number, 0),
+    offset: lenient(number, 0),
+    href: lenient(string, ''),
+    next: nullable(string),
+    previous: nullable(string),
+  })
+}
+
+export const topArtistsResponseSchema: Schema<SpotifyTopArtistsResponse> =
+  paging(artistSchema)
+
+export const topTracksResponseSchema: Schema<SpotifyTopTracksResponse> =
+  paging(trackSchema)
+
+export const audioFeaturesResponseSchema = object<SpotifyAudioFeaturesResponse>(
+  {
+    audio_features: array(nullable(audioFeaturesSchema)),
+  }
+)
+
+export const relatedArtistsResponseSchema =
+  object<SpotifyRelatedArtistsResponse>({
+    artists: array(artistSchema),
+  })
+
+export const artistTopTracksResponseSchema =
+  object<SpotifyArtistTopTracksResponse>({
+    tracks: array(trackSchema),
+  })
+
+export const artistsResponseSchema = object<SpotifyArtistsResponse>({
+  artists: array(nullable(artistSchema)),
+})
+
+const playHistorySchema = object<SpotifyPlayHistory>({
+  track: trackSchema,
+  played_at: string,
+  context: contextSchema,
+})
+
+export const recentlyPlayedResponseSchema =
+  object<SpotifyRecentlyPlayedResponse>({
+    items: array(playHistorySchema),
+    next: nullable(string),
+    cursors: nullable(
+      object<SpotifyCursors>({
+        after: nullable(string),
+        before: nullable(string),
+      })
+    ),
+    limit: lenient(number, 0),
+    href: lenient(string, ''),
+  })
+
+export const artistSearchResponseSchema = object<SpotifyArtistSearchResponse>({
+  artists: object<SpotifyArtistSearchResponse['artists']>({
+    items: array(artistSchema),
+    total: lenient(number, 0),
+    limit: lenient(number, 0),
+    href: lenient(string, ''),
+  }),
+})
+
+export const followedArtistsResponseSchema =
+  object<SpotifyFollowedArtistsResponse>({
+    artists: object<SpotifyFollowedArtistsResponse['artists']>({
+      items: array(artistSchema),
+      next: nullable(string),
+      cursors: nullable(
+        object<{ after: string | null }>({ after: nullable(string) })
+      ),
+      total: lenient(number, 0),
+      limit: lenient(number, 0),
+      href: lenient(string, ''),
+    }),
+  })
+
+export const savedTracksResponseSchema: Schema<SpotifySavedTracksResponse> =
+  paging(
+    object<SpotifySavedTrack>({
+      added_at: string,
+      track: trackSchema,
+    })
+  )
+
+export const userProfileSchema = object<SpotifyUserProfile>({
+  id: string,
+  display_name: lenient(nullable(string), null),
+  email: optional(string),
+  images,
+  followers,
+  country: optional(string),
+  product: lenient(optional(literal(['free', 'premium', 'open'])), undefined),
+  external_urls: externalUrls,
+  uri: lenient(string, ''),
+})
+
+const deviceSchema = object<SpotifyDevice>({
+  id: nullable(string),
+  is_active: lenient(boolean, false),
+  is_private_session: lenient(boolean, false),
+  is_restricted: lenient(boolean, false),
+  name: string,
+  type: lenient(string, 'Unknown'),
+  volume_percent: lenient(nullable(number), null),
+  supports_volume: lenient(boolean, false),
+})
+
+export const devicesResponseSchema = object<SpotifyDevicesResponse>({
+  devices: array(deviceSchema),
+})
+
+type Disallows = SpotifyPlaybackState['actions']['disallows']
+
+export const playbackStateSchema = object<SpotifyPlaybackState>({
+  device: deviceSchema,
+  repeat_state: lenient(literal(['off', 'track', 'context']), 'off'),
+  shuffle_state: lenient(boolean, false),
+  context: contextSchema,
+  timestamp: lenient(number, 0),
+  progress_ms: lenient(nullable(number), null),
+  is_playing: boolean,
+  // Episodes and ads don't have a track shape
+  item: lenient(nullable(trackSchema), null),
+  currently_playing_type: lenient(
+    literal(['track', 'episode', 'ad', 'unknown']),
+    'unknown'
+  ),
+  actions: lenient(
+    object<SpotifyPlaybackState['actions']>({
+      disallows: lenient(
+        object<Disallows>({
+          resuming: optional(boolean),
+          pausing: optional(boolean),
+          seeking: optional(boolean),
+          skipping_prev: optional(boolean),
+          skipping_next: optional(boolean),
+        }),
+        {}
+      ),
+    }),
+    { disallows: {} }
+  ),
+})
+
+export const playlistSchema = object<SpotifyPlaylist>({
+  id: string,
+  name: string,
+  description: lenient(nullable(string), null),
+  public: lenient(nullable(boolean), null),
+  external_urls: externalUrls,
+  uri: string,
+})
+
+export const playlistSnapshotSchema = object<SpotifyPlaylistSnapshot>({
+  snapshot_id: string,
+})
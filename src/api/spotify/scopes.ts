@@ -0,0 +1,83 @@
+/**
+ * OAuth scopes grouped by the feature that needs them
+ * The first login only asks for the base features; anything else is
+ * requested when the user first tries to use it, keeping the scopes they
+ * already granted
+ */
+
+export type SpotifyScope =
+  | 'user-top-read'
+  | 'user-read-recently-played'
+  | 'user-follow-read'
+  | 'user-library-read'
+  | 'user-read-email'
+  | 'user-read-private'
+  | 'streaming'
+  | 'user-modify-playback-state'
+  | 'user-read-playback-state'
+  | 'playlist-modify-private'
+  | 'playlist-modify-public'
+
+export type AppFeature = 'galaxy' | 'library' | 'playback' | 'playlists'
+
+export const FEATURE_SCOPES: Record<AppFeature, SpotifyScope[]> = {
+  // Listening history and the user's market
+  galaxy: ['user-top-read', 'user-read-recently-played', 'user-read-private'],
+  // Followed artists and saved tracks, for the opt-in library population
+  library: ['user-follow-read', 'user-library-read'],
+  // Web Playback SDK and remote control of other devices
+  playback: [
+    'streaming',
+    'user-read-email',
+    'user-read-private',
+    'user-modify-playback-state',
+    'user-read-playback-state',
+  ],
+  playlists: ['playlist-modify-private', 'playlist-modify-public'],
+}
+
+export const FEATURE_LABELS: Record<AppFeature, string> = {
+  galaxy: 'your listening history',
+  library: 'your followed artists and saved tracks',
+  playback: 'playback',
+  playlists: 'playlist creation',
+}
+
+// Requested on first login
+export const BASE_FEATURES: AppFeature[] = ['galaxy', 'playback']
+
+// What every login asked for before granted scopes were tracked - all a
+// token without a recorded scope can be assumed to have
+export const LEGACY_SCOPES: SpotifyScope[] = [
+  'user-top-read',
+  'user-read-recently-played',
+  'streaming',
+  'user-read-email',
+  'user-read-private',
+  'user-modify-playback-state',
+  'user-read-playback-state',
+]
+
+/**
+ * Deduplicated scopes needed by a set of features
+ */
+export function scopesForFeatures(features: AppFeature[]): SpotifyScope[] {
+  return [...new Set(features.flatMap((feature) => FEATURE_SCOPES[feature]))]
+}
+
+/**
+ * Parse the space-separated `scope` of a token response
+ */
+export function parseScope(scope: string): string[] {
+  return scope.split(' ').filter(Boolean)
+}
+
+/**
+ * Scopes a feature needs that haven't been granted
+ */
+export function missingScopes(
+  feature: AppFeature,
+  granted: readonly string[]
+): SpotifyScope[] {
+  return FEATURE_SCOPES[feature].filter((scope) => !granted.includes(scope))
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { withCrossTabLock } from './sessionSync'
+
+// localStorage contents (the setup file's mock stores nothing)
+const storage = new Map<string, string>()
+
+describe('withCrossTabLock', () => {
+  beforeEach(() => {
+    storage.clear()
+    vi.spyOn(localStorage, 'getItem').mockImplementation(
+      (key) => storage.get(key) ?? null
+    )
+    vi.spyOn(localStorage, 'setItem').mockImplementation((key, value) => {
+      storage.set(key, value)
+    })
+    vi.spyOn(localStorage, 'removeItem').mockImplementation((key) => {
+      storage.delete(key)
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it('uses the Web Locks API when available', async () => {
+    const request = vi.fn((_name: string, task: () => Promise<string>) =>
+      task()
+    )
+    vi.stubGlobal('navigator', { locks: { request } })
+
+    await expect(
+      withCrossTabLock('refresh', () => Promise.resolve('done'))
+    ).resolves.toBe('done')
+    expect(request).toHaveBeenCalledWith('refresh', expect.any(Function))
+    expect(storage.size).toBe(0)
+  })
+
+  describe('without navigator.locks', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    it('holds a localStorage lease while the task runs', async () => {
+      let leaseDuringTask: string | undefined
+      const result = withCrossTabLock('refresh', () => {
+        leaseDuringTask = storage.get('auranova-lock:refresh')
+        return Promise.resolve('done')
+      })
+
+      await vi.runAllTimersAsync()
+
+      await expect(result).resolves.toBe('done')
+      expect(leaseDuringTask).toBeDefined()
+      expect(storage.has('auranova-lock:refresh')).toBe(false)
+    })
+
+    it('runs tasks one at a time', async () => {
+      const steps: string[] = []
+      const task = (name: string) => async (): Promise<void> => {
+        steps.push(`${name} start`)
+        await new Promise((resolve) => setTimeout(resolve, 500))
+        steps.push(`${name} end`)
+      }
+
+      const first = withCrossTabLock('refresh', task('a'))
+      const second = withCrossTabLock('refresh', task('b'))
+      await vi.runAllTimersAsync()
+      await Promise.all([first, second])
+
+      expect(steps).toEqual(['a start', 'a end', 'b start', 'b end'])
+    })
+
+    it('waits for a lease held by another tab', async () => {
+      storage.set(
+        'auranova-lock:refresh',
+        JSON.stringify({ owner: 'other-tab', expiresAt: Date.now() + 1000 })
+      )
+      const task = vi.fn(() => Promise.resolve())
+
+      const result = withCrossTabLock('refresh', task)
+      await vi.advanceTimersByTimeAsync(500)
+      expect(task).not.toHaveBeenCalled()
+
+      storage.delete('auranova-lock:refresh')
+      await vi.runAllTimersAsync()
+      await result
+      expect(task).toHaveBeenCalledOnce()
+    })
+
+    it('takes over the lease of a tab that died holding it', async () => {
+      storage.set(
+        'auranova-lock:refresh',
+        JSON.stringify({ owner: 'closed-tab', expiresAt: Date.now() - 1 })
+      )
+      const task = vi.fn(() => Promise.resolve())
+
+      const result = withCrossTabLock('refresh', task)
+      await vi.advanceTimersByTimeAsync(100)
+      await result
+
+      expect(task).toHaveBeenCalledOnce()
+    })
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Cross-tab session sync
+ * Auth events (login, logout, refreshed tokens) are broadcast to every open
+ * tab, and token refreshes run under a lock shared by all tabs so two tabs
+ * never spend the same refresh token
+ */
+
+import type { AuthErrorKind } from './auth'
+
+export type AuthEventType = 'login' | 'logout' | 'tokens-updated'
+
+export interface AuthEvent {
+  type: AuthEventType
+  /** Profile the event belongs to */
+  profileId: string
+  /** Why a logout happened, when the user didn't ask for it */
+  reason?: AuthErrorKind
+}
+
+type AuthEventListener = (event: AuthEvent, isRemote: boolean) => void
+
+const CHANNEL_NAME = 'auranova-auth'
+// Fallback transport when BroadcastChannel isn't available
+const EVENT_STORAGE_KEY = 'auranova-auth-event'
+const LOCK_STORAGE_PREFIX = 'auranova-lock:'
+// A lease outlives its tab by at most this long
+const LOCK_LEASE_MS = 15000
+const LOCK_POLL_MS = 200
+// Time for a competing tab's lease write to land before we re-check
+const LOCK_SETTLE_MS = 50
+
+const TAB_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+const listeners = new Set<AuthEventListener>()
+let channel: BroadcastChannel | null = null
+let isListening = false
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function notify(event: AuthEvent, isRemote: boolean): void {
+  listeners.forEach((listener) => {
+    listener(event, isRemote)
+  })
+}
+
+function handleStorageEvent(event: StorageEvent): void {
+  if (event.key !== EVENT_STORAGE_KEY || !event.newValue) return
+  try {
+    const { type, profileId, reason } = JSON.parse(event.newValue) as AuthEvent
+    notify(reason ? { type, profileId, reason } : { type, profileId }, true)
+  } catch {
+    // Ignore malformed events
+  }
+}
+
+function startListening(): void {
+  if (isListening || typeof window === 'undefined') return
+  isListening = true
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (message: MessageEvent<AuthEvent>): void => {
+      notify(message.data, true)
+    }
+  } else {
+    window.addEventListener('storage', handleStorageEvent)
+  }
+}
+
+/**
+ * Tell this tab and every other tab about an auth change
+ */
+export function broadcastAuthEvent(event: AuthEvent): void {
+  startListening()
+  notify(event, false)
+
+  try {
+    if (channel) {
+      channel.postMessage(event)
+    } else {
+      // A unique value so identical consecutive events still fire
+      localStorage.setItem(
+        EVENT_STORAGE_KEY,
+        JSON.stringify({ ...event, sentAt: Date.now(), tabId: TAB_ID })
+      )
+    }
+  } catch {
+    // Other tabs will catch up on their next auth check
+  }
+}
+
+/**
+ * Subscribe to auth events from this tab and other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeToAuthEvents(listener: AuthEventListener): () => void {
+  startListening()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+interface LockLease {
+  owner: string
+  expiresAt: number
+}
+
+function readLease(key: string): LockLease | null {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? (JSON.parse(stored) as LockLease) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Lock fallback for browsers without the Web Locks API: a lease in
+ * localStorage that expires if its tab dies while holding it
+ */
+async function withStorageLease<T>(
+  name: string,
+  task: () => Promise<T>
+): Promise<T> {
+  const key = `${LOCK_STORAGE_PREFIX}${name}`
+
+  for (;;) {
+    const lease = readLease(key)
+    if (!lease || lease.expiresAt < Date.now()) {
+      localStorage.setItem(
+        key,
+        JSON.stringify({ owner: TAB_ID, expiresAt: Date.now() + LOCK_LEASE_MS })
+      )
+      await sleep(LOCK_SETTLE_MS)
+      if (readLease(key)?.owner === TAB_ID) break
+    }
+    await sleep(LOCK_POLL_MS)
+  }
+
+  try {
+    return await task()
+  } finally {
+    if (readLease(key)?.owner === TAB_ID) {
+      localStorage.removeItem(key)
+    }
+  }
+}
+
+/**
+ * Run a task while holding a lock shared by every tab of this origin
+ * Uses the Web Locks API where available
+ */
+export function withCrossTabLock<T>(
+  name: string,
+  task: () => Promise<T>
+): Promise<T> {
+  if (typeof navigator !== 'undefined' && 'locks' in navigator) {
+    // The lock resolves with the task's result - the DOM typings don't
+    // unwrap a callback that returns a promise
+    return navigator.locks.request(name, task) as Promise<T>
+  }
+  return withStorageLease(name, task)
+}
@@ -0,0 +1,133 @@
+/**
+ * TokenStore - Where OAuth tokens are kept for each profile
+ * localStorage survives restarts, sessionStorage lasts until the tab closes
+ * and the in-memory store forgets tokens on reload
+ */
+
+import { profileKey } from './profiles'
+
+export type TokenStorageKind = 'local' | 'session' | 'memory'
+
+export interface StoredTokens {
+  accessToken: string
+  refreshToken: string | null
+  /** Epoch ms when the access token expires */
+  expiresAt: number
+  /** Granted scopes, space-separated (null if saved before tracking) */
+  scope: string | null
+}
+
+export interface TokenStore {
+  kind: TokenStorageKind
+  load: (profileId: string) => StoredTokens | null
+  save: (profileId: string, tokens: StoredTokens) => void
+  clear: (profileId: string) => void
+}
+
+// Storage keys (namespaced per profile)
+const TOKEN_KEYS = {
+  ACCESS_TOKEN: 'spotify_access_token',
+  REFRESH_TOKEN: 'spotify_refresh_token',
+  EXPIRES_AT: 'spotify_expires_at',
+  SCOPE: 'spotify_scope',
+} as const
+
+export const TOKEN_STORAGE_LABELS: Record<TokenStorageKind, string> = {
+  local: 'Remember on this device',
+  session: 'Until the tab closes',
+  memory: 'Until reload',
+}
+
+/**
+ * Token store backed by localStorage or sessionStorage
+ * Storage access is resolved lazily so it can be swapped in tests
+ */
+function createWebStorageTokenStore(
+  kind: 'local' | 'session',
+  getStorage: () => Storage
+): TokenStore {
+  return {
+    kind,
+
+    load: (profileId): StoredTokens | null => {
+      try {
+        const storage = getStorage()
+        const accessToken = storage.getItem(
+          profileKey(TOKEN_KEYS.ACCESS_TOKEN, profileId)
+        )
+        const expiresAt = storage.getItem(
+          profileKey(TOKEN_KEYS.EXPIRES_AT, profileId)
+        )
+        if (!accessToken || !expiresAt) return null
+
+        return {
+          accessToken,
+          refreshToken: storage.getItem(
+            profileKey(TOKEN_KEYS.REFRESH_TOKEN, profileId)
+          ),
+          expiresAt: parseInt(expiresAt, 10),
+          scope: storage.getItem(profileKey(TOKEN_KEYS.SCOPE, profileId)),
+        }
+      } catch {
+        return null
+      }
+    },
+
+    save: (profileId, tokens): void => {
+      const storage = getStorage()
+      storage.setItem(
+        profileKey(TOKEN_KEYS.ACCESS_TOKEN, profileId),
+        tokens.accessToken
+      )
+      storage.setItem(
+        profileKey(TOKEN_KEYS.EXPIRES_AT, profileId),
+        tokens.expiresAt.toString()
+      )
+      if (tokens.refreshToken) {
+        storage.setItem(
+          profileKey(TOKEN_KEYS.REFRESH_TOKEN, profileId),
+          tokens.refreshToken
+        )
+      }
+      if (tokens.scope !== null) {
+        storage.setItem(profileKey(TOKEN_KEYS.SCOPE, profileId), tokens.scope)
+      }
+    },
+
+    clear: (profileId): void => {
+      try {
+        const storage = getStorage()
+        Object.values(TOKEN_KEYS).forEach((key) => {
+          storage.removeItem(profileKey(key, profileId))
+        })
+      } catch {
+        // Storage unavailable - nothing to clear
+      }
+    },
+  }
+}
+
+/**
+ * Token store that only lives as long as the page
+ */
+export function createMemoryTokenStore(): TokenStore {
+  const tokens = new Map<string, StoredTokens>()
+
+  return {
+    kind: 'memory',
+    load: (profileId): StoredTokens | null => tokens.get(profileId) ?? null,
+    save: (profileId, value): void => {
+      tokens.set(profileId, { ...value })
+    },
+    clear: (profileId): void => {
+      tokens.delete(profileId)
+    },
+  }
+}
+
+// One shared instance per kind so in-memory tokens survive profile switches
+export const tokenStores: Record<TokenStorageKind, TokenStore> = {
+  local: createWebStorageTokenStore('local', () => localStorage),
+  session: createWebStorageTokenStore('session', () => sessionStorage),
+  memory: createMemoryTokenStore(),
+}
@@ -29,6 +29,12 @@ export interface SpotifyAlbum {
   album_type: string
 }
 
+// Original track a relinked track replaces (see Track Relinking)
+export interface SpotifyLinkedTrack {
+  id: string
+  uri: string
+}
+
 export interface SpotifyTrack {
   id: string
   name: string
@@ -41,6 +47,12 @@ export interface SpotifyTrack {
     spotify: string
   }
   uri: string
+  // Only present when the request specified a market
+  is_playable?: boolean
+  linked_from?: SpotifyLinkedTrack
+  restrictions?: {
+    reason: string
+  }
 }
 
 export interface SpotifyAudioFeatures {
@@ -102,6 +114,69 @@ export interface SpotifyArtistTopTracksResponse {
   tracks: SpotifyTrack[]
 }
 
+export interface SpotifyArtistsResponse {
+  artists: (SpotifyArtist | null)[]
+}
+
+export interface SpotifyPlayHistory {
+  track: SpotifyTrack
+  played_at: string // ISO 8601 timestamp
+  context: {
+    type: string
+    href: string
+    external_urls: { spotify: string }
+    uri: string
+  } | null
+}
+
+export interface SpotifyCursors {
+  after: string | null
+  before: string | null
+}
+
+export interface SpotifyRecentlyPlayedResponse {
+  items: SpotifyPlayHistory[]
+  next: string | null
+  cursors: SpotifyCursors | null
+  limit: number
+  href: string
+}
+
+export interface SpotifyArtistSearchResponse {
+  artists: {
+    items: SpotifyArtist[]
+    total: number
+    limit: number
+    href: string
+  }
+}
+
+export interface SpotifyFollowedArtistsResponse {
+  artists: {
+    items: SpotifyArtist[]
+    next: string | null
+    cursors: { after: string | null } | null
+    total: number
+    limit: number
+    href: string
+  }
+}
+
+export interface SpotifySavedTrack {
+  added_at: string // ISO 8601 timestamp
+  track: SpotifyTrack
+}
+
+export interface SpotifySavedTracksResponse {
+  items: SpotifySavedTrack[]
+  total: number
+  limit: number
+  offset: number
+  href: string
+  next: string | null
+  previous: string | null
+}
+
 export type TimeRange = 'short_term' | 'medium_term' | 'long_term'
 
 export interface TokenResponse {
@@ -112,6 +187,12 @@ export interface TokenResponse {
   scope: string
 }
 
+// Error body from the accounts service token endpoint
+export interface TokenErrorResponse {
+  error?: string
+  error_description?: string
+}
+
 export interface SpotifyError {
   error: {
     status: number
@@ -183,3 +264,19 @@ export interface SpotifyUserProfile {
   }
   uri: string
 }
+
+// Playlists
+export interface SpotifyPlaylist {
+  id: string
+  name: string
+  description: string | null
+  public: boolean | null
+  external_urls: {
+    spotify: string
+  }
+  uri: string
+}
+
+export interface SpotifyPlaylistSnapshot {
+  snapshot_id: string
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import {
+  array,
+  lenient,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  SchemaError,
+  string,
+} from './validation'
+
+describe('primitive schemas', () => {
+  it('pass through values of the right type', () => {
+    expect(string('a', 'name')).toBe('a')
+    expect(number(3, 'count')).toBe(3)
+  })
+
+  it('reject other types with the field path', () => {
+    expect(() => string(1, 'name')).toThrow(
+      'Expected string at name, received number'
+    )
+    expect(() => number(Number.NaN, 'count')).toThrow(SchemaError)
+  })
+
+  it('name the root when there is no path', () => {
+    expect(() => number(null, '')).toThrow(
+      'Expected number at (root), received null'
+    )
+  })
+})
+
+describe('literal', () => {
+  it('accepts only the listed values', () => {
+    const mode = literal(['off', 'track'])
+    expect(mode('track', 'mode')).toBe('track')
+    expect(() => mode('context', 'mode')).toThrow(
+      'Expected off | track at mode, received "context"'
+    )
+  })
+})
+
+describe('nullable and optional', () => {
+  it('map missing values to null or undefined', () => {
+    expect(nullable(string)(undefined, 'a')).toBeNull()
+    expect(optional(string)(null, 'a')).toBeUndefined()
+    expect(() => optional(string)(1, 'a')).toThrow(SchemaError)
+  })
+})
+
+describe('lenient', () => {
+  it('falls back on a malformed value', () => {
+    expect(lenient(number, 0)('many', 'count')).toBe(0)
+  })
+
+  it('returns a fresh copy of the fallback', () => {
+    const schema = lenient(array(string), [])
+    const first = schema(undefined, 'genres')
+    first.push('rock')
+    expect(schema(undefined, 'genres')).toEqual([])
+  })
+})
+
+describe('array', () => {
+  it('reports the index of a failing item', () => {
+    expect(() => array(number)([1, 'two'], 'items')).toThrow(
+      'Expected number at items[1], received string'
+    )
+  })
+})
+
+describe('object', () => {
+  const schema = object<{ id: string; total: number; note?: string }>({
+    id: string,
+    total: number,
+    note: optional(string),
+  })
+
+  it('drops unknown fields and omits absent optional ones', () => {
+    expect(schema({ id: 'a', total: 1, extra: true }, '')).toEqual({
+      id: 'a',
+      total: 1,
+    })
+  })
+
+  it('reports nested field paths', () => {
+    const nested = object<{ items: { total: number }[] }>({
+      items: array(object<{ total: number }>({ total: number })),
+    })
+    expect(() => nested({ items: [{ total: 1 }, {}] }, '')).toThrow(
+      'Expected number at items[1].total, received undefined'
+    )
+  })
+
+  it('rejects arrays and null', () => {
+    expect(() => schema([], 'artist')).toThrow('received array')
+    expect(() => schema(null, 'artist')).toThrow('received null')
+  })
+})
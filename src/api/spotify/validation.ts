@@ -0,0 +1,140 @@
+/**
+ * Minimal runtime validation for Spotify Web API responses
+ * A schema parses unknown JSON into a typed value, throwing a SchemaError
+ * that names the failing field path (e.g. `items[3].followers.total`)
+ */
+
+export type Schema<T> = (value: unknown, path: string) => T
+
+/**
+ * Shape of an object schema, checked against the target interface
+ * Optional properties need a schema that can return undefined
+ */
+export type ObjectShape<T> = { [K in keyof Required<T>]: Schema<T[K]> }
+
+export class SchemaError extends Error {
+  path: string
+  expected: string
+  received: string
+
+  constructor(path: string, expected: string, received: string) {
+    super(`Expected ${expected} at ${path || '(root)'}, received ${received}`)
+    this.name = 'SchemaError'
+    this.path = path
+    this.expected = expected
+    this.received = received
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') {
+    throw new SchemaError(path, 'string', describe(value))
+  }
+  return value
+}
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SchemaError(path, 'number', describe(value))
+  }
+  return value
+}
+
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') {
+    throw new SchemaError(path, 'boolean', describe(value))
+  }
+  return value
+}
+
+/**
+ * One of a fixed set of string values
+ */
+export function literal<const T extends readonly string[]>(
+  values: T
+): Schema<T[number]> {
+  return (value, path) => {
+    const parsed = string(value, path)
+    if (!values.includes(parsed)) {
+      throw new SchemaError(path, values.join(' | '), JSON.stringify(parsed))
+    }
+    return parsed
+  }
+}
+
+/**
+ * Allow null (a missing field is treated as null)
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) =>
+    value === null || value === undefined ? null : schema(value, path)
+}
+
+/**
+ * Allow the field to be absent (null is treated as absent)
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) =>
+    value === null || value === undefined ? undefined : schema(value, path)
+}
+
+/**
+ * Coerce a missing or malformed value to a fallback instead of failing
+ * Used for fields the app can live without; the fallback is cloned
+ */
+export function lenient<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, path) => {
+    try {
+      return schema(value, path)
+    } catch (error) {
+      if (error instanceof SchemaError) return structuredClone(fallback)
+      throw error
+    }
+  }
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(path, 'array', describe(value))
+    }
+    return value.map((entry, index) => item(entry, `${path}[${String(index)}]`))
+  }
+}
+
+/**
+ * Object with a known set of fields
+ * Unknown fields are dropped and undefined optional fields are omitted
+ */
+export function object<T>(shape: ObjectShape<T>): Schema<T> {
+  const entries: [string, Schema<unknown>][] = Object.entries(shape)
+
+  return (value, path) => {
+    if (!isRecord(value)) {
+      throw new SchemaError(path, 'object', describe(value))
+    }
+
+    const result: Record<string, unknown> = {}
+    entries.forEach(([key, schema]) => {
+      const parsed = schema(value[key], joinPath(path, key))
+      if (parsed !== undefined) {
+        result[key] = parsed
+      }
+    })
+    return result as T
+  }
+}
@@ -79,7 +79,8 @@ class SpotifyPlayerManager {
       this.player = new SpotifySDK.Player({
         name: 'AuraNova Player',
         getOAuthToken: async (callback) => {
-          const token = await getAccessToken()
+          // Auth failures surface through the app's session handling
+          const token = await getAccessToken().catch(() => null)
           if (token) {
             callback(token)
           }
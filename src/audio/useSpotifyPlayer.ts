@@ -24,6 +24,8 @@ export function useSpotifyPlayer(): UseSpotifyPlayerResult {
   } = useSpotifySDK()
 
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  // Re-initialize the player for the new account after a profile switch
+  const activeProfileId = useAuthStore((state) => state.activeProfileId)
   const {
     sdkReady: playerReady,
     sdkLoading: playerLoading,
@@ -103,6 +105,7 @@ export function useSpotifyPlayer(): UseSpotifyPlayerResult {
   }, [
     sdkReady,
     isAuthenticated,
+    activeProfileId,
     setSdkReady,
     setSdkLoading,
     setSdkError,
@@ -2,23 +2,57 @@ import { useEffect, useMemo, useRef } from 'react'
 import { useTopArtists } from '@/api/hooks/useTopArtists'
 import { useTopTracks } from '@/api/hooks/useTopTracks'
 import { useAudioFeatures } from '@/api/hooks/useAudioFeatures'
+import { useRequestScheduler } from '@/api/hooks/useRequestScheduler'
+import { useRecentlyPlayed } from '@/api/hooks/useRecentlyPlayed'
+import { useLibraryArtists } from '@/api/hooks/useLibraryArtists'
+import { useFeatureAccess } from '@/api/hooks/useFeatureAccess'
+import { useHistoryArtists } from '@/api/hooks/useHistoryArtists'
 import { useMusicStore } from '@/stores/musicStore'
 import { useAuthStore } from '@/stores/authStore'
-import { transformToGalaxyData } from '@/simulation/dataTransform'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import { DEMO_PROVIDER_ID } from '@/api/providers'
+import { saveGalaxySnapshot } from '@/api/cache'
+import { useFeatureFlagsStore } from '@/stores/featureFlagsStore'
+import { useListeningHistoryStore } from '@/stores/listeningHistoryStore'
+import { useUIStore } from '@/stores/uiStore'
+import {
+  GalaxyTransformCancelledError,
+  transformGalaxyInWorker,
+} from '@/simulation/galaxyWorkerClient'
 import { detectEvolution } from '@/simulation/evolutionDetector'
 
 /**
- * Component that handles loading Spotify data and transforming it to galaxy data
+ * Component that handles loading music data from the active provider
+ * (live Spotify by default) and transforming it to galaxy data
  * Renders nothing - purely for side effects
  */
 export function DataLoader(): React.JSX.Element | null {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
+  const canLoad = isAuthenticated || !provider.requiresAuth
   const timeRange = useMusicStore((state) => state.timeRange)
   const previousTimeRange = useMusicStore((state) => state.previousTimeRange)
   const galaxyData = useMusicStore((state) => state.galaxyData)
   const setGalaxyData = useMusicStore((state) => state.setGalaxyData)
   const setLoading = useMusicStore((state) => state.setLoading)
   const setError = useMusicStore((state) => state.setError)
+  const setWaitingOnSpotify = useMusicStore(
+    (state) => state.setWaitingOnSpotify
+  )
+  const setDataUpdatedAt = useMusicStore((state) => state.setDataUpdatedAt)
+  const setRevealProgress = useUIStore((state) => state.setRevealProgress)
+  const showRecentOrbit = useFeatureFlagsStore((state) => state.showRecentOrbit)
+  const showLibrary = useFeatureFlagsStore((state) => state.showLibrary)
+  const sizingSignal = useFeatureFlagsStore((state) => state.sizingSignal)
+  const layoutStrategy = useFeatureFlagsStore((state) => state.layoutStrategy)
+  // Imported listening history sizes planets by real listening, and can
+  // replace the top artists as the galaxy's population
+  const listeningStats = useListeningHistoryStore((state) => state.stats)
+  const historyGalaxySource = useListeningHistoryStore(
+    (state) => state.galaxySource
+  )
+  const isHistoryGalaxy =
+    historyGalaxySource === 'history' && listeningStats !== null
 
   // Track if this is a time range change (not initial load)
   const isTimeRangeChange = useRef(false)
@@ -33,10 +67,11 @@ export function DataLoader(): React.JSX.Element | null {
     data: artists,
     isLoading: isLoadingArtists,
     error: artistsError,
+    dataUpdatedAt: artistsUpdatedAt,
   } = useTopArtists({
     timeRange,
     maxArtists: 50,
-    enabled: isAuthenticated,
+    enabled: canLoad && !isHistoryGalaxy,
   })
 
   // Fetch top tracks
@@ -44,10 +79,11 @@ export function DataLoader(): React.JSX.Element | null {
     data: tracks,
     isLoading: isLoadingTracks,
     error: tracksError,
+    dataUpdatedAt: tracksUpdatedAt,
   } = useTopTracks({
     timeRange,
     maxTracks: 50,
-    enabled: isAuthenticated,
+    enabled: canLoad && !isHistoryGalaxy,
   })
 
   // Extract track IDs for audio features query
@@ -62,27 +98,79 @@ export function DataLoader(): React.JSX.Element | null {
     error: audioFeaturesError,
   } = useAudioFeatures({
     trackIds,
-    enabled: isAuthenticated && trackIds.length > 0,
+    enabled: canLoad && trackIds.length > 0,
   })
 
+  // Resolve the history's most played artists in its date window
+  const {
+    data: historyArtists,
+    isLoading: isLoadingHistoryArtists,
+    error: historyArtistsError,
+  } = useHistoryArtists({
+    stats: listeningStats,
+    enabled: canLoad && isHistoryGalaxy,
+  })
+
+  // Fetch recently played (optional layer - never blocks the galaxy)
+  const { data: recentlyPlayed } = useRecentlyPlayed({
+    enabled: canLoad && showRecentOrbit,
+  })
+  const recent = showRecentOrbit ? recentlyPlayed : undefined
+
+  // Fetch followed/saved artists (optional population - never blocks either)
+  // once Spotify granted access to them
+  const { hasAccess: hasLibraryAccess } = useFeatureAccess('library')
+  const { data: libraryArtists } = useLibraryArtists({
+    enabled:
+      canLoad && showLibrary && (hasLibraryAccess || !provider.requiresAuth),
+  })
+  const library = showLibrary ? libraryArtists : undefined
+
   // Combined loading state
   const isLoading =
-    isLoadingArtists || isLoadingTracks || isLoadingAudioFeatures
+    isLoadingArtists ||
+    isLoadingTracks ||
+    isLoadingAudioFeatures ||
+    isLoadingHistoryArtists
 
   // Update loading state
   useEffect(() => {
     setLoading(isLoading)
   }, [isLoading, setLoading])
 
+  // Surface rate-limit backoff so the UI can show "waiting on Spotify"
+  const { isBackingOff } = useRequestScheduler()
+  useEffect(() => {
+    setWaitingOnSpotify(isBackingOff)
+  }, [isBackingOff, setWaitingOnSpotify])
+
   // Handle errors (prioritize artist errors as they're most critical)
   useEffect(() => {
-    const error = artistsError ?? tracksError ?? audioFeaturesError
+    const error =
+      artistsError ?? tracksError ?? audioFeaturesError ?? historyArtistsError
     if (error) {
       setError(error.message)
     } else {
       setError(null)
     }
-  }, [artistsError, tracksError, audioFeaturesError, setError])
+  }, [
+    artistsError,
+    tracksError,
+    audioFeaturesError,
+    historyArtistsError,
+    setError,
+  ])
+
+  // Track when the data behind the galaxy was fetched (older of the two)
+  const dataUpdatedAtRef = useRef(0)
+  useEffect(() => {
+    if (artistsUpdatedAt === 0) return
+    dataUpdatedAtRef.current =
+      tracksUpdatedAt > 0
+        ? Math.min(artistsUpdatedAt, tracksUpdatedAt)
+        : artistsUpdatedAt
+    setDataUpdatedAt(dataUpdatedAtRef.current)
+  }, [artistsUpdatedAt, tracksUpdatedAt, setDataUpdatedAt])
 
   // Store previous galaxy data for evolution detection
   const previousGalaxyDataRef = useRef(galaxyData)
@@ -92,15 +180,43 @@ export function DataLoader(): React.JSX.Element | null {
   }, [timeRange]) // Only update when time range changes
 
   // Transform and store data when all data is loaded
+  // The pipeline runs in a worker; newer inputs (e.g. a time range switch)
+  // cancel a transform that is still in flight
   useEffect(() => {
-    if (artists && artists.length > 0) {
-      try {
-        // Transform with audio features and D3 force simulation
-        let newGalaxyData = transformToGalaxyData(artists, {
-          tracks: tracks ?? [],
-          audioFeatures: audioFeatures ?? [],
-          timeRange, // For position caching
-        })
+    // A history galaxy is built from the window's most played artists; top
+    // tracks describe today's listening, so they don't feed it
+    const population = isHistoryGalaxy ? historyArtists?.artists : artists
+    if (!population || population.length === 0) return undefined
+
+    const controller = new AbortController()
+    // Until the first galaxy is revealed, revealProgress shows the build
+    const isFirstBuild = (): boolean =>
+      useUIStore.getState().galaxyPhase === 'loading'
+
+    // Transform with audio features and the selected layout
+    transformGalaxyInWorker(
+      population,
+      {
+        tracks: isHistoryGalaxy ? [] : (tracks ?? []),
+        audioFeatures: isHistoryGalaxy ? [] : (audioFeatures ?? []),
+        timeRange, // For position caching
+        followedArtists: library?.followed ?? [],
+        libraryArtists: library?.library ?? [],
+        recentPlays: recent?.summaries ?? [],
+        recentArtists: recent?.artists ?? [],
+        listeningStats,
+        sizingSignal,
+        layoutStrategy,
+      },
+      {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (isFirstBuild()) setRevealProgress(progress)
+        },
+      }
+    )
+      .then((transformed) => {
+        let newGalaxyData = transformed
 
         // Detect evolution only if this is a time range change
         if (isTimeRangeChange.current && previousGalaxyDataRef.current) {
@@ -108,13 +224,47 @@ export function DataLoader(): React.JSX.Element | null {
           isTimeRangeChange.current = false // Reset flag
         }
 
+        // The reveal animation runs its own progress from zero
+        if (isFirstBuild()) setRevealProgress(0)
         setGalaxyData(newGalaxyData)
-      } catch (error) {
+
+        // Snapshot the galaxy so the next visit can render it instantly
+        if (provider.id !== DEMO_PROVIDER_ID && dataUpdatedAtRef.current > 0) {
+          void saveGalaxySnapshot({
+            galaxyData: newGalaxyData,
+            timeRange,
+            providerId: provider.id,
+            dataUpdatedAt: dataUpdatedAtRef.current,
+            savedAt: Date.now(),
+          })
+        }
+      })
+      .catch((error: unknown) => {
+        if (error instanceof GalaxyTransformCancelledError) return
         console.error('Failed to transform galaxy data:', error)
         setError(error instanceof Error ? error.message : 'Failed to process music data')
-      }
+      })
+
+    return (): void => {
+      controller.abort()
     }
-  }, [artists, tracks, audioFeatures, timeRange, setGalaxyData, setError])
+  }, [
+    artists,
+    tracks,
+    audioFeatures,
+    recent,
+    library,
+    listeningStats,
+    isHistoryGalaxy,
+    historyArtists,
+    sizingSignal,
+    layoutStrategy,
+    timeRange,
+    provider.id,
+    setGalaxyData,
+    setError,
+    setRevealProgress,
+  ])
 
   // This component renders nothing
   return null
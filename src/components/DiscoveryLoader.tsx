@@ -0,0 +1,75 @@
+import { useEffect, useMemo } from 'react'
+import { useRelatedArtists } from '@/api/hooks/useRelatedArtists'
+import { useMusicStore } from '@/stores/musicStore'
+import { useUIStore } from '@/stores/uiStore'
+import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import { useFeatureFlagsStore } from '@/stores/featureFlagsStore'
+import {
+  buildDiscoveryHalo,
+  DISCOVERY_GALAXY_SOURCES,
+} from '@/simulation/discoveryHalo'
+
+/**
+ * Component that builds the opt-in discovery halo: related artists placed
+ * as satellites around their source planet
+ * Renders nothing - purely for side effects
+ */
+export function DiscoveryLoader(): React.JSX.Element | null {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const provider = useDataSourceStore((state) => state.provider)
+  const canLoad = isAuthenticated || !provider.requiresAuth
+  const showDiscoveryHalo = useFeatureFlagsStore(
+    (state) => state.showDiscoveryHalo
+  )
+  const discoveryScope = useFeatureFlagsStore((state) => state.discoveryScope)
+  const galaxyData = useMusicStore((state) => state.galaxyData)
+  const setDiscoveryArtists = useMusicStore(
+    (state) => state.setDiscoveryArtists
+  )
+  const selectedArtistId = useUIStore((state) => state.selection.artistId)
+
+  // Selecting a satellite keeps the halo of its source planet
+  const selectedSatelliteSource = useMusicStore(
+    (state) =>
+      state.discoveryArtists.find((a) => a.id === selectedArtistId)
+        ?.discoveredFrom
+  )
+
+  // Source planets: the selection, or the leading top artists
+  const sourceIds = useMemo(() => {
+    if (!showDiscoveryHalo || !galaxyData) return []
+
+    if (discoveryScope === 'galaxy') {
+      return galaxyData.artists
+        .filter((a) => !a.isRecentOrbit && (a.source ?? 'top') === 'top')
+        .slice(0, DISCOVERY_GALAXY_SOURCES)
+        .map((a) => a.id)
+    }
+
+    const sourceId = selectedSatelliteSource ?? selectedArtistId
+    return sourceId ? [sourceId] : []
+  }, [
+    showDiscoveryHalo,
+    galaxyData,
+    discoveryScope,
+    selectedSatelliteSource,
+    selectedArtistId,
+  ])
+
+  const { data: relatedBySource } = useRelatedArtists({
+    artistIds: sourceIds,
+    enabled: canLoad && sourceIds.length > 0,
+  })
+
+  useEffect(() => {
+    if (!galaxyData || sourceIds.length === 0 || !relatedBySource) {
+      setDiscoveryArtists([])
+      return
+    }
+    setDiscoveryArtists(buildDiscoveryHalo(galaxyData.artists, relatedBySource))
+  }, [galaxyData, sourceIds, relatedBySource, setDiscoveryArtists])
+
+  // This component renders nothing
+  return null
+}
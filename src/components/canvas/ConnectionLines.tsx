@@ -3,6 +3,7 @@ import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
 import { useMusicStore } from '@/stores/musicStore'
 import { useUIStore } from '@/stores/uiStore'
+import { getArtistConnections } from '@/simulation/playlistBuilder'
 
 // Import shaders
 import connectionVertexShader from '@/shaders/connection.vert?raw'
@@ -100,9 +101,7 @@ export function ConnectionLines(): React.JSX.Element | null {
 
     // If an artist is selected, only show their connections
     if (selectedArtistId) {
-      return galaxyData.connections.filter(
-        (c) => c.source === selectedArtistId || c.target === selectedArtistId
-      )
+      return getArtistConnections(galaxyData.connections, selectedArtistId)
     }
 
     // Show top connections (by strength) to avoid visual clutter
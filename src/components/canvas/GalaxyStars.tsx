@@ -6,6 +6,7 @@ import * as THREE from 'three'
 import { useMusicStore } from '@/stores/musicStore'
 import { useUIStore } from '@/stores/uiStore'
 import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
 import { useAudioAnalyzer } from '@/audio'
 import { useReducedMotion } from '@/hooks'
 import type { GalaxyArtist, EvolutionStatus } from '@/types/domain'
@@ -339,8 +340,10 @@ export function GalaxyStars(): React.JSX.Element | null {
 
   // Store state
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const isDemoMode = useDataSourceStore((state) => state.isDemoMode)
   const galaxyData = useMusicStore((state) => state.galaxyData)
   const isLoadingMusic = useMusicStore((state) => state.isLoading)
+  const isRestoredGalaxy = useMusicStore((state) => state.isRestoredGalaxy)
   const artists = galaxyData?.artists ?? []
 
   const hoveredArtistId = useUIStore((state) => state.hoveredArtistId)
@@ -382,16 +385,17 @@ export function GalaxyStars(): React.JSX.Element | null {
 
   // Update phase based on auth and data state
   useEffect(() => {
-    if (!isAuthenticated) {
+    if (!isAuthenticated && !isDemoMode) {
       setPhase('skeleton')
       setRevealProgress(0)
       revealStartTimeRef.current = null
-    } else if (isLoadingMusic) {
+    } else if (isLoadingMusic && !isRestoredGalaxy) {
       setPhase('loading')
     } else if (artists.length > 0) {
       if (phase === 'loading' || phase === 'skeleton') {
-        // Users who prefer reduced motion skip animation entirely
-        if (prefersReducedMotion) {
+        // Users who prefer reduced motion skip animation entirely, and a
+        // restored galaxy is shown instantly while it revalidates
+        if (prefersReducedMotion || isRestoredGalaxy) {
           setPhase('active')
           setRevealProgress(1)
           artistDataRef.current = prepareArtistData(artists)
@@ -415,7 +419,7 @@ export function GalaxyStars(): React.JSX.Element | null {
         }
       }
     }
-  }, [isAuthenticated, isLoadingMusic, artists.length, phase, revealProgress, prefersReducedMotion, setPhase, setRevealProgress])
+  }, [isAuthenticated, isDemoMode, isLoadingMusic, isRestoredGalaxy, artists.length, phase, revealProgress, prefersReducedMotion, setPhase, setRevealProgress])
 
   // Handle skip reveal trigger (from keyboard/touch input)
   useEffect(() => {
@@ -71,10 +71,11 @@ function NebulaMesh({ genre }: NebulaMeshProps): React.JSX.Element {
 export function GenreNebulae(): React.JSX.Element | null {
   const galaxyData = useMusicStore((state) => state.galaxyData)
 
-  // Filter to genres with enough artists to warrant a cloud
+  // Filter to genres with enough artists to warrant a cloud (families span
+  // whole arms, their genres get the clouds)
   const visibleGenres = useMemo(() => {
     if (!galaxyData) return []
-    return galaxyData.genres.filter((g) => g.artistCount >= 2)
+    return galaxyData.genres.filter((g) => g.artistCount >= 2 && !g.childIds)
   }, [galaxyData])
 
   if (visibleGenres.length === 0) return null
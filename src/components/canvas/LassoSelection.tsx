@@ -0,0 +1,43 @@
+import { useEffect } from 'react'
+import { useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import { useMusicStore } from '@/stores/musicStore'
+import { usePlaylistStore } from '@/stores/playlistStore'
+import { isPointInPolygon } from '@/simulation/playlistBuilder'
+
+/**
+ * Resolves a finished lasso (drawn by LassoOverlay) to the artists whose
+ * planets fall inside it from the current camera, and opens the playlist
+ * builder with them
+ */
+export function LassoSelection(): null {
+  const camera = useThree((state) => state.camera)
+  const galaxyData = useMusicStore((state) => state.galaxyData)
+  const lassoPath = usePlaylistStore((state) => state.lassoPath)
+  const openPlaylistBuilder = usePlaylistStore(
+    (state) => state.openPlaylistBuilder
+  )
+  const cancelLasso = usePlaylistStore((state) => state.cancelLasso)
+
+  useEffect(() => {
+    if (!lassoPath) return
+
+    const projected = new THREE.Vector3()
+    const artistIds = (galaxyData?.artists ?? [])
+      .filter((artist) => {
+        projected.set(...artist.position).project(camera)
+        // Outside the view frustum's depth range (e.g. behind the camera)
+        if (projected.z < -1 || projected.z > 1) return false
+        return isPointInPolygon([projected.x, projected.y], lassoPath)
+      })
+      .map((artist) => artist.id)
+
+    if (artistIds.length > 0) {
+      openPlaylistBuilder({ kind: 'lasso', artistIds })
+    } else {
+      cancelLasso()
+    }
+  }, [lassoPath, galaxyData, camera, openPlaylistBuilder, cancelLasso])
+
+  return null
+}
@@ -0,0 +1,104 @@
+import { useMemo } from 'react'
+import { Html } from '@react-three/drei'
+import * as THREE from 'three'
+import { useMusicStore } from '@/stores/musicStore'
+import {
+  isUnchartedPosition,
+  MOOD_AXES,
+  UNCHARTED_RING_OFFSET,
+} from '@/simulation/moodLayout'
+
+// Axis lines reach a little past the outermost planets
+const AXIS_OVERSHOOT = 1.1
+
+/**
+ * Label at one end of a mood axis
+ */
+function AxisLabel({
+  position,
+  text,
+}: {
+  position: [number, number, number]
+  text: string
+}): React.JSX.Element {
+  return (
+    <Html
+      position={position}
+      center
+      zIndexRange={[5, 0]}
+      style={{ pointerEvents: 'none' }}
+    >
+      <div className="px-2 py-0.5 rounded-full bg-black/60 border border-white/20 text-[10px] uppercase tracking-wider text-gray-300 whitespace-nowrap select-none">
+        {text}
+      </div>
+    </Html>
+  )
+}
+
+/**
+ * Labeled axis guides for the mood layout (valence, energy, acousticness)
+ * Also marks the ring of artists without any mood data
+ */
+export function MoodAxes(): React.JSX.Element | null {
+  const galaxyData = useMusicStore((state) => state.galaxyData)
+  const layout = galaxyData?.layout
+  const radius = layout?.radius ?? 0
+  const extent = radius * AXIS_OVERSHOOT
+
+  const geometry = useMemo(() => {
+    const positions = new Float32Array(MOOD_AXES.length * 2 * 3)
+    MOOD_AXES.forEach(({ axis }, i) => {
+      positions[i * 6 + axis] = -extent
+      positions[i * 6 + 3 + axis] = extent
+    })
+    const geo = new THREE.BufferGeometry()
+    geo.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+    return geo
+  }, [extent])
+
+  const unchartedCount = useMemo(
+    () =>
+      galaxyData?.artists.filter((artist) =>
+        isUnchartedPosition(artist.position, radius)
+      ).length ?? 0,
+    [galaxyData, radius]
+  )
+
+  if (layout?.strategy !== 'mood') return null
+
+  const endpoint = (
+    axis: 0 | 1 | 2,
+    sign: 1 | -1
+  ): [number, number, number] => {
+    const position: [number, number, number] = [0, 0, 0]
+    position[axis] = sign * (extent + 2)
+    return position
+  }
+
+  return (
+    <group>
+      <lineSegments geometry={geometry}>
+        <lineBasicMaterial
+          color="#c4b5fd"
+          transparent
+          opacity={0.25}
+          depthWrite={false}
+        />
+      </lineSegments>
+
+      {MOOD_AXES.map(({ metric, axis, low, high }) => (
+        <group key={metric}>
+          <AxisLabel position={endpoint(axis, -1)} text={low} />
+          <AxisLabel position={endpoint(axis, 1)} text={high} />
+        </group>
+      ))}
+
+      {unchartedCount > 0 && (
+        <AxisLabel
+          position={[0, -radius - UNCHARTED_RING_OFFSET - 2, 0]}
+          text={`No mood data · ${String(unchartedCount)}`}
+        />
+      )}
+    </group>
+  )
+}
@@ -6,8 +6,9 @@ import * as THREE from 'three'
 import { useMusicStore } from '@/stores/musicStore'
 import { useUIStore } from '@/stores/uiStore'
 import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
 import { useReducedMotion } from '@/hooks'
-import type { GalaxyArtist } from '@/types/domain'
+import type { GalaxyArtist, ArtistSource } from '@/types/domain'
 
 // Import shaders
 import planetVertexShader from '@/shaders/planet.vert?raw'
@@ -16,6 +17,22 @@ import planetFragmentShader from '@/shaders/planet.frag?raw'
 const SPAWN_DURATION = 3.0
 const REVEAL_DURATION = 2.5
 const QUICK_REVEAL_DURATION = 0.4
+// Planets glide to new positions when the layout or artist set changes
+const LAYOUT_TRANSITION_DURATION = 1.5
+// Recently played (non-top) artists render dimmer than the main galaxy
+const RECENT_ORBIT_ACTIVATION = 0.55
+// Followed/library artists render smaller and paler than top artists
+const SOURCE_STYLES: Record<
+  ArtistSource,
+  { activation: number; saturation: number; sizeScale: number }
+> = {
+  top: { activation: 1, saturation: 1, sizeScale: 1 },
+  followed: { activation: 0.8, saturation: 0.65, sizeScale: 0.85 },
+  library: { activation: 0.7, saturation: 0.45, sizeScale: 0.75 },
+}
+// Discovery halo satellites are the faintest bodies in the scene
+const DISCOVERY_ACTIVATION = 0.4
+const DISCOVERY_SATURATION = 0.5
 const SKELETON_STAR_COUNT = 50
 const RETURN_VISITOR_KEY = 'auranova-has-seen-reveal'
 const SPHERE_SEGMENTS = 24 // Balance between quality and performance
@@ -79,6 +96,21 @@ function hexToRgb(hex: string): [number, number, number] {
   return [color.r, color.g, color.b]
 }
 
+/**
+ * Blend a color towards its grey value (saturation 1 = unchanged)
+ */
+function desaturate(
+  rgb: [number, number, number],
+  saturation: number
+): [number, number, number] {
+  const grey = rgb[0] * 0.299 + rgb[1] * 0.587 + rgb[2] * 0.114
+  return [
+    grey + (rgb[0] - grey) * saturation,
+    grey + (rgb[1] - grey) * saturation,
+    grey + (rgb[2] - grey) * saturation,
+  ]
+}
+
 /**
  * Generate a seed from artist ID
  */
@@ -109,14 +141,22 @@ function prepareArtistData(artists: GalaxyArtist[]): PlanetData {
     positions[i * 3 + 1] = artist.position[1]
     positions[i * 3 + 2] = artist.position[2]
 
-    const rgb = hexToRgb(artist.color)
+    const style = SOURCE_STYLES[artist.source ?? 'top']
+    const saturation = artist.discoveredFrom
+      ? DISCOVERY_SATURATION
+      : style.saturation
+    const rgb = desaturate(hexToRgb(artist.color), saturation)
     colors[i * 3] = rgb[0]
     colors[i * 3 + 1] = rgb[1]
     colors[i * 3 + 2] = rgb[2]
 
-    sizes[i] = artist.size
+    sizes[i] = artist.size * style.sizeScale
     seeds[i] = artistIdToSeed(artist.id)
-    activations[i] = 1
+    activations[i] = artist.discoveredFrom
+      ? DISCOVERY_ACTIVATION
+      : artist.isRecentOrbit
+        ? RECENT_ORBIT_ACTIVATION
+        : style.activation
     spawnProgress[i] = 1
   })
 
@@ -214,6 +254,37 @@ function easeOutCubic(t: number): number {
   return 1 - Math.pow(1 - t, 3)
 }
 
+/**
+ * Ease in-out cubic for layout transitions
+ */
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+}
+
+/**
+ * Start positions for a layout transition: where each planet is drawn now,
+ * or its new position for planets that weren't in the galaxy before
+ */
+function getTransitionStart(
+  artists: GalaxyArtist[],
+  next: PlanetData,
+  previousIds: string[],
+  displayedPositions: Float32Array
+): Float32Array {
+  const previousIndex = new Map(previousIds.map((id, i) => [id, i]))
+  const start = new Float32Array(next.positions)
+
+  artists.forEach((artist, i) => {
+    const j = previousIndex.get(artist.id)
+    if (j === undefined || j * 3 + 2 >= displayedPositions.length) return
+    start[i * 3] = displayedPositions[j * 3]
+    start[i * 3 + 1] = displayedPositions[j * 3 + 1]
+    start[i * 3 + 2] = displayedPositions[j * 3 + 2]
+  })
+
+  return start
+}
+
 /**
  * Get initials from artist name (1-2 characters)
  */
@@ -287,9 +358,16 @@ export function PlanetStars(): React.JSX.Element | null {
 
   // Store state
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const isDemoMode = useDataSourceStore((state) => state.isDemoMode)
   const galaxyData = useMusicStore((state) => state.galaxyData)
   const isLoadingMusic = useMusicStore((state) => state.isLoading)
-  const artists = galaxyData?.artists ?? []
+  const isRestoredGalaxy = useMusicStore((state) => state.isRestoredGalaxy)
+  const discoveryArtists = useMusicStore((state) => state.discoveryArtists)
+  // Discovery halo satellites render alongside the galaxy's own planets
+  const artists = useMemo(
+    () => [...(galaxyData?.artists ?? []), ...discoveryArtists],
+    [galaxyData, discoveryArtists]
+  )
 
   const hoveredArtistId = useUIStore((state) => state.hoveredArtistId)
   const setHoveredArtist = useUIStore((state) => state.setHoveredArtist)
@@ -311,6 +389,11 @@ export function PlanetStars(): React.JSX.Element | null {
   const artistDataRef = useRef<PlanetData | null>(null)
   const currentPositionsRef = useRef<Float32Array | null>(null)
   const currentSizesRef = useRef<Float32Array | null>(null)
+  // Layout transition: positions planets glide from, and the artist order
+  // the displayed positions belong to
+  const transitionFromRef = useRef<Float32Array | null>(null)
+  const transitionStartTimeRef = useRef<number | null>(null)
+  const displayedArtistIdsRef = useRef<string[]>([])
 
   // Check return visitor
   useEffect(() => {
@@ -328,15 +411,16 @@ export function PlanetStars(): React.JSX.Element | null {
 
   // Phase management
   useEffect(() => {
-    if (!isAuthenticated) {
+    if (!isAuthenticated && !isDemoMode) {
       setPhase('skeleton')
       setRevealProgress(0)
       revealStartTimeRef.current = null
-    } else if (isLoadingMusic) {
+    } else if (isLoadingMusic && !isRestoredGalaxy) {
       setPhase('loading')
     } else if (artists.length > 0) {
       if (phase === 'loading' || phase === 'skeleton') {
-        if (prefersReducedMotion) {
+        // A restored galaxy is shown instantly while it revalidates
+        if (prefersReducedMotion || isRestoredGalaxy) {
           setPhase('active')
           setRevealProgress(1)
           artistDataRef.current = prepareArtistData(artists)
@@ -353,14 +437,26 @@ export function PlanetStars(): React.JSX.Element | null {
         } catch {}
       }
     }
-  }, [isAuthenticated, isLoadingMusic, artists.length, phase, revealProgress, prefersReducedMotion, setPhase, setRevealProgress])
+  }, [isAuthenticated, isDemoMode, isLoadingMusic, isRestoredGalaxy, artists.length, phase, revealProgress, prefersReducedMotion, setPhase, setRevealProgress])
 
-  // Update artist data when it changes
+  // Update artist data when it changes, gliding planets that moved
   useEffect(() => {
     if (artists.length > 0 && phase === 'active') {
-      artistDataRef.current = prepareArtistData(artists)
+      const next = prepareArtistData(artists)
+      const displayed = currentPositionsRef.current
+      if (artistDataRef.current && displayed && !prefersReducedMotion) {
+        transitionFromRef.current = getTransitionStart(
+          artists,
+          next,
+          displayedArtistIdsRef.current,
+          displayed
+        )
+        transitionStartTimeRef.current = null
+      }
+      artistDataRef.current = next
+      displayedArtistIdsRef.current = artists.map((a) => a.id)
     }
-  }, [artists, phase])
+  }, [artists, phase, prefersReducedMotion])
 
   // Calculate max count
   const maxCount = useMemo(() => {
@@ -478,6 +574,22 @@ export function PlanetStars(): React.JSX.Element | null {
     const artist = artistDataRef.current
     const easedProgress = easeOutCubic(revealProgress)
 
+    // Layout transition progress (1 = settled)
+    let transitionFrom = transitionFromRef.current
+    let transitionProgress = 1
+    if (phase === 'active' && transitionFrom) {
+      transitionStartTimeRef.current ??= state.clock.elapsedTime
+      const transitionElapsed =
+        state.clock.elapsedTime - transitionStartTimeRef.current
+      transitionProgress = easeInOutCubic(
+        Math.min(transitionElapsed / LAYOUT_TRANSITION_DURATION, 1)
+      )
+      if (transitionElapsed >= LAYOUT_TRANSITION_DURATION) {
+        transitionFromRef.current = null
+        transitionFrom = null
+      }
+    }
+
     const dummy = new THREE.Object3D()
     const artistCount = artist?.positions.length ? artist.positions.length / 3 : 0
     const skeletonCount = skeleton?.positions.length ? skeleton.positions.length / 3 : 0
@@ -506,7 +618,7 @@ export function PlanetStars(): React.JSX.Element | null {
           b = skeleton.colors[i * 3 + 2] + (artist.colors[i * 3 + 2] - skeleton.colors[i * 3 + 2]) * easedProgress
           size = skeleton.sizes[i] + (artist.sizes[i] - skeleton.sizes[i]) * easedProgress
           seed = artist.seeds[i]
-          activation = easedProgress
+          activation = easedProgress * artist.activations[i]
         } else if (hasArtist) {
           x = artist.positions[i * 3] * easedProgress
           y = artist.positions[i * 3 + 1] * easedProgress
@@ -516,7 +628,7 @@ export function PlanetStars(): React.JSX.Element | null {
           b = artist.colors[i * 3 + 2]
           size = artist.sizes[i] * easedProgress
           seed = artist.seeds[i]
-          activation = easedProgress
+          activation = easedProgress * artist.activations[i]
         } else if (hasSkeleton) {
           x = skeleton.positions[i * 3]
           y = skeleton.positions[i * 3 + 1]
@@ -532,12 +644,23 @@ export function PlanetStars(): React.JSX.Element | null {
         x = artist.positions[i * 3]
         y = artist.positions[i * 3 + 1]
         z = artist.positions[i * 3 + 2]
+        if (transitionFrom) {
+          x =
+            transitionFrom[i * 3] +
+            (x - transitionFrom[i * 3]) * transitionProgress
+          y =
+            transitionFrom[i * 3 + 1] +
+            (y - transitionFrom[i * 3 + 1]) * transitionProgress
+          z =
+            transitionFrom[i * 3 + 2] +
+            (z - transitionFrom[i * 3 + 2]) * transitionProgress
+        }
         r = artist.colors[i * 3]
         g = artist.colors[i * 3 + 1]
         b = artist.colors[i * 3 + 2]
         size = artist.sizes[i]
         seed = artist.seeds[i]
-        activation = 1
+        activation = artist.activations[i]
       } else if (skeleton && i < skeletonCount) {
         x = skeleton.positions[i * 3]
         y = skeleton.positions[i * 3 + 1]
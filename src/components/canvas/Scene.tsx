@@ -13,6 +13,8 @@ import { GenreNebulae } from './GenreNebulae'
 import { PersistentLabels } from './PersistentLabels'
 import { Effects } from './Effects'
 import { TouchControls } from './TouchControls'
+import { LassoSelection } from './LassoSelection'
+import { MoodAxes } from './MoodAxes'
 
 // Profile image sphere component (separate to handle texture loading)
 function ProfileSphere({ imageUrl }: { imageUrl: string }): React.JSX.Element {
@@ -217,6 +219,12 @@ export function Scene(): React.JSX.Element {
       {/* Connection lines between related artists */}
       {hasArtists && <ConnectionLines />}
 
+      {/* Axis guides when the galaxy is laid out by mood */}
+      {hasArtists && <MoodAxes />}
+
+      {/* Resolves a drawn lasso to the artists inside it */}
+      {hasArtists && <LassoSelection />}
+
       {/* Central reference point */}
       <CentralOrb />
 
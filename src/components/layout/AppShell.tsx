@@ -1,8 +1,15 @@
 import type { ReactNode } from 'react'
 import { useAuthStore } from '@/stores/authStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import { useMusicStore } from '@/stores/musicStore'
+import { useUIStore } from '@/stores/uiStore'
+import { useListeningHistoryStore } from '@/stores/listeningHistoryStore'
+import { describeHistoryWindow } from '@/simulation/listeningHistory'
 import { AudioIndicator } from '@/components/ui/AudioIndicator'
 import { ArtistSearch } from '@/components/ui/ArtistSearch'
 import { TimeRangeToggle } from '@/components/ui/TimeRangeToggle'
+import { DataFreshnessIndicator } from '@/components/ui/DataFreshnessIndicator'
+import { ProfileSwitcher } from '@/components/ui/ProfileSwitcher'
 
 interface AppShellProps {
   children: ReactNode
@@ -10,6 +17,21 @@ interface AppShellProps {
 
 export function AppShell({ children }: AppShellProps): React.JSX.Element {
   const { isAuthenticated, logout } = useAuthStore()
+  const isDemoMode = useDataSourceStore((state) => state.isDemoMode)
+  const exitDemoMode = useDataSourceStore((state) => state.exitDemoMode)
+  const resetMusic = useMusicStore((state) => state.reset)
+  const resetSelection = useUIStore((state) => state.resetSelection)
+  const hasGalaxy = isAuthenticated || isDemoMode
+  // A galaxy built from imported history follows its date window instead
+  const historyWindow = useListeningHistoryStore((state) =>
+    state.galaxySource === 'history' && state.stats ? state.window : null
+  )
+
+  const handleExitDemo = (): void => {
+    exitDemoMode()
+    resetSelection()
+    resetMusic()
+  }
 
   return (
     <div className="relative w-full h-screen overflow-hidden bg-black">
@@ -22,27 +44,42 @@ export function AppShell({ children }: AppShellProps): React.JSX.Element {
           <h1 className="text-xl sm:text-2xl font-bold text-white tracking-wider">
             <span className="text-purple-400">Aura</span>nova
           </h1>
-          <p className="text-[10px] sm:text-xs text-gray-400">Your Musical Universe</p>
+          <p className="text-[10px] sm:text-xs text-gray-400">
+            Your Musical Universe
+          </p>
         </div>
 
-        {isAuthenticated && (
+        {hasGalaxy && (
           <div className="flex items-center gap-2 sm:gap-4 pointer-events-auto">
-            <TimeRangeToggle />
+            {isDemoMode && (
+              <span className="px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium bg-purple-500/20 text-purple-300 border border-purple-500/30">
+                Demo
+              </span>
+            )}
+            {!isDemoMode && <DataFreshnessIndicator />}
+            {historyWindow ? (
+              <span className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white/5 text-gray-300 border border-white/10">
+                History · {describeHistoryWindow(historyWindow)}
+              </span>
+            ) : (
+              <TimeRangeToggle />
+            )}
+            {!isDemoMode && <ProfileSwitcher />}
             <button
-              onClick={logout}
+              onClick={isDemoMode ? handleExitDemo : logout}
               className="px-2 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm text-gray-300 hover:text-white transition-colors"
             >
-              Logout
+              {isDemoMode ? 'Exit demo' : 'Logout'}
             </button>
           </div>
         )}
       </header>
 
       {/* Global audio indicator */}
-      {isAuthenticated && <AudioIndicator />}
+      {hasGalaxy && <AudioIndicator />}
 
       {/* Artist search */}
-      {isAuthenticated && <ArtistSearch />}
+      {hasGalaxy && <ArtistSearch />}
 
       {/* Controls hint - hidden on mobile (TouchHints handles mobile) */}
       <div className="hidden sm:block absolute bottom-4 left-4 text-xs text-gray-500 pointer-events-none">
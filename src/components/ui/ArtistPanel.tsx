@@ -1,5 +1,7 @@
+import { useEffect, useState } from 'react'
 import { useMusicStore } from '@/stores/musicStore'
 import { useUIStore } from '@/stores/uiStore'
+import { usePlaylistStore } from '@/stores/playlistStore'
 import { useArtistTopTracks } from '@/api/hooks'
 import { AudioPreviewPlayer } from './AudioPreviewPlayer'
 
@@ -8,9 +10,25 @@ import { AudioPreviewPlayer } from './AudioPreviewPlayer'
  */
 export function ArtistPanel(): React.JSX.Element | null {
   const galaxyData = useMusicStore((state) => state.galaxyData)
+  const discoveryArtists = useMusicStore((state) => state.discoveryArtists)
   const selectedArtistId = useUIStore((state) => state.selection.artistId)
   const showPanel = useUIStore((state) => state.showArtistPanel)
   const selectArtist = useUIStore((state) => state.selectArtist)
+  const openPlaylistBuilder = usePlaylistStore(
+    (state) => state.openPlaylistBuilder
+  )
+
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep "last played" current while the panel stays open
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(Date.now())
+    }, 60 * 1000)
+    return (): void => {
+      clearInterval(interval)
+    }
+  }, [])
 
   // Fetch artist's top tracks for preview playback
   const { data: artistTracks, isLoading: isLoadingTracks } = useArtistTopTracks(
@@ -20,7 +38,12 @@ export function ArtistPanel(): React.JSX.Element | null {
   )
 
   // Find selected artist
-  const artist = galaxyData?.artists.find((a) => a.id === selectedArtistId)
+  const artist =
+    galaxyData?.artists.find((a) => a.id === selectedArtistId) ??
+    discoveryArtists.find((a) => a.id === selectedArtistId)
+  const discoverySource = artist?.discoveredFrom
+    ? galaxyData?.artists.find((a) => a.id === artist.discoveredFrom)
+    : undefined
 
   if (!artist || !showPanel) {
     return null
@@ -36,6 +59,18 @@ export function ArtistPanel(): React.JSX.Element | null {
     return count.toString()
   }
 
+  const formatLastPlayed = (isoDate: string): string => {
+    const minutes = Math.floor((now - Date.parse(isoDate)) / 60_000)
+    if (minutes < 60) {
+      return `${String(Math.max(minutes, 1))}m ago`
+    }
+    const hours = Math.floor(minutes / 60)
+    if (hours < 24) {
+      return `${String(hours)}h ago`
+    }
+    return `${String(Math.floor(hours / 24))}d ago`
+  }
+
   return (
     <div className="fixed inset-x-0 bottom-0 sm:absolute sm:inset-auto sm:right-4 sm:top-20 sm:w-80 sm:bottom-auto bg-black/95 sm:bg-black/80 backdrop-blur-lg sm:rounded-xl border-t sm:border border-white/10 overflow-hidden z-50 sm:z-30 max-h-[70vh] sm:max-h-none flex flex-col">
       {/* Header with image */}
@@ -48,7 +83,9 @@ export function ArtistPanel(): React.JSX.Element | null {
           />
         )}
         <button
-          onClick={() => selectArtist(null)}
+          onClick={() => {
+            selectArtist(null)
+          }}
           className="absolute top-2 right-2 sm:top-3 sm:right-3 w-8 h-8 flex items-center justify-center rounded-full bg-black/70 hover:bg-black/90 transition-colors"
           aria-label="Close panel"
         >
@@ -99,6 +136,43 @@ export function ArtistPanel(): React.JSX.Element | null {
         {/* Name */}
         <h3 className="text-lg sm:text-xl font-bold text-white mb-1">{artist.name}</h3>
 
+        {/* Discovery halo */}
+        {artist.discoveredFrom && (
+          <p className="text-xs text-purple-300 mb-1">
+            Discovery · related to {discoverySource?.name ?? 'your galaxy'}
+          </p>
+        )}
+
+        {/* Population */}
+        {artist.source && artist.source !== 'top' && (
+          <p className="text-xs text-gray-400 mb-1">
+            {artist.source === 'followed'
+              ? 'Followed artist'
+              : 'From your saved tracks'}
+          </p>
+        )}
+
+        {/* Recently played */}
+        {artist.lastPlayedAt && (
+          <p className="text-xs text-gray-400 mb-2">
+            {artist.isRecentOrbit ? 'Recent orbit · ' : ''}
+            Last played {formatLastPlayed(artist.lastPlayedAt)}
+            {artist.recentPlayCount !== undefined &&
+              ` · ${String(artist.recentPlayCount)} recent ${artist.recentPlayCount === 1 ? 'play' : 'plays'}`}
+          </p>
+        )}
+
+        {/* Imported listening history */}
+        {artist.historyPlayCount !== undefined && (
+          <p className="text-xs text-gray-400 mb-2">
+            {artist.historyPlayCount.toLocaleString()}{' '}
+            {artist.historyPlayCount === 1 ? 'play' : 'plays'}
+            {artist.historyMinutes !== undefined &&
+              ` · ${artist.historyMinutes.toLocaleString()} min`}{' '}
+            in your imported history
+          </p>
+        )}
+
         {/* Stats */}
         <div className="flex gap-4 mb-3 sm:mb-4 text-sm">
           <div>
@@ -142,6 +216,18 @@ export function ArtistPanel(): React.JSX.Element | null {
           </svg>
           Open in Spotify
         </a>
+
+        {/* Playlist from the artist and its connections */}
+        {!artist.discoveredFrom && (
+          <button
+            onClick={() => {
+              openPlaylistBuilder({ kind: 'neighborhood', artistId: artist.id })
+            }}
+            className="w-full mt-2 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-white text-sm"
+          >
+            Build playlist from neighborhood
+          </button>
+        )}
       </div>
 
       {/* Audio preview player */}
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { audioManager } from '@/audio'
 import { spotifyPlayer } from '@/audio/SpotifyPlayer'
 import type { SpotifyTrack } from '@/api/spotify/types'
+import { getPlayableTracks, getTracksWithPreviews } from '@/api/hooks'
 import { useUIStore } from '@/stores/uiStore'
 import { usePlaybackStore, type PlaybackMode } from '@/stores/playbackStore'
 import type { NowPlayingTrack } from '@/stores/playbackStore'
@@ -11,6 +12,11 @@ interface AudioPreviewPlayerProps {
   artistName: string
 }
 
+// Players report the relinked id, which may differ from the original track
+function matchesTrackId(track: SpotifyTrack, id: string | null): boolean {
+  return id !== null && (track.id === id || track.linked_from?.id === id)
+}
+
 /**
  * Unified audio player component supporting both SDK (full tracks) and preview (30s) modes
  */
@@ -39,11 +45,13 @@ export function AudioPreviewPlayer({
   // Determine effective mode
   const effectiveMode: PlaybackMode = sdkReady && mode === 'sdk' ? 'sdk' : 'preview'
 
-  // For preview mode, filter tracks with preview URLs
+  // Drop tracks unavailable in the user's market; preview mode also needs
+  // a preview URL
+  const availableTracks = getPlayableTracks(tracks)
   const playableTracks =
     effectiveMode === 'sdk'
-      ? tracks // SDK can play all tracks
-      : tracks.filter((track) => track.preview_url !== null)
+      ? availableTracks // SDK can play any available track
+      : getTracksWithPreviews(tracks)
 
   const currentTrack = playableTracks[currentTrackIndex]
 
@@ -57,8 +65,9 @@ export function AudioPreviewPlayer({
 
     // Find matching track index when SDK plays a different track
     if (playerState.currentTrack?.id) {
-      const index = playableTracks.findIndex(
-        (t) => t.id === playerState.currentTrack?.id
+      const currentId = playerState.currentTrack.id
+      const index = playableTracks.findIndex((t) =>
+        matchesTrackId(t, currentId)
       )
       if (index !== -1 && index !== currentTrackIndex) {
         setCurrentTrackIndex(index)
@@ -139,7 +148,10 @@ export function AudioPreviewPlayer({
 
     if (effectiveMode === 'sdk') {
       // SDK mode - full track playback
-      const currentlyPlayingThisTrack = spotifyPlayer.getCurrentTrackId() === currentTrack.id
+      const currentlyPlayingThisTrack = matchesTrackId(
+        currentTrack,
+        spotifyPlayer.getCurrentTrackId()
+      )
       const sdkIsPlaying = spotifyPlayer.isPlaying()
 
       if (sdkIsPlaying && currentlyPlayingThisTrack) {
@@ -276,7 +288,9 @@ export function AudioPreviewPlayer({
           </div>
           <div className="flex-1">
             <p className="text-sm font-medium text-gray-300">
-              Previews unavailable
+              {availableTracks.length === 0
+                ? 'Not available in your country'
+                : 'Previews unavailable'}
             </p>
             <p className="text-xs text-gray-500">Listen on Spotify instead</p>
           </div>
@@ -0,0 +1,139 @@
+import type { AuthError, AuthErrorKind } from '@/api/spotify/auth'
+
+interface RecoveryCopy {
+  title: string
+  /** Omitted to show the error's own message */
+  description?: string
+  action: string
+  /** Network problems are transient, everything else needs the user */
+  tone: 'warning' | 'error'
+}
+
+const RECOVERY_COPY: Record<AuthErrorKind, RecoveryCopy> = {
+  denied: {
+    title: 'Spotify access declined',
+    description:
+      'AuraNova needs permission to read your top artists and listening history to build your galaxy.',
+    action: 'Connect again',
+    tone: 'error',
+  },
+  state_mismatch: {
+    title: "Login couldn't be verified",
+    description:
+      "Spotify's response didn't match a login started in this browser, so it was ignored to keep your account safe.",
+    action: 'Start a new login',
+    tone: 'error',
+  },
+  expired_verifier: {
+    title: 'Login expired',
+    description:
+      'The login took too long or was started in another browser. Start again from this window.',
+    action: 'Log in again',
+    tone: 'error',
+  },
+  refresh_revoked: {
+    title: 'Session ended',
+    description:
+      'Spotify stopped accepting this session, usually because access was removed in your Spotify account settings.',
+    action: 'Reconnect',
+    tone: 'error',
+  },
+  network: {
+    title: "Can't reach Spotify",
+    description: 'Check your internet connection, then try logging in again.',
+    action: 'Try again',
+    tone: 'warning',
+  },
+  unknown: {
+    title: 'Connection failed',
+    action: 'Try again',
+    tone: 'error',
+  },
+}
+
+interface AuthErrorScreenProps {
+  error: AuthError
+  onRetry: () => void
+  onStartDemo: () => void
+  onDismiss: () => void
+}
+
+/**
+ * Recovery screen for a failed login or an ended session
+ * Explains what happened for each AuthError kind and offers the way back
+ */
+export function AuthErrorScreen({
+  error,
+  onRetry,
+  onStartDemo,
+  onDismiss,
+}: AuthErrorScreenProps): React.JSX.Element {
+  const copy = RECOVERY_COPY[error.kind]
+  const isWarning = copy.tone === 'warning'
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/80 backdrop-blur-sm p-6">
+      <div
+        role="alertdialog"
+        aria-labelledby="auth-error-title"
+        className="text-center max-w-sm animate-in fade-in duration-300"
+      >
+        <div
+          className={`w-16 h-16 mx-auto mb-4 rounded-full flex items-center justify-center ${
+            isWarning ? 'bg-yellow-500/20' : 'bg-red-500/20'
+          }`}
+        >
+          <svg
+            className={`w-8 h-8 ${isWarning ? 'text-yellow-400' : 'text-red-400'}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d={
+                isWarning
+                  ? 'M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z'
+                  : 'M6 18L18 6M6 6l12 12'
+              }
+            />
+          </svg>
+        </div>
+        <p
+          id="auth-error-title"
+          className={`font-medium mb-2 ${isWarning ? 'text-yellow-400' : 'text-red-400'}`}
+        >
+          {copy.title}
+        </p>
+        <p className="text-gray-500 text-sm mb-5">
+          {copy.description ?? error.message}
+        </p>
+        <div className="flex gap-3 justify-center">
+          <button
+            onClick={onRetry}
+            className="px-5 py-2 bg-[#1DB954] hover:bg-[#1ed760] text-black font-medium rounded-full transition-colors"
+          >
+            {copy.action}
+          </button>
+          {error.kind === 'denied' ? (
+            <button
+              onClick={onStartDemo}
+              className="px-5 py-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors"
+            >
+              Explore the demo
+            </button>
+          ) : (
+            <button
+              onClick={onDismiss}
+              className="px-5 py-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors"
+            >
+              Dismiss
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
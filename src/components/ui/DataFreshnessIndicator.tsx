@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react'
+import { useIsFetching } from '@tanstack/react-query'
+import { useMusicStore } from '@/stores/musicStore'
+
+// Data younger than this is considered current and not labelled
+const FRESH_THRESHOLD_MS = 10 * 60 * 1000
+
+function formatDataDate(timestamp: number): string {
+  const date = new Date(timestamp)
+  const isToday = date.toDateString() === new Date().toDateString()
+  return isToday
+    ? date.toLocaleTimeString(undefined, {
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+/**
+ * Shows when the displayed galaxy data was fetched
+ * Only visible for cached data, with an "updating" hint while it revalidates
+ */
+export function DataFreshnessIndicator(): React.JSX.Element | null {
+  const dataUpdatedAt = useMusicStore((state) => state.dataUpdatedAt)
+  const isFetching = useIsFetching() > 0
+  const [now, setNow] = useState(() => Date.now())
+
+  // Re-check freshness once a minute
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(Date.now())
+    }, 60 * 1000)
+    return (): void => {
+      clearInterval(interval)
+    }
+  }, [])
+
+  if (dataUpdatedAt === null || now - dataUpdatedAt < FRESH_THRESHOLD_MS)
+    return null
+
+  return (
+    <span
+      className="hidden sm:flex items-center gap-1.5 text-[10px] sm:text-xs text-gray-400"
+      title={new Date(dataUpdatedAt).toLocaleString()}
+    >
+      {isFetching && (
+        <span className="w-1.5 h-1.5 rounded-full bg-purple-400 animate-pulse" />
+      )}
+      Data from {formatDataDate(dataUpdatedAt)}
+      {isFetching && <span className="text-gray-500">· updating…</span>}
+    </span>
+  )
+}
@@ -1,7 +1,10 @@
 import { useState, useMemo } from 'react'
 import { useMusicStore } from '@/stores/musicStore'
 import { useUIStore } from '@/stores/uiStore'
+import { usePlaylistStore } from '@/stores/playlistStore'
+import { hasEstimatedValues } from '@/simulation/audioEstimator'
 import type { GalaxyGenre } from '@/types/domain'
+import { SizeLegend } from './SizeLegend'
 
 interface GenreItemProps {
   genre: GalaxyGenre
@@ -14,9 +17,14 @@ function GenreItem({
   isSelected,
   onClick,
 }: GenreItemProps): React.JSX.Element {
+  const energy = Math.round(genre.avgEnergy * 100)
+  const valence = Math.round(genre.avgValence * 100)
+  const estimated = genre.audioSource === 'estimated' ? ' (estimated)' : ''
+
   return (
     <button
       onClick={onClick}
+      title={`Energy ${String(energy)}% · Mood ${String(valence)}%${estimated}`}
       className={`flex items-center gap-2 w-full px-2 py-1.5 rounded-md transition-colors text-left ${
         isSelected
           ? 'bg-white/20'
@@ -33,20 +41,111 @@ function GenreItem({
   )
 }
 
+interface GenreFamilyItemProps {
+  family: GalaxyGenre
+  genres: GalaxyGenre[]
+  isExpanded: boolean
+  selectedGenreId: string | null
+  onToggle: () => void
+  onGenreClick: (genreId: string) => void
+}
+
+/**
+ * A genre family with its genres nested below it
+ * The chevron folds the genres, the row itself selects the whole family
+ */
+function GenreFamilyItem({
+  family,
+  genres,
+  isExpanded,
+  selectedGenreId,
+  onToggle,
+  onGenreClick,
+}: GenreFamilyItemProps): React.JSX.Element {
+  return (
+    <div>
+      <div className="flex items-center">
+        <button
+          onClick={onToggle}
+          aria-expanded={isExpanded}
+          aria-label={`${isExpanded ? 'Collapse' : 'Expand'} ${family.name}`}
+          className="p-1 rounded text-gray-500 hover:text-white transition-colors"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox="0 0 20 20"
+            fill="currentColor"
+            className={`w-3 h-3 transition-transform ${
+              isExpanded ? 'rotate-90' : ''
+            }`}
+          >
+            <path
+              fillRule="evenodd"
+              d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z"
+              clipRule="evenodd"
+            />
+          </svg>
+        </button>
+        <GenreItem
+          genre={family}
+          isSelected={selectedGenreId === family.id}
+          onClick={() => {
+            onGenreClick(family.id)
+          }}
+        />
+      </div>
+      {isExpanded && (
+        <div className="pl-5">
+          {genres.map((genre) => (
+            <GenreItem
+              key={genre.id}
+              genre={genre}
+              isSelected={selectedGenreId === genre.id}
+              onClick={() => {
+                onGenreClick(genre.id)
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export function GenreLegend(): React.JSX.Element | null {
   const [isCollapsed, setIsCollapsed] = useState(true)
+  const [expandedFamilies, setExpandedFamilies] = useState<Set<string>>(
+    () => new Set()
+  )
   const galaxyData = useMusicStore((state) => state.galaxyData)
   const selectedGenreId = useUIStore((state) => state.selection.genreId)
   const selectedArtistId = useUIStore((state) => state.selection.artistId)
   const selectGenre = useUIStore((state) => state.selectGenre)
+  const openPlaylistBuilder = usePlaylistStore(
+    (state) => state.openPlaylistBuilder
+  )
 
-  // Sort genres by artist count (most popular first)
+  // Genre tree: families and genres outside any family at the top, each
+  // family's genres below it, sorted by artist count (most popular first)
   const sortedGenres = useMemo(() => {
     if (!galaxyData) return []
-    return [...galaxyData.genres].sort((a, b) => b.artistCount - a.artistCount)
+    const byCount = (a: GalaxyGenre, b: GalaxyGenre): number =>
+      b.artistCount - a.artistCount
+    const byId = new Map(galaxyData.genres.map((genre) => [genre.id, genre]))
+
+    return galaxyData.genres
+      .filter((genre) => !genre.parentId || !byId.has(genre.parentId))
+      .sort(byCount)
+      .map((genre) => ({
+        genre,
+        children: (genre.childIds ?? [])
+          .map((id) => byId.get(id))
+          .filter((child): child is GalaxyGenre => child !== undefined)
+          .sort(byCount),
+      }))
   }, [galaxyData])
 
-  const handleGenreClick = (genreId: string) => {
+  const handleGenreClick = (genreId: string): void => {
     // Toggle selection
     if (selectedGenreId === genreId) {
       selectGenre(null)
@@ -55,8 +154,24 @@ export function GenreLegend(): React.JSX.Element | null {
     }
   }
 
+  const toggleFamily = (familyId: string): void => {
+    setExpandedFamilies((expanded) => {
+      const next = new Set(expanded)
+      if (!next.delete(familyId)) next.add(familyId)
+      return next
+    })
+  }
+
   if (!galaxyData || sortedGenres.length === 0) return null
 
+  const isAudioEstimated = hasEstimatedValues(galaxyData.audioProfile)
+  // Some tracks came back without audio features (estimated covers none)
+  const coverage = galaxyData.audioCoverage
+  const isAudioPartial =
+    coverage !== undefined &&
+    coverage.tracksWithFeatures > 0 &&
+    coverage.ratio < 1
+
   // Hide on mobile when artist panel is open to avoid overlap
   const hideOnMobile = selectedArtistId ? 'hidden sm:block' : ''
 
@@ -88,16 +203,58 @@ export function GenreLegend(): React.JSX.Element | null {
         {/* Genre list */}
         {!isCollapsed && (
           <div className="px-2 pb-2 max-h-[300px] overflow-y-auto scrollbar-thin scrollbar-thumb-white/20">
-            {sortedGenres.map((genre) => (
-              <GenreItem
-                key={genre.id}
-                genre={genre}
-                isSelected={selectedGenreId === genre.id}
-                onClick={() => handleGenreClick(genre.id)}
-              />
-            ))}
+            {sortedGenres.map(({ genre, children }) =>
+              children.length > 0 ? (
+                <GenreFamilyItem
+                  key={genre.id}
+                  family={genre}
+                  genres={children}
+                  isExpanded={expandedFamilies.has(genre.id)}
+                  selectedGenreId={selectedGenreId}
+                  onToggle={() => {
+                    toggleFamily(genre.id)
+                  }}
+                  onGenreClick={handleGenreClick}
+                />
+              ) : (
+                <GenreItem
+                  key={genre.id}
+                  genre={genre}
+                  isSelected={selectedGenreId === genre.id}
+                  onClick={() => handleGenreClick(genre.id)}
+                />
+              )
+            )}
+            {selectedGenreId && (
+              <button
+                onClick={() => {
+                  openPlaylistBuilder({
+                    kind: 'genre',
+                    genreId: selectedGenreId,
+                  })
+                }}
+                className="w-full mt-1 px-2 py-1.5 rounded-md bg-purple-500/20 hover:bg-purple-500/30 text-xs text-purple-200 transition-colors"
+              >
+                Build playlist from genre
+              </button>
+            )}
+            {isAudioEstimated && (
+              <p className="px-2 pt-2 text-[10px] text-gray-500">
+                Audio features unavailable - energy and mood are estimated from
+                genres
+              </p>
+            )}
+            {isAudioPartial && (
+              <p className="px-2 pt-2 text-[10px] text-gray-500">
+                Audio features for {coverage.tracksWithFeatures} of{' '}
+                {coverage.totalTracks} top tracks - energy and mood use those
+              </p>
+            )}
           </div>
         )}
+
+        {/* What planet size means */}
+        {galaxyData.sizing && <SizeLegend sizing={galaxyData.sizing} />}
       </div>
     </div>
   )
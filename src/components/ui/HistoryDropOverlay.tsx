@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react'
+import { useListeningHistoryStore } from '@/stores/listeningHistoryStore'
+
+/**
+ * Whether a drag carries files (rather than text or a link)
+ */
+function isFileDrag(event: DragEvent): boolean {
+  return event.dataTransfer?.types.includes('Files') ?? false
+}
+
+/**
+ * Accepts listening history files dropped anywhere on the app
+ * Shows a full-screen target while files are dragged over the window
+ */
+export function HistoryDropOverlay(): React.JSX.Element | null {
+  const importFiles = useListeningHistoryStore((state) => state.importFiles)
+  const [isDragging, setIsDragging] = useState(false)
+  // dragenter/dragleave fire for every child element crossed
+  const dragDepthRef = useRef(0)
+
+  useEffect(() => {
+    const handleDragEnter = (event: DragEvent): void => {
+      if (!isFileDrag(event)) return
+      dragDepthRef.current += 1
+      setIsDragging(true)
+    }
+
+    const handleDragLeave = (event: DragEvent): void => {
+      if (!isFileDrag(event)) return
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+      if (dragDepthRef.current === 0) setIsDragging(false)
+    }
+
+    // Needed for the drop event to fire at all
+    const handleDragOver = (event: DragEvent): void => {
+      if (isFileDrag(event)) event.preventDefault()
+    }
+
+    const handleDrop = (event: DragEvent): void => {
+      if (!isFileDrag(event)) return
+      event.preventDefault()
+      dragDepthRef.current = 0
+      setIsDragging(false)
+
+      const files = Array.from(event.dataTransfer?.files ?? []).filter((file) =>
+        /\.(json|csv)$/i.test(file.name)
+      )
+      if (files.length > 0) void importFiles(files)
+    }
+
+    window.addEventListener('dragenter', handleDragEnter)
+    window.addEventListener('dragleave', handleDragLeave)
+    window.addEventListener('dragover', handleDragOver)
+    window.addEventListener('drop', handleDrop)
+    return (): void => {
+      window.removeEventListener('dragenter', handleDragEnter)
+      window.removeEventListener('dragleave', handleDragLeave)
+      window.removeEventListener('dragover', handleDragOver)
+      window.removeEventListener('drop', handleDrop)
+    }
+  }, [importFiles])
+
+  if (!isDragging) return null
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm pointer-events-none">
+      <div className="px-8 py-6 rounded-2xl border-2 border-dashed border-purple-400/60 text-center">
+        <p className="text-lg font-semibold text-white">
+          Drop your listening history
+        </p>
+        <p className="mt-1 text-sm text-gray-400">
+          Spotify streaming history or Last.fm scrobble exports - read locally,
+          never uploaded
+        </p>
+      </div>
+    </div>
+  )
+}
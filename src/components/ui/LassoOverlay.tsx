@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react'
+import { usePlaylistStore } from '@/stores/playlistStore'
+import { useUIStore } from '@/stores/uiStore'
+
+// Skip pointer moves shorter than this so long strokes stay light
+const MIN_POINT_DISTANCE = 4
+
+/**
+ * Lasso tool for picking a region of the galaxy
+ * While active, the overlay captures the pointer so the drawn outline
+ * doesn't rotate the camera; the finished path is handed to the scene in
+ * normalized device coordinates (LassoSelection resolves it to artists)
+ */
+export function LassoOverlay(): React.JSX.Element {
+  const isLassoActive = usePlaylistStore((state) => state.isLassoActive)
+  const startLasso = usePlaylistStore((state) => state.startLasso)
+  const cancelLasso = usePlaylistStore((state) => state.cancelLasso)
+  const finishLasso = usePlaylistStore((state) => state.finishLasso)
+  const selectedArtistId = useUIStore((state) => state.selection.artistId)
+
+  // Outline in pixels relative to the overlay
+  const [points, setPoints] = useState<[number, number][]>([])
+  const isDrawingRef = useRef(false)
+
+  // Escape cancels the lasso
+  useEffect(() => {
+    if (!isLassoActive) return undefined
+
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') {
+        isDrawingRef.current = false
+        setPoints([])
+        cancelLasso()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return (): void => {
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [isLassoActive, cancelLasso])
+
+  const toLocalPoint = (event: React.PointerEvent): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return [event.clientX - rect.left, event.clientY - rect.top]
+  }
+
+  const handlePointerDown = (event: React.PointerEvent): void => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    isDrawingRef.current = true
+    setPoints([toLocalPoint(event)])
+  }
+
+  const handlePointerMove = (event: React.PointerEvent): void => {
+    if (!isDrawingRef.current) return
+    const [x, y] = toLocalPoint(event)
+    setPoints((previous) => {
+      const last = previous[previous.length - 1]
+      if (Math.hypot(x - last[0], y - last[1]) < MIN_POINT_DISTANCE) {
+        return previous
+      }
+      return [...previous, [x, y]]
+    })
+  }
+
+  const handlePointerUp = (event: React.PointerEvent): void => {
+    if (!isDrawingRef.current) return
+    isDrawingRef.current = false
+
+    const { width, height } = event.currentTarget.getBoundingClientRect()
+    finishLasso(
+      points.map(([x, y]) => [(x / width) * 2 - 1, -(y / height) * 2 + 1])
+    )
+    setPoints([])
+  }
+
+  // Hide on mobile when artist panel is open (same as the settings button)
+  const hideOnMobile = selectedArtistId ? 'hidden sm:block' : ''
+
+  if (!isLassoActive) {
+    return (
+      <button
+        onClick={startLasso}
+        className={`fixed bottom-20 right-16 z-50 p-2 rounded-full bg-black/60 backdrop-blur-sm border border-white/10 hover:bg-white/10 transition-colors ${hideOnMobile}`}
+        aria-label="Select a region for a playlist"
+        title="Lasso a region to build a playlist"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="w-5 h-5 text-gray-400"
+        >
+          <ellipse cx="12" cy="9" rx="9" ry="6" strokeDasharray="3 3" />
+          <path d="M7 14c-1 2-1 4 1 5s3 0 3-2" />
+        </svg>
+      </button>
+    )
+  }
+
+  return (
+    <div
+      className="absolute inset-0 z-40 cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <svg className="absolute inset-0 w-full h-full pointer-events-none">
+        {points.length > 1 && (
+          <polygon
+            points={points
+              .map(([x, y]) => `${String(x)},${String(y)}`)
+              .join(' ')}
+            fill="rgba(168, 85, 247, 0.12)"
+            stroke="#c084fc"
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+          />
+        )}
+      </svg>
+
+      <div className="absolute top-20 left-1/2 -translate-x-1/2 flex items-center gap-3 px-4 py-2 rounded-full bg-black/70 backdrop-blur-md border border-white/10 text-sm text-gray-300 pointer-events-auto">
+        <span>Draw around the stars to include</span>
+        <button
+          onPointerDown={(event) => {
+            event.stopPropagation()
+          }}
+          onClick={cancelLasso}
+          className="text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
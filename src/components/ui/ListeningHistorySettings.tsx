@@ -0,0 +1,249 @@
+import { useMemo, useRef } from 'react'
+import { useHistoryArtists } from '@/api/hooks'
+import {
+  describeHistoryWindow,
+  FULL_HISTORY_WINDOW,
+  getHistoryYears,
+  yearWindow,
+} from '@/simulation/listeningHistory'
+import { useListeningHistoryStore } from '@/stores/listeningHistoryStore'
+import { useMusicStore } from '@/stores/musicStore'
+
+// Unmatched artists listed before the rest are summarized
+const UNMATCHED_PREVIEW_COUNT = 20
+
+/**
+ * Artists from the history that couldn't be found on Spotify
+ * Shares the resolution query with DataLoader, so nothing is fetched twice
+ */
+function UnmatchedReport(): React.JSX.Element | null {
+  const stats = useListeningHistoryStore((state) => state.stats)
+  const { data, isLoading } = useHistoryArtists({ stats })
+
+  if (isLoading) {
+    return (
+      <p className="mt-2 text-xs text-gray-500 animate-pulse">
+        Matching artists on Spotify...
+      </p>
+    )
+  }
+  if (!data) return null
+
+  const { artists, unmatched } = data
+  return (
+    <div className="mt-2 text-xs text-gray-500">
+      <p>
+        {artists.length} artists matched
+        {unmatched.length > 0 && `, ${String(unmatched.length)} not found`}
+      </p>
+      {unmatched.length > 0 && (
+        <details className="mt-1">
+          <summary className="cursor-pointer text-gray-400 hover:text-white">
+            Unmatched artists
+          </summary>
+          <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+            {unmatched.slice(0, UNMATCHED_PREVIEW_COUNT).map((listening) => (
+              <li key={listening.artistName} className="flex justify-between">
+                <span className="truncate">{listening.artistName}</span>
+                <span className="shrink-0 ml-2">
+                  {listening.playCount.toLocaleString()}
+                </span>
+              </li>
+            ))}
+            {unmatched.length > UNMATCHED_PREVIEW_COUNT && (
+              <li>and {unmatched.length - UNMATCHED_PREVIEW_COUNT} more</li>
+            )}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Import and remove listening history (Spotify's extended streaming history
+ * or a Last.fm scrobble export), pick the date window and whether the
+ * galaxy is built from it
+ * Files can also be dropped anywhere on the app (HistoryDropOverlay)
+ */
+export function ListeningHistorySettings(): React.JSX.Element {
+  const plays = useListeningHistoryStore((state) => state.plays)
+  const stats = useListeningHistoryStore((state) => state.stats)
+  const fileNames = useListeningHistoryStore((state) => state.fileNames)
+  const historyWindow = useListeningHistoryStore((state) => state.window)
+  const galaxySource = useListeningHistoryStore((state) => state.galaxySource)
+  const isImporting = useListeningHistoryStore((state) => state.isImporting)
+  const error = useListeningHistoryStore((state) => state.error)
+  const importFiles = useListeningHistoryStore((state) => state.importFiles)
+  const setWindow = useListeningHistoryStore((state) => state.setWindow)
+  const setGalaxySource = useListeningHistoryStore(
+    (state) => state.setGalaxySource
+  )
+  const clearHistory = useListeningHistoryStore((state) => state.clearHistory)
+  const galaxyArtists = useMusicStore((state) => state.galaxyData?.artists)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const years = useMemo(() => getHistoryYears(plays), [plays])
+  const firstDay = plays[0]?.playedAt.slice(0, 10)
+  const lastDay = plays[plays.length - 1]?.playedAt.slice(0, 10)
+  const matchedInGalaxy =
+    galaxyArtists?.filter((a) => (a.historyPlayCount ?? 0) > 0).length ?? 0
+
+  const hours = stats ? Math.round(stats.totalMsPlayed / 3600000) : 0
+  const summary = stats
+    ? `${stats.totalPlays.toLocaleString()} plays${
+        hours > 0 ? ` · ${hours.toLocaleString()} hours` : ''
+      } · ${describeHistoryWindow(historyWindow)}`
+    : 'Spotify streaming history or Last.fm scrobbles'
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <span className="text-sm text-gray-300">Listening History</span>
+      <p className="text-xs text-gray-500">{summary}</p>
+      {stats && (
+        <p className="text-[10px] text-gray-600 truncate">
+          {fileNames.length} {fileNames.length === 1 ? 'file' : 'files'} ·{' '}
+          {firstDay} to {lastDay}
+        </p>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        multiple
+        className="hidden"
+        onChange={(event) => {
+          const files = Array.from(event.target.files ?? [])
+          event.target.value = ''
+          if (files.length > 0) void importFiles(files)
+        }}
+      />
+
+      <div className="flex gap-1 mt-2 text-xs">
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isImporting}
+          className="flex-1 px-2 py-1 rounded-md bg-white/10 text-gray-300 hover:bg-white/20 disabled:opacity-50 transition-colors"
+        >
+          {isImporting
+            ? 'Importing...'
+            : stats
+              ? 'Replace files'
+              : 'Import files'}
+        </button>
+        {stats && (
+          <button
+            onClick={clearHistory}
+            className="px-2 py-1 rounded-md bg-white/10 text-gray-400 hover:bg-white/20 transition-colors"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-2 text-xs text-red-400 whitespace-pre-line break-words">
+          {error}
+        </p>
+      )}
+
+      {stats && (
+        <>
+          {/* Date window */}
+          <div className="flex flex-wrap gap-1 mt-3 text-xs">
+            <button
+              onClick={() => {
+                setWindow(FULL_HISTORY_WINDOW)
+              }}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                !historyWindow.start && !historyWindow.end
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-white/10 text-gray-400 hover:bg-white/20'
+              }`}
+            >
+              All
+            </button>
+            {years.map((year) => {
+              const yearRange = yearWindow(year)
+              const isActive =
+                historyWindow.start === yearRange.start &&
+                historyWindow.end === yearRange.end
+              return (
+                <button
+                  key={year}
+                  onClick={() => {
+                    setWindow(yearRange)
+                  }}
+                  className={`px-2 py-1 rounded-md transition-colors ${
+                    isActive
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-white/10 text-gray-400 hover:bg-white/20'
+                  }`}
+                >
+                  {year}
+                </button>
+              )
+            })}
+          </div>
+          <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
+            <input
+              type="date"
+              value={historyWindow.start ?? ''}
+              min={firstDay}
+              max={historyWindow.end ?? lastDay}
+              onChange={(event) => {
+                setWindow({
+                  ...historyWindow,
+                  start: event.target.value || null,
+                })
+              }}
+              className="flex-1 min-w-0 px-1 py-0.5 rounded bg-white/10 text-gray-300 [color-scheme:dark]"
+              aria-label="History start date"
+            />
+            <span>–</span>
+            <input
+              type="date"
+              value={historyWindow.end ?? ''}
+              min={historyWindow.start ?? firstDay}
+              max={lastDay}
+              onChange={(event) => {
+                setWindow({ ...historyWindow, end: event.target.value || null })
+              }}
+              className="flex-1 min-w-0 px-1 py-0.5 rounded bg-white/10 text-gray-300 [color-scheme:dark]"
+              aria-label="History end date"
+            />
+          </div>
+
+          {/* Galaxy population */}
+          <div className="flex gap-1 mt-3 text-xs">
+            {(['top_artists', 'history'] as const).map((source) => (
+              <button
+                key={source}
+                onClick={() => {
+                  setGalaxySource(source)
+                }}
+                className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                  galaxySource === source
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-white/10 text-gray-400 hover:bg-white/20'
+                }`}
+              >
+                {source === 'top_artists' ? 'Top artists' : 'History artists'}
+              </button>
+            ))}
+          </div>
+
+          {galaxySource === 'history' ? (
+            <UnmatchedReport />
+          ) : (
+            <p className="mt-2 text-xs text-gray-500">
+              {matchedInGalaxy} of {galaxyArtists?.length ?? 0} planets found in
+              your history
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
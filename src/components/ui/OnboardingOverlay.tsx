@@ -2,6 +2,8 @@ import { useEffect, useState, useRef, useCallback } from 'react'
 import { useAuthStore } from '@/stores/authStore'
 import { useMusicStore } from '@/stores/musicStore'
 import { useUIStore } from '@/stores/uiStore'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import { ProfileSwitcher } from './ProfileSwitcher'
 
 const LOADING_TIMEOUT_MS = 30000 // 30 seconds max loading time
 
@@ -26,17 +28,25 @@ const LOADING_MESSAGES = [
 
 interface OnboardingOverlayProps {
   onStartLogin: () => void
+  onStartDemo: () => void
 }
 
 const SKIP_HINT_DELAY = 2000 // Show skip hint after 2 seconds of reveal
 
-export function OnboardingOverlay({ onStartLogin }: OnboardingOverlayProps): React.JSX.Element | null {
-  const { isAuthenticated, isLoading: authLoading, error: authError, logout } = useAuthStore()
-  const { isLoading: musicLoading, galaxyData, error: musicError } = useMusicStore()
+export function OnboardingOverlay({ onStartLogin, onStartDemo }: OnboardingOverlayProps): React.JSX.Element | null {
+  const { isAuthenticated, isLoading: authLoading, logout } = useAuthStore()
+  const { isLoading: musicLoading, isWaitingOnSpotify, galaxyData, error: musicError } = useMusicStore()
+  const isDemoMode = useDataSourceStore((state) => state.isDemoMode)
+  const hasMultipleProfiles = useAuthStore((state) => state.profiles.length > 1)
+  // Demo mode skips auth but otherwise follows the loading/reveal flow
+  const hasSession = isAuthenticated || isDemoMode
 
   // Galaxy phase from store for skip functionality
   const galaxyPhase = useUIStore((state) => state.galaxyPhase)
   const triggerSkipReveal = useUIStore((state) => state.triggerSkipReveal)
+  // Galaxy build progress from the transform worker, before the reveal
+  const revealProgress = useUIStore((state) => state.revealProgress)
+  const buildProgress = galaxyPhase === 'loading' ? revealProgress : 0
 
   const [state, setState] = useState<OnboardingState>('welcome')
   const [loadingMessageIndex, setLoadingMessageIndex] = useState(0)
@@ -130,25 +140,25 @@ export function OnboardingOverlay({ onStartLogin }: OnboardingOverlayProps): Rea
     previousAuthRef.current = isAuthenticated
 
     // Already authenticated with data
-    if (isAuthenticated && galaxyData && galaxyData.artists.length > 0) {
+    if (hasSession && galaxyData && galaxyData.artists.length > 0) {
       setState('hidden')
     }
     // Authenticated, loading music data
-    else if (isAuthenticated && musicLoading) {
+    else if (hasSession && musicLoading) {
       setState('loading')
     }
     // Authenticated, finished loading, waiting for data transformation
-    else if (isAuthenticated && !musicLoading && !galaxyData && state === 'loading') {
+    else if (hasSession && !musicLoading && !galaxyData && state === 'loading') {
       // Stay in loading state - data is being transformed
       // Add a safety timeout in case something goes wrong
     }
     // Not authenticated
-    else if (!isAuthenticated && !authLoading) {
+    else if (!hasSession && !authLoading) {
       setState('welcome')
       setIsConnecting(false)
     }
     return undefined
-  }, [isAuthenticated, musicLoading, galaxyData, authLoading, state])
+  }, [isAuthenticated, hasSession, musicLoading, galaxyData, authLoading, state])
 
   // Cycle through loading messages
   useEffect(() => {
@@ -205,6 +215,9 @@ export function OnboardingOverlay({ onStartLogin }: OnboardingOverlayProps): Rea
   // During reveal, show minimal overlay with just skip hint
   const isRevealPhase = state === 'hidden' && galaxyPhase === 'revealing'
 
+  // Rate-limit backoff is expected to be slow - don't treat it as a timeout
+  const showTimeout = loadingTimedOut && !isWaitingOnSpotify
+
   return (
     <div
       className={`
@@ -261,6 +274,20 @@ export function OnboardingOverlay({ onStartLogin }: OnboardingOverlayProps): Rea
             </svg>
             Connect with Spotify
           </button>
+          <button
+            onClick={onStartDemo}
+            disabled={isConnecting}
+            className="mt-4 text-sm text-gray-400 hover:text-white underline-offset-4 hover:underline transition-colors disabled:opacity-50"
+          >
+            or explore a demo galaxy - no login needed
+          </button>
+          {/* Signed-out profiles can switch back without connecting */}
+          {hasMultipleProfiles && (
+            <div className="mt-6 flex items-center justify-center gap-2 text-xs text-gray-500">
+              Connecting as
+              <ProfileSwitcher />
+            </div>
+          )}
         </div>
       )}
 
@@ -301,7 +328,7 @@ export function OnboardingOverlay({ onStartLogin }: OnboardingOverlayProps): Rea
       )}
 
       {/* Loading State (Fetching music data) */}
-      {state === 'loading' && !loadingTimedOut && !musicError && (
+      {state === 'loading' && !showTimeout && !musicError && (
         <div className="text-center">
           {/* Animated loader */}
           <div className="w-16 h-16 mx-auto mb-6 relative">
@@ -317,6 +344,11 @@ export function OnboardingOverlay({ onStartLogin }: OnboardingOverlayProps): Rea
             >
               {LOADING_MESSAGES[loadingMessageIndex]?.text || 'Almost ready...'}
             </p>
+            {isWaitingOnSpotify && (
+              <p className="text-yellow-400/80 text-sm mt-1 animate-in fade-in duration-300">
+                Waiting on Spotify (rate limited), retrying shortly...
+              </p>
+            )}
           </div>
 
           {/* Progress dots */}
@@ -332,11 +364,21 @@ export function OnboardingOverlay({ onStartLogin }: OnboardingOverlayProps): Rea
               />
             ))}
           </div>
+
+          {/* Galaxy build progress */}
+          {buildProgress > 0 && (
+            <div className="w-40 h-1 mx-auto mt-4 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className="h-full bg-purple-500 transition-all duration-300"
+                style={{ width: `${String(Math.round(buildProgress * 100))}%` }}
+              />
+            </div>
+          )}
         </div>
       )}
 
       {/* Loading Error / Timeout State */}
-      {state === 'loading' && (loadingTimedOut || musicError) && (
+      {state === 'loading' && (showTimeout || musicError) && (
         <div className="text-center animate-in fade-in duration-300 px-4">
           <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-yellow-500/20 flex items-center justify-center">
             <svg className="w-8 h-8 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -369,24 +411,6 @@ export function OnboardingOverlay({ onStartLogin }: OnboardingOverlayProps): Rea
         </div>
       )}
 
-      {/* Auth Error State */}
-      {authError && (
-        <div className="text-center animate-in fade-in duration-300">
-          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-red-500/20 flex items-center justify-center">
-            <svg className="w-8 h-8 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </div>
-          <p className="text-red-400 font-medium mb-2">Connection failed</p>
-          <p className="text-gray-500 text-sm mb-4 max-w-xs">{authError}</p>
-          <button
-            onClick={handleConnect}
-            className="px-5 py-2 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors"
-          >
-            Try Again
-          </button>
-        </div>
-      )}
     </div>
   )
 }
@@ -0,0 +1,317 @@
+import { useMemo, useState } from 'react'
+import {
+  useFeatureAccess,
+  usePlaylistPreview,
+  useUserProfile,
+} from '@/api/hooks'
+import { createPlaylistWithTracks } from '@/api/spotify/playlistApi'
+import type { SpotifyPlaylist } from '@/api/spotify/types'
+import { resolvePlaylistArtists } from '@/simulation/playlistBuilder'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
+import { useMusicStore } from '@/stores/musicStore'
+import { usePlaylistStore } from '@/stores/playlistStore'
+import {
+  PLAYLIST_ORDERING_LABELS,
+  type GalaxyData,
+  type PlaylistOrdering,
+  type PlaylistSelection,
+} from '@/types/domain'
+
+const ORDERINGS: PlaylistOrdering[] = ['energy_ramp', 'tempo', 'shuffle']
+
+type SaveState =
+  | { status: 'idle' }
+  | { status: 'saving' }
+  | { status: 'saved'; playlist: SpotifyPlaylist }
+  | { status: 'error'; message: string }
+
+/**
+ * Human readable name for what the playlist was built from
+ */
+function describeSelection(
+  selection: PlaylistSelection,
+  galaxyData: GalaxyData
+): string {
+  switch (selection.kind) {
+    case 'genre':
+      return (
+        galaxyData.genres.find((g) => g.id === selection.genreId)?.name ??
+        'Genre'
+      )
+    case 'neighborhood': {
+      const artist = galaxyData.artists.find((a) => a.id === selection.artistId)
+      return artist ? `Around ${artist.name}` : 'Artist neighborhood'
+    }
+    case 'lasso':
+      return 'Galaxy region'
+  }
+}
+
+function selectionKey(selection: PlaylistSelection): string {
+  switch (selection.kind) {
+    case 'genre':
+      return `genre:${selection.genreId}`
+    case 'neighborhood':
+      return `neighborhood:${selection.artistId}`
+    case 'lasso':
+      return `lasso:${selection.artistIds.join(',')}`
+  }
+}
+
+interface PlaylistBuilderPanelProps {
+  selection: PlaylistSelection
+  galaxyData: GalaxyData
+}
+
+function PlaylistBuilderPanel({
+  selection,
+  galaxyData,
+}: PlaylistBuilderPanelProps): React.JSX.Element {
+  const ordering = usePlaylistStore((state) => state.ordering)
+  const shuffleSeed = usePlaylistStore((state) => state.shuffleSeed)
+  const setOrdering = usePlaylistStore((state) => state.setOrdering)
+  const reshuffle = usePlaylistStore((state) => state.reshuffle)
+  const closePlaylistBuilder = usePlaylistStore(
+    (state) => state.closePlaylistBuilder
+  )
+  const provider = useDataSourceStore((state) => state.provider)
+  const { data: profile } = useUserProfile({ enabled: provider.requiresAuth })
+  const { hasAccess, requestAccess } = useFeatureAccess('playlists')
+
+  const sourceName = describeSelection(selection, galaxyData)
+  const [name, setName] = useState(`${sourceName} · Auranova`)
+  const [saveState, setSaveState] = useState<SaveState>({ status: 'idle' })
+
+  const artists = useMemo(
+    () => resolvePlaylistArtists(galaxyData, selection),
+    [galaxyData, selection]
+  )
+  const {
+    data: tracks,
+    isLoading,
+    error,
+  } = usePlaylistPreview({ artists, ordering, shuffleSeed })
+
+  const handleSave = async (): Promise<void> => {
+    if (!profile || !tracks || tracks.length === 0) return
+    setSaveState({ status: 'saving' })
+    try {
+      const playlist = await createPlaylistWithTracks(
+        profile.id,
+        {
+          name: name.trim() || `${sourceName} · Auranova`,
+          description: `Made in Auranova from ${sourceName} (${PLAYLIST_ORDERING_LABELS[ordering].toLowerCase()})`,
+        },
+        tracks.map((t) => t.track.uri)
+      )
+      setSaveState({ status: 'saved', playlist })
+    } catch (err) {
+      setSaveState({
+        status: 'error',
+        message: err instanceof Error ? err.message : 'Failed to save playlist',
+      })
+    }
+  }
+
+  const canSave =
+    !!profile &&
+    !!tracks &&
+    tracks.length > 0 &&
+    saveState.status !== 'saving' &&
+    saveState.status !== 'saved'
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 sm:absolute sm:inset-auto sm:left-4 sm:top-20 sm:w-80 sm:bottom-auto bg-black/95 sm:bg-black/80 backdrop-blur-lg sm:rounded-xl border-t sm:border border-white/10 overflow-hidden z-50 max-h-[70vh] flex flex-col">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-2 p-4 pb-2 shrink-0">
+        <div className="min-w-0">
+          <p className="text-[10px] uppercase tracking-wider text-gray-500">
+            New playlist · {artists.length}{' '}
+            {artists.length === 1 ? 'artist' : 'artists'}
+          </p>
+          <input
+            value={name}
+            onChange={(event) => {
+              setName(event.target.value)
+            }}
+            maxLength={100}
+            className="w-full mt-1 bg-transparent text-white font-semibold focus:outline-none border-b border-transparent focus:border-purple-500/50"
+            aria-label="Playlist name"
+          />
+        </div>
+        <button
+          onClick={closePlaylistBuilder}
+          className="w-8 h-8 shrink-0 flex items-center justify-center rounded-full bg-black/70 hover:bg-black/90 transition-colors"
+          aria-label="Close playlist builder"
+        >
+          <svg
+            className="w-4 h-4 text-white"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {/* Ordering */}
+      <div className="flex items-center gap-1 px-4 pb-3 shrink-0">
+        {ORDERINGS.map((option) => (
+          <button
+            key={option}
+            onClick={() => {
+              if (option === 'shuffle' && ordering === 'shuffle') {
+                reshuffle()
+              } else {
+                setOrdering(option)
+              }
+            }}
+            className={`flex-1 px-2 py-1 rounded-md text-xs transition-colors ${
+              ordering === option
+                ? 'bg-purple-500/30 text-white'
+                : 'bg-white/5 text-gray-400 hover:text-white'
+            }`}
+            title={
+              option === 'shuffle' && ordering === 'shuffle'
+                ? 'Shuffle again'
+                : undefined
+            }
+          >
+            {PLAYLIST_ORDERING_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {/* Dry-run preview */}
+      <div className="flex-1 overflow-y-auto px-2 min-h-0">
+        {isLoading ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-400 animate-pulse">
+            Gathering tracks...
+          </p>
+        ) : error ? (
+          <p className="px-2 py-6 text-center text-sm text-red-400">
+            {error.message}
+          </p>
+        ) : !tracks || tracks.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500">
+            No playable tracks for these artists
+          </p>
+        ) : (
+          <ol>
+            {tracks.map((item, index) => (
+              <li
+                key={item.track.id}
+                className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-white/5"
+              >
+                <span className="w-5 text-right text-xs text-gray-500">
+                  {index + 1}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {item.track.name}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {item.artist.name}
+                  </p>
+                </div>
+                <div
+                  className="w-12 shrink-0"
+                  title={`Energy ${String(Math.round(item.energy * 100))}% · ${String(Math.round(item.tempo))} BPM${
+                    item.audioSource === 'estimated' ? ' (estimated)' : ''
+                  }`}
+                >
+                  <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{
+                        width: `${String(Math.round(item.energy * 100))}%`,
+                        backgroundColor: item.artist.color,
+                      }}
+                    />
+                  </div>
+                  <p className="mt-0.5 text-[10px] text-gray-500 text-right">
+                    {item.audioSource === 'estimated' ? '~' : ''}
+                    {Math.round(item.tempo)} BPM
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {/* Save */}
+      <div className="p-4 pt-3 border-t border-white/10 shrink-0 pb-16 sm:pb-4">
+        {saveState.status === 'saved' ? (
+          <a
+            href={saveState.playlist.external_urls.spotify}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center justify-center w-full py-2 rounded-lg bg-[#1DB954] hover:bg-[#1ed760] transition-colors text-white font-medium text-sm"
+          >
+            Saved · Open in Spotify
+          </a>
+        ) : !provider.requiresAuth ? (
+          <p className="text-center text-xs text-gray-500">
+            Connect Spotify to save playlists
+          </p>
+        ) : !hasAccess ? (
+          <>
+            <button
+              onClick={() => void requestAccess()}
+              className="w-full py-2 rounded-lg bg-purple-500/80 hover:bg-purple-500 transition-colors text-white font-medium text-sm"
+            >
+              Allow playlist creation
+            </button>
+            <p className="mt-2 text-center text-[10px] text-gray-500">
+              Spotify will ask once for permission to create playlists
+            </p>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => void handleSave()}
+              disabled={!canSave}
+              className="w-full py-2 rounded-lg bg-[#1DB954] hover:bg-[#1ed760] disabled:opacity-40 disabled:hover:bg-[#1DB954] transition-colors text-white font-medium text-sm"
+            >
+              {saveState.status === 'saving'
+                ? 'Saving...'
+                : `Save ${String(tracks?.length ?? 0)} tracks to Spotify`}
+            </button>
+            {saveState.status === 'error' && (
+              <p className="mt-2 text-center text-xs text-red-400">
+                {saveState.message}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Builds a Spotify playlist from a genre, an artist neighborhood or a lasso
+ * region: previews the tracks in the chosen order before anything is saved
+ */
+export function PlaylistBuilder(): React.JSX.Element | null {
+  const selection = usePlaylistStore((state) => state.selection)
+  const galaxyData = useMusicStore((state) => state.galaxyData)
+
+  if (!selection || !galaxyData) return null
+
+  // Keyed so a new selection starts with a fresh name and save state
+  return (
+    <PlaylistBuilderPanel
+      key={selectionKey(selection)}
+      selection={selection}
+      galaxyData={galaxyData}
+    />
+  )
+}
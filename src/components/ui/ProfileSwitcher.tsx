@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { useAuthStore } from '@/stores/authStore'
+import { DEFAULT_PROFILE_ID } from '@/api/spotify/profiles'
+import {
+  TOKEN_STORAGE_LABELS,
+  type TokenStorageKind,
+} from '@/api/spotify/tokenStore'
+
+const TOKEN_STORAGE_KINDS: TokenStorageKind[] = ['local', 'session', 'memory']
+
+/**
+ * Dropdown for switching between Spotify account profiles
+ * Each profile keeps its own session, preferences and cached data
+ */
+export function ProfileSwitcher(): React.JSX.Element {
+  const profiles = useAuthStore((state) => state.profiles)
+  const activeProfileId = useAuthStore((state) => state.activeProfileId)
+  const switchProfile = useAuthStore((state) => state.switchProfile)
+  const addProfile = useAuthStore((state) => state.addProfile)
+  const removeProfile = useAuthStore((state) => state.removeProfile)
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [newStorage, setNewStorage] = useState<TokenStorageKind>('local')
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId)
+
+  const handleSwitch = (profileId: string): void => {
+    switchProfile(profileId)
+    setIsOpen(false)
+  }
+
+  const handleAdd = (event: React.FormEvent): void => {
+    event.preventDefault()
+    const name = newName.trim()
+    if (!name) return
+    addProfile(name, newStorage)
+    setNewName('')
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          setIsOpen(!isOpen)
+        }}
+        className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-white/5 border border-white/10 backdrop-blur-sm text-xs sm:text-sm text-gray-300 hover:text-white transition-colors"
+        title="Switch profile"
+      >
+        <span className="w-5 h-5 rounded-full bg-purple-500/40 flex items-center justify-center text-[10px] font-semibold text-white">
+          {activeProfile?.name.charAt(0).toUpperCase()}
+        </span>
+        <span className="hidden sm:inline max-w-24 truncate">
+          {activeProfile?.name}
+        </span>
+        <svg
+          className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 9l-7 7-7-7"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-black/80 backdrop-blur-md rounded-lg border border-white/10 shadow-xl p-2 z-30">
+          <p className="px-2 pb-1 text-[10px] uppercase tracking-wider text-gray-500">
+            Profiles
+          </p>
+          <ul>
+            {profiles.map((profile) => {
+              const isActive = profile.id === activeProfileId
+              return (
+                <li key={profile.id} className="flex items-center gap-1">
+                  <button
+                    onClick={() => {
+                      handleSwitch(profile.id)
+                    }}
+                    className={`flex-1 text-left px-2 py-1.5 rounded-md transition-colors ${
+                      isActive
+                        ? 'bg-purple-500/20 text-white'
+                        : 'text-gray-300 hover:bg-white/5'
+                    }`}
+                  >
+                    <span className="block text-sm truncate">
+                      {profile.name}
+                    </span>
+                    <span className="block text-[10px] text-gray-500">
+                      {TOKEN_STORAGE_LABELS[profile.tokenStorage]}
+                    </span>
+                  </button>
+                  {!isActive && profile.id !== DEFAULT_PROFILE_ID && (
+                    <button
+                      onClick={() => {
+                        removeProfile(profile.id)
+                      }}
+                      className="p-1.5 text-gray-500 hover:text-red-400 transition-colors"
+                      title={`Remove ${profile.name}`}
+                    >
+                      <svg
+                        className="w-3.5 h-3.5"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M6 18L18 6M6 6l12 12"
+                        />
+                      </svg>
+                    </button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+
+          <form
+            onSubmit={handleAdd}
+            className="mt-2 pt-2 border-t border-white/10 space-y-2"
+          >
+            <input
+              value={newName}
+              onChange={(event) => {
+                setNewName(event.target.value)
+              }}
+              placeholder="New profile name"
+              maxLength={32}
+              className="w-full px-2 py-1.5 rounded-md bg-white/5 border border-white/10 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-purple-500/50"
+            />
+            <div className="flex items-center gap-2">
+              <select
+                value={newStorage}
+                onChange={(event) => {
+                  setNewStorage(event.target.value as TokenStorageKind)
+                }}
+                className="flex-1 px-2 py-1.5 rounded-md bg-white/5 border border-white/10 text-xs text-gray-300 focus:outline-none"
+                title="Where this profile's login is kept"
+              >
+                {TOKEN_STORAGE_KINDS.map((kind) => (
+                  <option key={kind} value={kind} className="bg-gray-900">
+                    {TOKEN_STORAGE_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="px-3 py-1.5 rounded-md bg-purple-500/80 text-xs font-medium text-white disabled:opacity-40 transition-opacity"
+              >
+                Add
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
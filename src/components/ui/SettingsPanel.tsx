@@ -1,5 +1,17 @@
+import { useFeatureAccess } from '@/api/hooks/useFeatureAccess'
+import { useDataSourceStore } from '@/stores/dataSourceStore'
 import { useFeatureFlagsStore } from '@/stores/featureFlagsStore'
 import { useUIStore } from '@/stores/uiStore'
+import { LAYOUT_STRATEGIES } from '@/simulation/layoutStrategy'
+import { SIZING_SIGNAL_LABELS, type SizingSignal } from '@/types/domain'
+import { ListeningHistorySettings } from './ListeningHistorySettings'
+
+const SIZING_SIGNALS: SizingSignal[] = [
+  'play_count',
+  'rank',
+  'top_tracks',
+  'popularity',
+]
 
 export function SettingsPanel(): React.JSX.Element | null {
   const showSettings = useFeatureFlagsStore((state) => state.showSettings)
@@ -10,8 +22,41 @@ export function SettingsPanel(): React.JSX.Element | null {
   const toggleNebulas = useFeatureFlagsStore((state) => state.toggleNebulas)
   const showLabels = useFeatureFlagsStore((state) => state.showLabels)
   const toggleLabels = useFeatureFlagsStore((state) => state.toggleLabels)
+  const showRecentOrbit = useFeatureFlagsStore((state) => state.showRecentOrbit)
+  const toggleRecentOrbit = useFeatureFlagsStore(
+    (state) => state.toggleRecentOrbit
+  )
+  const showLibrary = useFeatureFlagsStore((state) => state.showLibrary)
+  const toggleLibrary = useFeatureFlagsStore((state) => state.toggleLibrary)
+  const provider = useDataSourceStore((state) => state.provider)
+  const libraryAccess = useFeatureAccess('library')
+  const showDiscoveryHalo = useFeatureFlagsStore(
+    (state) => state.showDiscoveryHalo
+  )
+  const toggleDiscoveryHalo = useFeatureFlagsStore(
+    (state) => state.toggleDiscoveryHalo
+  )
+  const discoveryScope = useFeatureFlagsStore((state) => state.discoveryScope)
+  const setDiscoveryScope = useFeatureFlagsStore(
+    (state) => state.setDiscoveryScope
+  )
+  const sizingSignal = useFeatureFlagsStore((state) => state.sizingSignal)
+  const setSizingSignal = useFeatureFlagsStore((state) => state.setSizingSignal)
+  const layoutStrategy = useFeatureFlagsStore((state) => state.layoutStrategy)
+  const setLayoutStrategy = useFeatureFlagsStore(
+    (state) => state.setLayoutStrategy
+  )
   const selectedArtistId = useUIStore((state) => state.selection.artistId)
 
+  // Turning the library on asks Spotify for follows and saved tracks first
+  // (a redirect) - the setting is kept, so it applies on return
+  const handleLibraryToggle = (): void => {
+    toggleLibrary()
+    if (!showLibrary && provider.requiresAuth && !libraryAccess.hasAccess) {
+      void libraryAccess.requestAccess()
+    }
+  }
+
   // Hide on mobile when artist panel is open
   const hideOnMobile = selectedArtistId ? 'hidden sm:block' : ''
 
@@ -103,6 +148,143 @@ export function SettingsPanel(): React.JSX.Element | null {
                 />
               </button>
             </label>
+
+            {/* Recent Orbit Toggle */}
+            <label className="flex items-center justify-between cursor-pointer">
+              <div>
+                <span className="text-sm text-gray-300">Recent Orbit</span>
+                <p className="text-xs text-gray-500">
+                  Recently played artists on the edge
+                </p>
+              </div>
+              <button
+                onClick={toggleRecentOrbit}
+                className={`relative w-11 h-6 rounded-full transition-colors ${
+                  showRecentOrbit ? 'bg-purple-600' : 'bg-gray-600'
+                }`}
+              >
+                <span
+                  className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
+                    showRecentOrbit ? 'translate-x-5' : ''
+                  }`}
+                />
+              </button>
+            </label>
+
+            {/* Library Toggle */}
+            <label className="flex items-center justify-between cursor-pointer">
+              <div>
+                <span className="text-sm text-gray-300">Library</span>
+                <p className="text-xs text-gray-500">
+                  Add followed &amp; saved artists
+                </p>
+              </div>
+              <button
+                onClick={handleLibraryToggle}
+                className={`relative w-11 h-6 rounded-full transition-colors ${
+                  showLibrary ? 'bg-purple-600' : 'bg-gray-600'
+                }`}
+              >
+                <span
+                  className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
+                    showLibrary ? 'translate-x-5' : ''
+                  }`}
+                />
+              </button>
+            </label>
+
+            {/* Discovery Halo Toggle */}
+            <label className="flex items-center justify-between cursor-pointer">
+              <div>
+                <span className="text-sm text-gray-300">Discovery Halo</span>
+                <p className="text-xs text-gray-500">
+                  Related artists around planets
+                </p>
+              </div>
+              <button
+                onClick={toggleDiscoveryHalo}
+                className={`relative w-11 h-6 rounded-full transition-colors ${
+                  showDiscoveryHalo ? 'bg-purple-600' : 'bg-gray-600'
+                }`}
+              >
+                <span
+                  className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
+                    showDiscoveryHalo ? 'translate-x-5' : ''
+                  }`}
+                />
+              </button>
+            </label>
+
+            {/* Discovery Halo Scope */}
+            {showDiscoveryHalo && (
+              <div className="flex gap-1 text-xs">
+                {(['selected', 'galaxy'] as const).map((scope) => (
+                  <button
+                    key={scope}
+                    onClick={() => {
+                      setDiscoveryScope(scope)
+                    }}
+                    className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                      discoveryScope === scope
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-white/10 text-gray-400 hover:bg-white/20'
+                    }`}
+                  >
+                    {scope === 'selected' ? 'Selected artist' : 'Whole galaxy'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Planet Size */}
+            <div>
+              <span className="text-sm text-gray-300">Planet Size</span>
+              <p className="text-xs text-gray-500">What makes a planet big</p>
+              <div className="grid grid-cols-2 gap-1 mt-2 text-xs">
+                {SIZING_SIGNALS.map((signal) => (
+                  <button
+                    key={signal}
+                    onClick={() => {
+                      setSizingSignal(signal)
+                    }}
+                    className={`px-2 py-1 rounded-md transition-colors ${
+                      sizingSignal === signal
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-white/10 text-gray-400 hover:bg-white/20'
+                    }`}
+                  >
+                    {SIZING_SIGNAL_LABELS[signal]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Layout */}
+            <div>
+              <span className="text-sm text-gray-300">Layout</span>
+              <p className="text-xs text-gray-500">
+                {LAYOUT_STRATEGIES[layoutStrategy].description}
+              </p>
+              <div className="flex gap-1 mt-2 text-xs">
+                {Object.values(LAYOUT_STRATEGIES).map((strategy) => (
+                  <button
+                    key={strategy.id}
+                    onClick={() => {
+                      setLayoutStrategy(strategy.id)
+                    }}
+                    className={`flex-1 px-2 py-1 rounded-md transition-colors ${
+                      layoutStrategy === strategy.id
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-white/10 text-gray-400 hover:bg-white/20'
+                    }`}
+                  >
+                    {strategy.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <ListeningHistorySettings />
           </div>
         </div>
       )}
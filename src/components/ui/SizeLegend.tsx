@@ -0,0 +1,59 @@
+import {
+  SIZING_SIGNAL_LABELS,
+  type PlanetSizing,
+  type SizingSignal,
+} from '@/types/domain'
+
+/**
+ * Signal value as shown at either end of the legend
+ */
+function formatSignalValue(signal: SizingSignal, value: number): string {
+  switch (signal) {
+    case 'rank':
+      return `#${String(value)}`
+    case 'top_tracks':
+      return `${String(value)} ${value === 1 ? 'track' : 'tracks'}`
+    case 'popularity':
+      return String(value)
+    case 'play_count':
+      return `${value.toLocaleString()} ${value === 1 ? 'play' : 'plays'}`
+  }
+}
+
+interface SizeLegendProps {
+  sizing: PlanetSizing
+}
+
+/**
+ * Explains what planet size means in the current galaxy: the signal and
+ * the values behind the smallest and largest planets
+ */
+export function SizeLegend({ sizing }: SizeLegendProps): React.JSX.Element {
+  const { signal, requested, smallest, largest } = sizing
+
+  return (
+    <div className="px-3 py-2 border-t border-white/10">
+      <p className="text-[10px] uppercase tracking-wider text-gray-500">
+        Size · {SIZING_SIGNAL_LABELS[signal]}
+      </p>
+      <div className="flex items-center gap-2 mt-1">
+        <span className="w-1.5 h-1.5 rounded-full bg-gray-400 shrink-0" />
+        <span className="text-[10px] text-gray-400">
+          {formatSignalValue(signal, smallest)}
+        </span>
+        <span className="flex-1 h-px bg-gradient-to-r from-white/10 to-white/40" />
+        <span className="text-[10px] text-gray-300">
+          {formatSignalValue(signal, largest)}
+        </span>
+        <span className="w-3 h-3 rounded-full bg-white shrink-0" />
+      </div>
+      {requested !== signal && (
+        <p className="mt-1 text-[10px] text-gray-500">
+          {requested === 'play_count'
+            ? 'Import listening history to size by plays'
+            : `No ${SIZING_SIGNAL_LABELS[requested].toLowerCase()} data`}
+        </p>
+      )}
+    </div>
+  )
+}
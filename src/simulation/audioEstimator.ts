@@ -0,0 +1,212 @@
+/**
+ * Genre-based audio estimation
+ * /audio-features is restricted for many apps, so when no measured
+ * features exist we derive priors from the genre families instead
+ */
+
+import type {
+  AudioMetric,
+  AudioProfile,
+  AudioValueSource,
+} from '@/types/domain'
+import { genreFamily, type GenreFamily } from '@/utils/genreTaxonomy'
+
+/**
+ * Audio values without source annotations
+ */
+export type AudioEstimate = Pick<AudioProfile, AudioMetric>
+
+export const AUDIO_METRICS: AudioMetric[] = [
+  'energy',
+  'valence',
+  'danceability',
+  'acousticness',
+  'tempo',
+]
+
+/**
+ * Fallback when neither features nor recognizable genres are available
+ */
+export const NEUTRAL_AUDIO_ESTIMATE: AudioEstimate = {
+  energy: 0.5,
+  valence: 0.5,
+  danceability: 0.5,
+  acousticness: 0.5,
+  tempo: 120,
+}
+
+/**
+ * Typical audio characteristics per family (mean values)
+ */
+export const FAMILY_AUDIO_PRIORS: Record<GenreFamily, AudioEstimate> = {
+  electronic: {
+    energy: 0.8,
+    valence: 0.5,
+    danceability: 0.72,
+    acousticness: 0.05,
+    tempo: 126,
+  },
+  rock: {
+    energy: 0.78,
+    valence: 0.45,
+    danceability: 0.48,
+    acousticness: 0.12,
+    tempo: 128,
+  },
+  pop: {
+    energy: 0.66,
+    valence: 0.6,
+    danceability: 0.68,
+    acousticness: 0.18,
+    tempo: 118,
+  },
+  'hip-hop': {
+    energy: 0.64,
+    valence: 0.5,
+    danceability: 0.76,
+    acousticness: 0.15,
+    tempo: 96,
+  },
+  jazz: {
+    energy: 0.38,
+    valence: 0.52,
+    danceability: 0.55,
+    acousticness: 0.7,
+    tempo: 110,
+  },
+  classical: {
+    energy: 0.18,
+    valence: 0.28,
+    danceability: 0.25,
+    acousticness: 0.92,
+    tempo: 92,
+  },
+  country: {
+    energy: 0.55,
+    valence: 0.58,
+    danceability: 0.56,
+    acousticness: 0.45,
+    tempo: 112,
+  },
+  latin: {
+    energy: 0.74,
+    valence: 0.72,
+    danceability: 0.78,
+    acousticness: 0.2,
+    tempo: 104,
+  },
+  world: {
+    energy: 0.3,
+    valence: 0.35,
+    danceability: 0.35,
+    acousticness: 0.75,
+    tempo: 90,
+  },
+}
+
+/**
+ * Nudges applied on top of the family prior for common genre modifiers
+ * (e.g. "acoustic pop" is calmer than "pop")
+ */
+const GENRE_KEYWORD_ADJUSTMENTS: {
+  keyword: string
+  adjust: Partial<AudioEstimate>
+}[] = [
+  { keyword: 'acoustic', adjust: { energy: -0.2, acousticness: 0.35 } },
+  { keyword: 'ambient', adjust: { energy: -0.35, danceability: -0.25 } },
+  { keyword: 'chill', adjust: { energy: -0.2, tempo: -10 } },
+  { keyword: 'lo-fi', adjust: { energy: -0.2, tempo: -20 } },
+  { keyword: 'dream', adjust: { energy: -0.15, acousticness: 0.1 } },
+  { keyword: 'hard', adjust: { energy: 0.12, valence: -0.08, tempo: 8 } },
+  { keyword: 'death', adjust: { energy: 0.15, valence: -0.2 } },
+  { keyword: 'dance', adjust: { danceability: 0.12, valence: 0.05 } },
+  { keyword: 'trap', adjust: { tempo: 40, valence: -0.1 } },
+]
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+/**
+ * Estimate audio values for a single genre name
+ * @returns null when the genre doesn't belong to a known family
+ */
+export function estimateGenreAudio(genre: string): AudioEstimate | null {
+  const family = genreFamily(genre)
+  if (!family) return null
+
+  const estimate = { ...FAMILY_AUDIO_PRIORS[family] }
+  const normalizedGenre = genre.toLowerCase()
+
+  GENRE_KEYWORD_ADJUSTMENTS.forEach(({ keyword, adjust }) => {
+    if (!normalizedGenre.includes(keyword)) return
+    AUDIO_METRICS.forEach((metric) => {
+      estimate[metric] += adjust[metric] ?? 0
+    })
+  })
+
+  AUDIO_METRICS.forEach((metric) => {
+    estimate[metric] =
+      metric === 'tempo'
+        ? clamp(estimate[metric], 60, 200)
+        : clamp(estimate[metric], 0, 1)
+  })
+
+  return estimate
+}
+
+/**
+ * Average a list of estimates (null when the list is empty)
+ */
+export function averageAudioEstimates(
+  estimates: AudioEstimate[]
+): AudioEstimate | null {
+  if (estimates.length === 0) return null
+
+  const average = { ...NEUTRAL_AUDIO_ESTIMATE }
+  AUDIO_METRICS.forEach((metric) => {
+    average[metric] =
+      estimates.reduce((sum, e) => sum + e[metric], 0) / estimates.length
+  })
+  return average
+}
+
+/**
+ * Estimate audio values from a set of genres (e.g. an artist's genres)
+ * @returns null when none of the genres belong to a known family
+ */
+export function estimateAudioFromGenres(
+  genres: string[]
+): AudioEstimate | null {
+  return averageAudioEstimates(
+    genres.map(estimateGenreAudio).filter((e): e is AudioEstimate => e !== null)
+  )
+}
+
+/**
+ * Attach a source to every value of an estimate
+ */
+export function withAudioSources(
+  values: AudioEstimate,
+  source: AudioValueSource
+): AudioProfile {
+  return {
+    ...values,
+    sources: {
+      energy: source,
+      valence: source,
+      danceability: source,
+      acousticness: source,
+      tempo: source,
+    },
+  }
+}
+
+/**
+ * Whether any value of a profile is estimated rather than measured
+ */
+export function hasEstimatedValues(profile: AudioProfile): boolean {
+  return AUDIO_METRICS.some(
+    (metric) => profile.sources?.[metric] === 'estimated'
+  )
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { applyRepulsion, buildOctree, type Body } from './barnesHut'
+
+function body(x: number, y: number, z: number): Body {
+  return { x, y, z, vx: 0, vy: 0, vz: 0 }
+}
+
+// Deterministic scatter of bodies in a cube
+function scatter(count: number, size: number): Body[] {
+  let seed = 7
+  const next = (): number => {
+    seed = (seed * 16807) % 2147483647
+    return (seed / 2147483647) * size
+  }
+  return Array.from({ length: count }, () => body(next(), next(), next()))
+}
+
+// Pairwise repulsion, the result Barnes-Hut approximates
+function exactVelocities(bodies: Body[], minDistance: number): number[][] {
+  return bodies.map((a) => {
+    const v = [0, 0, 0]
+    bodies.forEach((b) => {
+      if (a === b) return
+      const dx = b.x - a.x
+      const dy = b.y - a.y
+      const dz = b.z - a.z
+      const push =
+        1 / Math.max(dx * dx + dy * dy + dz * dz, minDistance * minDistance)
+      v[0] -= dx * push
+      v[1] -= dy * push
+      v[2] -= dz * push
+    })
+    return v
+  })
+}
+
+describe('applyRepulsion', () => {
+  it('matches the pairwise forces when no cell is approximated', () => {
+    const bodies = scatter(200, 20)
+    const exact = exactVelocities(bodies, 1)
+
+    applyRepulsion(buildOctree(bodies), bodies, 1, 0, 1)
+
+    bodies.forEach((b, i) => {
+      expect(b.vx).toBeCloseTo(exact[i][0], 9)
+      expect(b.vy).toBeCloseTo(exact[i][1], 9)
+      expect(b.vz).toBeCloseTo(exact[i][2], 9)
+    })
+  })
+
+  it('stays close to the pairwise forces at the default angle', () => {
+    const bodies = scatter(1000, 50)
+    const exact = exactVelocities(bodies, 1)
+
+    applyRepulsion(buildOctree(bodies), bodies, 1, 0.9, 1)
+
+    let error = 0
+    let total = 0
+    bodies.forEach((b, i) => {
+      const [ex, ey, ez] = exact[i]
+      error += Math.hypot(b.vx - ex, b.vy - ey, b.vz - ez)
+      total += Math.hypot(ex, ey, ez)
+    })
+    expect(error / total).toBeLessThan(0.05)
+  })
+
+  it('pushes two bodies apart equally', () => {
+    const bodies = [body(0, 0, 0), body(2, 0, 0)]
+    applyRepulsion(buildOctree(bodies), bodies, 4, 0.9, 1)
+
+    expect(bodies[0]).toMatchObject({ vx: -2, vy: 0, vz: 0 })
+    expect(bodies[1]).toMatchObject({ vx: 2, vy: 0, vz: 0 })
+  })
+
+  it('keeps coincident bodies in one leaf', () => {
+    const bodies = [
+      ...Array.from({ length: 5 }, () => body(1, 1, 1)),
+      body(3, 1, 1),
+    ]
+    const tree = buildOctree(bodies)
+    applyRepulsion(tree, bodies, 1, 0.9, 1)
+
+    expect(tree.mass[0]).toBe(6)
+    // The stacked bodies don't push each other, only the one to the side
+    expect(bodies[0]).toMatchObject({ vx: -0.5, vy: 0, vz: 0 })
+    expect(bodies[5].vx).toBeCloseTo(2.5)
+  })
+})
+
+describe('buildOctree', () => {
+  it('reuses and grows the previous arrays', () => {
+    const small = buildOctree(scatter(10, 10))
+    const reused = buildOctree(scatter(10, 10), small)
+    expect(reused).toBe(small)
+
+    const bodies = scatter(500, 10)
+    const grown = buildOctree(bodies, small)
+    expect(grown.mass[0]).toBe(500)
+    expect(grown.massX[0]).toBeCloseTo(
+      bodies.reduce((sum, b) => sum + b.x, 0) / 500
+    )
+  })
+})
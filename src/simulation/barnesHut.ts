@@ -0,0 +1,343 @@
+/**
+ * Barnes-Hut octree for many-body repulsion
+ * A distant group of bodies pushes like one body at its center of mass, so
+ * a repulsion step costs O(n log n) instead of comparing every pair
+ * Cells live in flat typed arrays that are reused between steps
+ */
+
+interface Point3 {
+  x: number
+  y: number
+  z: number
+}
+
+export interface Body extends Point3 {
+  vx: number
+  vy: number
+  vz: number
+}
+
+export interface Octree {
+  cellCount: number
+  // Per cell: center and half size of its cube
+  centerX: Float64Array
+  centerY: Float64Array
+  centerZ: Float64Array
+  half: Float64Array
+  // Per cell: number of bodies and their center of mass
+  mass: Float64Array
+  massX: Float64Array
+  massY: Float64Array
+  massZ: Float64Array
+  // Per cell: index of the first of its 8 children (-1 = leaf) and the first
+  // body of a leaf (-1 = empty)
+  firstChild: Int32Array
+  firstBody: Int32Array
+  // Per body: position when the tree was built, and the next body in the
+  // same leaf (-1 = last)
+  bodyX: Float64Array
+  bodyY: Float64Array
+  bodyZ: Float64Array
+  nextBody: Int32Array
+  // Cells still to visit while applying repulsion
+  stack: Int32Array
+}
+
+// Bodies a leaf holds before it splits - near bodies are summed directly,
+// which is cheaper than walking cells for each of them
+const LEAF_SIZE = 2
+// Cells this deep stop splitting and keep every body they get - only
+// reached by (nearly) coincident bodies
+const MAX_DEPTH = 24
+
+function createOctree(cellCapacity: number, bodyCapacity: number): Octree {
+  return {
+    cellCount: 0,
+    centerX: new Float64Array(cellCapacity),
+    centerY: new Float64Array(cellCapacity),
+    centerZ: new Float64Array(cellCapacity),
+    half: new Float64Array(cellCapacity),
+    mass: new Float64Array(cellCapacity),
+    massX: new Float64Array(cellCapacity),
+    massY: new Float64Array(cellCapacity),
+    massZ: new Float64Array(cellCapacity),
+    firstChild: new Int32Array(cellCapacity),
+    firstBody: new Int32Array(cellCapacity),
+    bodyX: new Float64Array(bodyCapacity),
+    bodyY: new Float64Array(bodyCapacity),
+    bodyZ: new Float64Array(bodyCapacity),
+    nextBody: new Int32Array(bodyCapacity),
+    // A depth-first walk holds at most 7 siblings per level plus one cell
+    stack: new Int32Array(MAX_DEPTH * 7 + 8),
+  }
+}
+
+/**
+ * Double the cell arrays, keeping the cells built so far
+ */
+function growCells(tree: Octree): Octree {
+  const grown = createOctree(tree.centerX.length * 2, tree.nextBody.length)
+  grown.cellCount = tree.cellCount
+  grown.centerX.set(tree.centerX)
+  grown.centerY.set(tree.centerY)
+  grown.centerZ.set(tree.centerZ)
+  grown.half.set(tree.half)
+  grown.firstChild.set(tree.firstChild)
+  grown.firstBody.set(tree.firstBody)
+  grown.mass.set(tree.mass)
+  grown.bodyX.set(tree.bodyX)
+  grown.bodyY.set(tree.bodyY)
+  grown.bodyZ.set(tree.bodyZ)
+  grown.nextBody.set(tree.nextBody)
+  return grown
+}
+
+function addCell(
+  tree: Octree,
+  x: number,
+  y: number,
+  z: number,
+  half: number
+): void {
+  const cell = tree.cellCount++
+  tree.centerX[cell] = x
+  tree.centerY[cell] = y
+  tree.centerZ[cell] = z
+  tree.half[cell] = half
+  tree.firstChild[cell] = -1
+  tree.firstBody[cell] = -1
+  tree.mass[cell] = 0
+}
+
+/**
+ * Child of a cell (0-7) that a body falls into
+ */
+function octant(tree: Octree, cell: number, body: number): number {
+  return (
+    (tree.bodyX[body] >= tree.centerX[cell] ? 1 : 0) |
+    (tree.bodyY[body] >= tree.centerY[cell] ? 2 : 0) |
+    (tree.bodyZ[body] >= tree.centerZ[cell] ? 4 : 0)
+  )
+}
+
+/**
+ * Add a body to a leaf's list
+ */
+function addToLeaf(tree: Octree, cell: number, body: number): void {
+  tree.nextBody[body] = tree.firstBody[cell]
+  tree.firstBody[cell] = body
+  tree.mass[cell]++
+}
+
+/**
+ * Add 8 children to a cell, growing the arrays when they are full
+ * Returns the (possibly new) tree
+ */
+function splitCell(tree: Octree, cell: number): Octree {
+  const grown =
+    tree.cellCount + 8 > tree.centerX.length ? growCells(tree) : tree
+  const quarter = grown.half[cell] / 2
+  grown.firstChild[cell] = grown.cellCount
+  for (let k = 0; k < 8; k++) {
+    addCell(
+      grown,
+      grown.centerX[cell] + (k & 1 ? quarter : -quarter),
+      grown.centerY[cell] + (k & 2 ? quarter : -quarter),
+      grown.centerZ[cell] + (k & 4 ? quarter : -quarter),
+      quarter
+    )
+  }
+  return grown
+}
+
+function insertBody(tree: Octree, body: number): Octree {
+  let cell = 0
+  let depth = 0
+
+  for (;;) {
+    const firstChild = tree.firstChild[cell]
+    if (firstChild >= 0) {
+      cell = firstChild + octant(tree, cell, body)
+      depth++
+      continue
+    }
+
+    if (tree.mass[cell] < LEAF_SIZE || depth >= MAX_DEPTH) {
+      addToLeaf(tree, cell, body)
+      return tree
+    }
+
+    // Full leaf - split it, move its bodies down and look again
+    tree = splitCell(tree, cell)
+    const firstNew = tree.firstChild[cell]
+    for (let b = tree.firstBody[cell]; b >= 0; ) {
+      const next = tree.nextBody[b]
+      addToLeaf(tree, firstNew + octant(tree, cell, b), b)
+      b = next
+    }
+    tree.firstBody[cell] = -1
+  }
+}
+
+/**
+ * Total the bodies of every cell into a mass and center of mass
+ * Children are always added after their parent, so walking the cells
+ * backwards sees every child first
+ */
+function computeMasses(tree: Octree): void {
+  for (let cell = tree.cellCount - 1; cell >= 0; cell--) {
+    let mass = 0
+    let sumX = 0
+    let sumY = 0
+    let sumZ = 0
+
+    const firstChild = tree.firstChild[cell]
+    if (firstChild >= 0) {
+      for (let child = firstChild; child < firstChild + 8; child++) {
+        const childMass = tree.mass[child]
+        mass += childMass
+        sumX += childMass * tree.massX[child]
+        sumY += childMass * tree.massY[child]
+        sumZ += childMass * tree.massZ[child]
+      }
+    } else {
+      for (let b = tree.firstBody[cell]; b >= 0; b = tree.nextBody[b]) {
+        mass++
+        sumX += tree.bodyX[b]
+        sumY += tree.bodyY[b]
+        sumZ += tree.bodyZ[b]
+      }
+    }
+
+    tree.mass[cell] = mass
+    tree.massX[cell] = mass > 0 ? sumX / mass : 0
+    tree.massY[cell] = mass > 0 ? sumY / mass : 0
+    tree.massZ[cell] = mass > 0 ? sumZ / mass : 0
+  }
+}
+
+/**
+ * Build the octree over the bodies' current positions
+ * Pass the previous tree to reuse its arrays
+ */
+export function buildOctree(
+  bodies: readonly Point3[],
+  previous?: Octree
+): Octree {
+  let tree =
+    previous && previous.nextBody.length >= bodies.length
+      ? previous
+      : createOctree(Math.max(bodies.length * 8, 64), bodies.length)
+
+  // Bounding cube of every body
+  let minX = Infinity
+  let minY = Infinity
+  let minZ = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  let maxZ = -Infinity
+  bodies.forEach(({ x, y, z }, index) => {
+    tree.bodyX[index] = x
+    tree.bodyY[index] = y
+    tree.bodyZ[index] = z
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    minZ = Math.min(minZ, z)
+    maxX = Math.max(maxX, x)
+    maxY = Math.max(maxY, y)
+    maxZ = Math.max(maxZ, z)
+  })
+  const half = Math.max(maxX - minX, maxY - minY, maxZ - minZ, 1e-6) / 2
+
+  tree.cellCount = 0
+  addCell(
+    tree,
+    (minX + maxX) / 2 || 0,
+    (minY + maxY) / 2 || 0,
+    (minZ + maxZ) / 2 || 0,
+    // Slightly larger, so bodies on the far faces fall inside
+    half * 1.0001
+  )
+  for (let index = 0; index < bodies.length; index++) {
+    tree = insertBody(tree, index)
+  }
+  computeMasses(tree)
+
+  return tree
+}
+
+/**
+ * Push every body away from every other one, by strength / distance
+ * - Cells seen under an angle below theta (cell width / distance) push as
+ *   one body; a cell containing the body itself is always opened
+ * - Distances are clamped to minDistance to avoid explosive pushes
+ * The tree must have been built from the same bodies
+ */
+export function applyRepulsion(
+  tree: Octree,
+  bodies: Body[],
+  strength: number,
+  theta: number,
+  minDistance: number
+): void {
+  const thetaSq = theta * theta
+  const minDistanceSq = minDistance * minDistance
+  const { stack, bodyX, bodyY, bodyZ } = tree
+
+  bodies.forEach((body, index) => {
+    const x = bodyX[index]
+    const y = bodyY[index]
+    const z = bodyZ[index]
+    let fx = 0
+    let fy = 0
+    let fz = 0
+    let top = 1
+    stack[0] = 0
+
+    while (top > 0) {
+      const cell = stack[--top]
+      const firstChild = tree.firstChild[cell]
+      if (firstChild < 0) {
+        for (let b = tree.firstBody[cell]; b >= 0; b = tree.nextBody[b]) {
+          if (b === index) continue
+          const dx = bodyX[b] - x
+          const dy = bodyY[b] - y
+          const dz = bodyZ[b] - z
+          const push =
+            strength / Math.max(dx * dx + dy * dy + dz * dz, minDistanceSq)
+          fx -= dx * push
+          fy -= dy * push
+          fz -= dz * push
+        }
+        continue
+      }
+
+      const half = tree.half[cell]
+      const dx = tree.massX[cell] - x
+      const dy = tree.massY[cell] - y
+      const dz = tree.massZ[cell] - z
+      const distanceSq = dx * dx + dy * dy + dz * dz
+      const contains =
+        Math.abs(x - tree.centerX[cell]) <= half &&
+        Math.abs(y - tree.centerY[cell]) <= half &&
+        Math.abs(z - tree.centerZ[cell]) <= half
+
+      if (!contains && 4 * half * half < thetaSq * distanceSq) {
+        const push =
+          (strength * tree.mass[cell]) / Math.max(distanceSq, minDistanceSq)
+        fx -= dx * push
+        fy -= dy * push
+        fz -= dz * push
+        continue
+      }
+
+      for (let child = firstChild; child < firstChild + 8; child++) {
+        if (tree.mass[child] > 0) stack[top++] = child
+      }
+    }
+
+    body.vx += fx
+    body.vy += fy
+    body.vz += fz
+  })
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import type { SpotifyArtist } from '@/api/spotify/types'
+import type { GalaxyData, LayoutStrategyId } from '@/types/domain'
+import {
+  extractGenres,
+  transformArtist,
+  transformToGalaxyData,
+} from './dataTransform'
+
+// Deterministic artists with 1-3 genres each, a few broad genres far more
+// common than the long tail (like real listening)
+function makeArtists(count: number): SpotifyArtist[] {
+  let seed = 11
+  const random = (): number => {
+    seed = (seed * 16807) % 2147483647
+    return seed / 2147483647
+  }
+  const genre = (): string =>
+    `genre ${String(Math.floor(random() ** 1.5 * 1000))}`
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: `artist${String(i)}`,
+    uri: `spotify:artist:artist${String(i)}`,
+    name: `Artist ${String(i)}`,
+    genres: Array.from({ length: 1 + Math.floor(random() * 3) }, genre),
+    popularity: Math.floor(random() * 100),
+    images: [],
+    external_urls: { spotify: '' },
+    followers: { total: 0 },
+  }))
+}
+
+// Fastest of a few runs after a warm-up, so a busy machine or the JIT
+// warming up doesn't count against the layout
+function bestTime(run: () => void, runs = 3): number {
+  run()
+  let best = Infinity
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now()
+    run()
+    best = Math.min(best, performance.now() - start)
+  }
+  return best
+}
+
+describe('transformToGalaxyData', () => {
+  describe('with 5,000 artists', () => {
+    const artists = makeArtists(5000)
+    const layouts: LayoutStrategyId[] = ['orbital', 'force', 'arms']
+
+    it.each(layouts)('lays them out with %s in under a second', (layout) => {
+      const transform = (): GalaxyData =>
+        transformToGalaxyData(artists, {
+          useCache: false,
+          layoutStrategy: layout,
+        })
+
+      expect(transform().artists).toHaveLength(5000)
+      expect(bestTime(transform)).toBeLessThan(1000)
+    })
+  })
+})
+
+describe('extractGenres', () => {
+  const artist = (id: string, genres: string[]): SpotifyArtist => ({
+    id,
+    uri: `spotify:artist:${id}`,
+    name: id,
+    genres,
+    popularity: 50,
+    images: [],
+    external_urls: { spotify: '' },
+    followers: { total: 0 },
+  })
+  const genres = extractGenres(
+    [
+      artist('a', ['shoegaze', 'pop punk']),
+      artist('b', ['pop punk']),
+      artist('c', ['bedroom pop']),
+      artist('d', ['xyzzy']),
+    ].map((a) => transformArtist(a))
+  )
+  const byId = new Map(genres.map((g) => [g.id, g]))
+
+  it('groups genres under a family entry', () => {
+    expect(byId.get('family:rock')).toMatchObject({
+      name: 'Rock',
+      childIds: ['shoegaze', 'pop-punk'],
+    })
+    expect(byId.get('shoegaze')?.parentId).toBe('family:rock')
+    expect(byId.get('pop-punk')?.parentId).toBe('family:rock')
+    expect(byId.get('bedroom-pop')?.parentId).toBe('family:pop')
+  })
+
+  it("counts each of a family's artists once", () => {
+    expect(byId.get('family:rock')?.artistCount).toBe(2)
+    expect(byId.get('pop-punk')?.artistCount).toBe(2)
+  })
+
+  it('leaves unrecognized genres without a family', () => {
+    expect(byId.get('xyzzy')?.parentId).toBeUndefined()
+    expect(genres.filter((g) => g.childIds)).toHaveLength(2)
+  })
+})
@@ -9,15 +9,57 @@ import type {
   GalaxyData,
   ArtistConnection,
   AudioProfile,
+  AudioFeatureCoverage,
+  AudioValueSource,
+  ArtistSource,
+  SizingSignal,
+  LayoutStrategyId,
 } from '@/types/domain'
-import { dominantGenreColor } from '@/utils/colorFromGenre'
+import { colorFromGenre, dominantGenreColor } from '@/utils/colorFromGenre'
+import {
+  familyGenreId,
+  GENRE_FAMILIES,
+  GENRE_FAMILY_LABELS,
+  genreFamily,
+  type GenreFamily,
+} from '@/utils/genreTaxonomy'
 import {
-  runSimulation,
   nodesToPositions,
+  calculateRecentOrbitPositions,
+  type NodeMood,
   type SimulationNode,
   type SimulationLink,
 } from './forceSimulation'
 import { getCachedPositions, setCachedPositions } from './positionCache'
+import {
+  canLayoutIncrementally,
+  runIncrementalLayout,
+} from './incrementalLayout'
+import { LAYOUT_STRATEGIES } from './layoutStrategy'
+import {
+  isWithinRecentWindow,
+  RECENT_ORBIT_WINDOW_DAYS,
+  type ArtistPlaySummary,
+} from './recentPlays'
+import {
+  matchArtistListening,
+  type ArtistListening,
+  type ListeningStats,
+} from './listeningHistory'
+import {
+  applyPlanetSizing,
+  countTracksByArtist,
+  logScale,
+  popularityToSize,
+} from './planetSizing'
+import {
+  averageAudioEstimates,
+  estimateAudioFromGenres,
+  estimateGenreAudio,
+  withAudioSources,
+  NEUTRAL_AUDIO_ESTIMATE,
+  type AudioEstimate,
+} from './audioEstimator'
 import type { TimeRange } from '@/types/domain'
 
 /**
@@ -29,11 +71,16 @@ export interface ArtistAudioFeatures {
   danceability: number
   acousticness: number
   tempo: number
+  /** Tracks that contributed audio features */
   trackCount: number
+  /** All of the artist's tracks, including ones without audio features */
+  totalTrackCount: number
 }
 
 /**
  * Build a map of artist ID -> aggregated audio features from tracks
+ * Tracks without features still count towards totalTrackCount, so
+ * consumers can tell partially covered artists apart
  */
 export function buildArtistAudioMap(
   tracks: SpotifyTrack[],
@@ -47,6 +94,9 @@ export function buildArtistAudioMap(
     featureMap.set(feature.id, feature)
   })
 
+  // Count every track per artist, with or without features
+  const totalTracks = countTracksByArtist(tracks)
+
   // Iterate through tracks and aggregate features by artist
   tracks.forEach((track) => {
     const features = featureMap.get(track.id)
@@ -70,6 +120,7 @@ export function buildArtistAudioMap(
           acousticness: features.acousticness,
           tempo: features.tempo,
           trackCount: 1,
+          totalTrackCount: totalTracks.get(artist.id) ?? 1,
         })
       }
     })
@@ -89,20 +140,42 @@ export function buildArtistAudioMap(
   return artistMap
 }
 
+/**
+ * Report how many tracks have audio features
+ */
+export function calculateAudioCoverage(
+  tracks: SpotifyTrack[],
+  audioFeatures: SpotifyAudioFeatures[]
+): AudioFeatureCoverage {
+  const featureIds = new Set(audioFeatures.map((f) => f.id))
+  const trackIds = Array.from(new Set(tracks.map((t) => t.id)))
+  const missingTrackIds = trackIds.filter((id) => !featureIds.has(id))
+  const tracksWithFeatures = trackIds.length - missingTrackIds.length
+
+  return {
+    totalTracks: trackIds.length,
+    tracksWithFeatures,
+    missingTrackIds,
+    ratio: trackIds.length > 0 ? tracksWithFeatures / trackIds.length : 1,
+  }
+}
+
 /**
  * Calculate overall audio profile from all audio features
+ * Falls back to genre-based estimates (averaged per artist) when no
+ * measured features are available
  */
 export function calculateAudioProfile(
-  audioFeatures: SpotifyAudioFeatures[]
+  audioFeatures: SpotifyAudioFeatures[],
+  artists: Pick<GalaxyArtist, 'genres'>[] = []
 ): AudioProfile {
   if (audioFeatures.length === 0) {
-    return {
-      energy: 0.5,
-      valence: 0.5,
-      danceability: 0.5,
-      acousticness: 0.5,
-      tempo: 120,
-    }
+    const estimate = averageAudioEstimates(
+      artists
+        .map((artist) => estimateAudioFromGenres(artist.genres))
+        .filter((e): e is AudioEstimate => e !== null)
+    )
+    return withAudioSources(estimate ?? NEUTRAL_AUDIO_ESTIMATE, 'estimated')
   }
 
   const totals = audioFeatures.reduce(
@@ -117,114 +190,142 @@ export function calculateAudioProfile(
   )
 
   const count = audioFeatures.length
-  return {
-    energy: totals.energy / count,
-    valence: totals.valence / count,
-    danceability: totals.danceability / count,
-    acousticness: totals.acousticness / count,
-    tempo: totals.tempo / count,
-  }
+  return withAudioSources(
+    {
+      energy: totals.energy / count,
+      valence: totals.valence / count,
+      danceability: totals.danceability / count,
+      acousticness: totals.acousticness / count,
+      tempo: totals.tempo / count,
+    },
+    'measured'
+  )
 }
 
 /**
- * Planet size categories - small, medium, large
- * Randomly assigned for visual variety
- */
-const PLANET_SIZES = {
-  sm: 0.4,
-  md: 0.6,
-  lg: 0.9,
-} as const
-
-/**
- * Seeded random number generator for consistent sizes per artist
+ * Transform Spotify popularity to brightness (0.4-1.0)
  */
-function seededRandom(seed: string): number {
-  let hash = 0
-  for (let i = 0; i < seed.length; i++) {
-    const char = seed.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash
-  }
-  return Math.abs(hash % 1000) / 1000
+function popularityToBrightness(popularity: number): number {
+  const minBrightness = 0.4
+  const maxBrightness = 1.0
+  return minBrightness + (popularity / 100) * (maxBrightness - minBrightness)
 }
 
 /**
- * Get planet size based on artist ID (deterministic random assignment)
- * Uses 3 discrete sizes: sm, md, lg
+ * Transform listening (time or plays) from listening history to brightness
+ * (0.4-1.0)
  */
-function popularityToSize(_popularity: number, artistId: string = ''): number {
-  const random = seededRandom(artistId)
-  if (random < 0.33) return PLANET_SIZES.sm
-  if (random < 0.66) return PLANET_SIZES.md
-  return PLANET_SIZES.lg
+function listeningToBrightness(value: number, maxValue: number): number {
+  const minBrightness = 0.4
+  const maxBrightness = 1.0
+  return (
+    minBrightness + logScale(value, maxValue) * (maxBrightness - minBrightness)
+  )
 }
 
 /**
- * Transform Spotify popularity to brightness (0.4-1.0)
+ * Mood of an artist for the mood layout: measured from their tracks, else
+ * estimated from their genres
  */
-function popularityToBrightness(popularity: number): number {
-  const minBrightness = 0.4
-  const maxBrightness = 1.0
-  return minBrightness + (popularity / 100) * (maxBrightness - minBrightness)
+function artistMood(
+  artist: SpotifyArtist,
+  audio: ArtistAudioFeatures | undefined
+): NodeMood | undefined {
+  if (audio && audio.trackCount > 0) {
+    const { valence, energy, acousticness } = audio
+    return { valence, energy, acousticness, source: 'measured' }
+  }
+  const estimate = estimateAudioFromGenres(artist.genres)
+  if (!estimate) return undefined
+  const { valence, energy, acousticness } = estimate
+  return { valence, energy, acousticness, source: 'estimated' }
 }
 
 /**
  * Create simulation nodes from Spotify artists
  */
-function createSimulationNodes(artists: SpotifyArtist[]): SimulationNode[] {
-  return artists.map((artist) => ({
-    id: artist.id,
-    genres: artist.genres,
-    popularity: artist.popularity,
-    cluster: 0, // Will be assigned by simulation
-  }))
+function createSimulationNodes(
+  artists: SpotifyArtist[],
+  artistAudioMap?: Map<string, ArtistAudioFeatures>
+): SimulationNode[] {
+  return artists.map((artist) => {
+    const mood = artistMood(artist, artistAudioMap?.get(artist.id))
+    return {
+      id: artist.id,
+      genres: artist.genres,
+      popularity: artist.popularity,
+      cluster: 0, // Will be assigned by simulation
+      ...(mood && { mood }),
+    }
+  })
 }
 
 /**
- * Create simulation links from artist connections
+ * Connect artists that share genres
+ * An inverted genre index means only artists sharing a genre are compared,
+ * instead of every pair
  */
-function createSimulationLinks(artists: SpotifyArtist[]): {
-  links: SimulationLink[]
-  connections: ArtistConnection[]
-} {
+function createArtistConnections(artists: SpotifyArtist[]): ArtistConnection[] {
   const connections: ArtistConnection[] = []
-  const links: SimulationLink[] = []
+
+  const artistGenres = artists.map((artist) => new Set(artist.genres))
+
+  // Genre -> indices of the artists tagged with it (ascending)
+  const artistsByGenre = new Map<string, number[]>()
+  artistGenres.forEach((genres, index) => {
+    genres.forEach((genre) => {
+      const genreArtists = artistsByGenre.get(genre)
+      if (genreArtists) {
+        genreArtists.push(index)
+      } else {
+        artistsByGenre.set(genre, [index])
+      }
+    })
+  })
+
+  // Shared genre counts with the current artist, reset after each one
+  const sharedCounts = new Array<number>(artists.length).fill(0)
 
   for (let i = 0; i < artists.length; i++) {
-    for (let j = i + 1; j < artists.length; j++) {
-      const artist1 = artists[i]
-      const artist2 = artists[j]
+    const artist1 = artists[i]
+    const candidates: number[] = []
+
+    // Count shared genres with every later artist
+    artistGenres[i].forEach((genre) => {
+      const genreArtists = artistsByGenre.get(genre) ?? []
+      for (let k = genreArtists.length - 1; k >= 0; k--) {
+        const j = genreArtists[k]
+        if (j <= i) break
+        if (sharedCounts[j] === 0) candidates.push(j)
+        sharedCounts[j]++
+      }
+    })
 
-      // Count shared genres
-      const sharedGenres = artist1.genres.filter((g) =>
-        artist2.genres.includes(g)
-      )
+    // Same pair order as comparing every artist with every later one
+    candidates.sort((a, b) => a - b)
 
-      if (sharedGenres.length > 0) {
-        // Calculate connection strength based on shared genres ratio
-        const totalGenres = new Set([...artist1.genres, ...artist2.genres]).size
-        const strength = sharedGenres.length / totalGenres
-
-        // Only include meaningful connections (>15% overlap for more connections)
-        if (strength > 0.15) {
-          connections.push({
-            source: artist1.id,
-            target: artist2.id,
-            strength,
-          })
-
-          links.push({
-            source: artist1.id,
-            target: artist2.id,
-            strength,
-          })
-        }
+    candidates.forEach((j) => {
+      const artist2 = artists[j]
+      const sharedGenres = sharedCounts[j]
+      sharedCounts[j] = 0
+
+      // Calculate connection strength based on shared genres ratio
+      const totalGenres =
+        artistGenres[i].size + artistGenres[j].size - sharedGenres
+      const strength = sharedGenres / totalGenres
+
+      // Only include meaningful connections (>15% overlap for more connections)
+      if (strength > 0.15) {
+        connections.push({
+          source: artist1.id,
+          target: artist2.id,
+          strength,
+        })
       }
-    }
+    })
   }
 
-  return { links, connections }
+  return connections
 }
 
 /**
@@ -257,7 +358,7 @@ export function transformArtist(
     spotifyUrl: artist.external_urls.spotify,
     followers: artist.followers.total,
     position,
-    size: popularityToSize(artist.popularity, artist.id),
+    size: popularityToSize(artist.popularity),
     color: dominantGenreColor(artist.genres),
     brightness: popularityToBrightness(artist.popularity),
   }
@@ -276,8 +377,167 @@ export function transformArtists(
   })
 }
 
+/**
+ * Merge top artists with followed and library artists
+ * Top artists keep their rank order; each artist is tagged with the first
+ * population it appears in (top > followed > library)
+ */
+export function mergeArtistPopulations(
+  topArtists: SpotifyArtist[],
+  followedArtists: SpotifyArtist[] = [],
+  libraryArtists: SpotifyArtist[] = []
+): { artists: SpotifyArtist[]; sources: Map<string, ArtistSource> } {
+  const artists: SpotifyArtist[] = []
+  const sources = new Map<string, ArtistSource>()
+
+  const add = (population: SpotifyArtist[], source: ArtistSource): void => {
+    population.forEach((artist) => {
+      if (sources.has(artist.id)) return
+      sources.set(artist.id, source)
+      artists.push(artist)
+    })
+  }
+
+  add(topArtists, 'top')
+  add(followedArtists, 'followed')
+  add(libraryArtists, 'library')
+
+  return { artists, sources }
+}
+
+/**
+ * Stamp recently played info onto an artist
+ */
+function applyRecentPlays(
+  artist: GalaxyArtist,
+  summary: ArtistPlaySummary | undefined
+): GalaxyArtist {
+  if (!summary) return artist
+  return {
+    ...artist,
+    lastPlayedAt: summary.lastPlayedAt,
+    recentPlayCount: summary.playCount,
+  }
+}
+
+/**
+ * Light an artist by imported listening history (size is left to the
+ * sizing signal)
+ * Artists missing from the history get the dimmest planet
+ * Scrobbles carry no listening time, so such histories light planets by
+ * play count instead
+ */
+function applyListeningHistory(
+  artist: GalaxyArtist,
+  listening: ArtistListening | undefined,
+  maxima: { playCount: number; msPlayed: number }
+): GalaxyArtist {
+  const playCount = listening?.playCount ?? 0
+  const msPlayed = listening?.msPlayed ?? 0
+  const hasListeningTime = maxima.msPlayed > 0
+  return {
+    ...artist,
+    brightness: hasListeningTime
+      ? listeningToBrightness(msPlayed, maxima.msPlayed)
+      : listeningToBrightness(playCount, maxima.playCount),
+    historyPlayCount: playCount,
+    ...(hasListeningTime && { historyMinutes: Math.round(msPlayed / 60000) }),
+  }
+}
+
+/**
+ * Select recently played artists that aren't in the top lists,
+ * ordered by most recent play
+ */
+function selectRecentOrbitArtists(
+  topArtistIds: Set<string>,
+  recentArtists: SpotifyArtist[],
+  playMap: Map<string, ArtistPlaySummary>,
+  windowDays: number
+): SpotifyArtist[] {
+  return recentArtists
+    .filter((artist) => {
+      const summary = playMap.get(artist.id)
+      return (
+        !topArtistIds.has(artist.id) &&
+        summary !== undefined &&
+        isWithinRecentWindow(summary, windowDays)
+      )
+    })
+    .sort((a, b) => {
+      const aPlayed = playMap.get(a.id)?.lastPlayedAt ?? ''
+      const bPlayed = playMap.get(b.id)?.lastPlayedAt ?? ''
+      return bPlayed.localeCompare(aPlayed)
+    })
+}
+
+/**
+ * Aggregate a group of artists into a genre entry
+ * Falls back to audio estimated from `estimateName` without measured
+ * features
+ */
+function aggregateGenre(
+  id: string,
+  name: string,
+  color: string,
+  artists: GalaxyArtist[],
+  artistAudioMap: Map<string, ArtistAudioFeatures> | undefined,
+  estimateName: string
+): GalaxyGenre {
+  // Calculate centroid position
+  const positions = artists.map((a) => a.position)
+  const centroid: [number, number, number] = [
+    positions.reduce((sum, p) => sum + p[0], 0) / positions.length,
+    positions.reduce((sum, p) => sum + p[1], 0) / positions.length,
+    positions.reduce((sum, p) => sum + p[2], 0) / positions.length,
+  ]
+
+  // Calculate average energy and valence from artist audio features
+  let avgEnergy = 0.5
+  let avgValence = 0.5
+  let audioSource: AudioValueSource = 'estimated'
+
+  if (artistAudioMap && artistAudioMap.size > 0) {
+    const artistsWithAudio = artists
+      .map((a) => artistAudioMap.get(a.id))
+      .filter((f): f is ArtistAudioFeatures => f !== undefined)
+
+    if (artistsWithAudio.length > 0) {
+      avgEnergy =
+        artistsWithAudio.reduce((sum, f) => sum + f.energy, 0) /
+        artistsWithAudio.length
+      avgValence =
+        artistsWithAudio.reduce((sum, f) => sum + f.valence, 0) /
+        artistsWithAudio.length
+      audioSource = 'measured'
+    }
+  }
+
+  // No measured features - estimate from the genre name itself
+  if (audioSource === 'estimated') {
+    const estimate = estimateGenreAudio(estimateName)
+    if (estimate) {
+      avgEnergy = estimate.energy
+      avgValence = estimate.valence
+    }
+  }
+
+  return {
+    id,
+    name,
+    color,
+    position: centroid,
+    artistCount: artists.length,
+    avgEnergy,
+    avgValence,
+    audioSource,
+  }
+}
+
 /**
  * Extract and aggregate genres from artists
+ * Genres that belong to a known family get a parent entry for the family,
+ * which lists them as children and counts each of their artists once
  */
 export function extractGenres(
   artists: GalaxyArtist[],
@@ -300,45 +560,56 @@ export function extractGenres(
     })
   })
 
-  // Transform to GalaxyGenre array
-  return Array.from(genreMap.entries()).map(([name, data]) => {
-    // Calculate centroid position
-    const positions = data.artists.map((a) => a.position)
-    const centroid: [number, number, number] = [
-      positions.reduce((sum, p) => sum + p[0], 0) / positions.length,
-      positions.reduce((sum, p) => sum + p[1], 0) / positions.length,
-      positions.reduce((sum, p) => sum + p[2], 0) / positions.length,
-    ]
-
-    // Calculate average energy and valence from artist audio features
-    let avgEnergy = 0.5
-    let avgValence = 0.5
-
-    if (artistAudioMap && artistAudioMap.size > 0) {
-      const artistsWithAudio = data.artists
-        .map((a) => artistAudioMap.get(a.id))
-        .filter((f): f is ArtistAudioFeatures => f !== undefined)
-
-      if (artistsWithAudio.length > 0) {
-        avgEnergy =
-          artistsWithAudio.reduce((sum, f) => sum + f.energy, 0) /
-          artistsWithAudio.length
-        avgValence =
-          artistsWithAudio.reduce((sum, f) => sum + f.valence, 0) /
-          artistsWithAudio.length
-      }
-    }
+  // Group genres by family
+  const families = new Map<
+    GenreFamily,
+    { childIds: string[]; artists: Set<GalaxyArtist> }
+  >()
 
-    return {
-      id: name.toLowerCase().replace(/\s+/g, '-'),
+  // Transform to GalaxyGenre array
+  const genres = Array.from(genreMap.entries()).map(([name, data]) => {
+    const genre = aggregateGenre(
+      name.toLowerCase().replace(/\s+/g, '-'),
       name,
-      color: data.color,
-      position: centroid,
-      artistCount: data.artists.length,
-      avgEnergy,
-      avgValence,
+      data.color,
+      data.artists,
+      artistAudioMap,
+      name
+    )
+
+    const family = genreFamily(name)
+    if (!family) return genre
+
+    const familyGroup = families.get(family) ?? {
+      childIds: [],
+      artists: new Set<GalaxyArtist>(),
     }
+    families.set(family, familyGroup)
+    familyGroup.childIds.push(genre.id)
+    data.artists.forEach((artist) => familyGroup.artists.add(artist))
+
+    return { ...genre, parentId: familyGenreId(family) }
   })
+
+  const familyGenres = Array.from(families.entries()).map(
+    ([family, { childIds, artists: familyArtists }]) => {
+      // The family's first keyword is its core genre (e.g. "rock")
+      const coreGenre = GENRE_FAMILIES[family][0]
+      return {
+        ...aggregateGenre(
+          familyGenreId(family),
+          GENRE_FAMILY_LABELS[family],
+          colorFromGenre(coreGenre),
+          Array.from(familyArtists),
+          artistAudioMap,
+          coreGenre
+        ),
+        childIds,
+      }
+    }
+  )
+
+  return [...familyGenres, ...genres]
 }
 
 /**
@@ -355,11 +626,41 @@ export interface TransformOptions {
   simulationIterations?: number
   /** Whether to use cached positions if available (default: true) */
   useCache?: boolean
+  /** Followed artists to merge into the galaxy (tagged source: 'followed') */
+  followedArtists?: SpotifyArtist[]
+  /** Artists from saved tracks to merge in (tagged source: 'library') */
+  libraryArtists?: SpotifyArtist[]
+  /** Recently played history aggregated per artist */
+  recentPlays?: ArtistPlaySummary[]
+  /** Full artist objects for recently played artists */
+  recentArtists?: SpotifyArtist[]
+  /** Only plays within this many days join the recent orbit (default: 7) */
+  recentWindowDays?: number
+  /**
+   * Imported listening history - when it matches any artist, brightness
+   * follows real listening time and play counts can size planets
+   */
+  listeningStats?: ListeningStats | null
+  /**
+   * Signal that sizes planets (default: play_count, which falls back to
+   * top artist rank without imported history)
+   */
+  sizingSignal?: SizingSignal
+  /** Layout that positions artists (default: orbital) */
+  layoutStrategy?: LayoutStrategyId
+  /**
+   * Layout positions the caller already has (e.g. read from the position
+   * cache outside a worker), used instead of the cache lookup - artists
+   * missing from them are laid out incrementally
+   */
+  positions?: Map<string, [number, number, number]> | null
+  /** Called with the pipeline's progress (0-1) as its stages complete */
+  onProgress?: (progress: number) => void
 }
 
 /**
  * Full transformation pipeline: SpotifyArtist[] -> GalaxyData
- * Uses D3 force simulation for artist positioning with caching
+ * Positions artists with the selected layout strategy, with caching
  */
 export function transformToGalaxyData(
   spotifyArtists: SpotifyArtist[],
@@ -372,6 +673,16 @@ export function transformToGalaxyData(
     galaxyRadius = 35,
     simulationIterations = 300,
     useCache = true,
+    followedArtists = [],
+    libraryArtists = [],
+    recentPlays = [],
+    recentArtists = [],
+    recentWindowDays = RECENT_ORBIT_WINDOW_DAYS,
+    listeningStats = null,
+    sizingSignal = 'play_count',
+    layoutStrategy = 'orbital',
+    positions = null,
+    onProgress,
   } = options
 
   // Build artist -> audio features map from tracks
@@ -380,52 +691,139 @@ export function transformToGalaxyData(
       ? buildArtistAudioMap(tracks, audioFeatures)
       : undefined
 
-  // Get artist IDs for cache lookup
-  const artistIds = spotifyArtists.map((a) => a.id)
-
-  // Try to get cached positions
-  let positionMap: Map<string, [number, number, number]> | null = null
+  // Merge followed/library artists into the simulated population
+  const population = mergeArtistPopulations(
+    spotifyArtists,
+    followedArtists,
+    libraryArtists
+  )
+  const galaxyArtists = population.artists
+  onProgress?.(0.1)
 
-  if (useCache) {
-    positionMap = getCachedPositions(timeRange, artistIds)
-  }
+  // Get artist IDs for cache lookup
+  const artistIds = galaxyArtists.map((a) => a.id)
+
+  const layout = LAYOUT_STRATEGIES[layoutStrategy]
+  const cachePositions = useCache && layout.cached
+
+  // Recently played artists outside the top lists orbit the galaxy edge
+  const playMap = new Map(recentPlays.map((p) => [p.artistId, p]))
+  const recentOrbitArtists = selectRecentOrbitArtists(
+    new Set(artistIds),
+    recentArtists,
+    playMap,
+    recentWindowDays
+  )
+  const recentOrbitIds = new Set(recentOrbitArtists.map((a) => a.id))
+
+  // Generate connections (always needed, not cached) - the layout only uses
+  // the links between galaxy artists
+  const connections = createArtistConnections([
+    ...galaxyArtists,
+    ...recentOrbitArtists,
+  ])
+  onProgress?.(0.3)
+
+  // Positions passed in, else the cached layout of this time range
+  const knownPositions =
+    positions ??
+    (cachePositions ? getCachedPositions(timeRange, layoutStrategy) : null)
+
+  // Reuse them as they are if every artist already has a position
+  let positionMap = artistIds.every((id) => knownPositions?.has(id))
+    ? knownPositions
+    : null
 
-  // Run simulation if no cache hit
   if (!positionMap) {
-    // Create simulation nodes and links
-    const nodes = createSimulationNodes(spotifyArtists)
-    const { links } = createSimulationLinks(spotifyArtists)
-
-    // Run the D3 force simulation
-    const simulatedNodes = runSimulation(nodes, links, {
+    const nodes = createSimulationNodes(galaxyArtists, artistAudioMap)
+    const links: SimulationLink[] = connections.filter(
+      ({ source, target }) =>
+        !recentOrbitIds.has(source) && !recentOrbitIds.has(target)
+    )
+    const config = {
       radius: galaxyRadius,
       iterations: simulationIterations,
       use3D: true,
-    })
+    }
+
+    // Keep familiar planets in place and only add the newcomers, unless
+    // most of the galaxy is new
+    const simulatedNodes =
+      knownPositions && canLayoutIncrementally(artistIds, knownPositions)
+        ? runIncrementalLayout(nodes, links, knownPositions, layout.run, config)
+        : layout.run(nodes, links, config)
 
     // Convert simulation results to position map
     positionMap = nodesToPositions(simulatedNodes)
 
     // Cache the positions
-    if (useCache) {
-      setCachedPositions(timeRange, artistIds, positionMap)
+    if (cachePositions) {
+      setCachedPositions(timeRange, layoutStrategy, positionMap)
     }
   }
+  onProgress?.(0.7)
 
-  // Generate connections (always needed, not cached)
-  const { connections } = createSimulationLinks(spotifyArtists)
+  const recentPositions = calculateRecentOrbitPositions(
+    recentOrbitArtists.map((a) => a.id),
+    galaxyRadius + 10
+  )
 
   // Transform artists with computed positions
-  const artists = transformArtists(spotifyArtists, positionMap)
+  const transformed = [
+    ...transformArtists(galaxyArtists, positionMap).map((artist) => ({
+      ...artist,
+      source: population.sources.get(artist.id) ?? 'top',
+    })),
+    ...transformArtists(recentOrbitArtists, recentPositions).map((artist) => ({
+      ...artist,
+      isRecentOrbit: true,
+    })),
+  ].map((artist) => applyRecentPlays(artist, playMap.get(artist.id)))
+
+  // Real listening replaces popularity-based brightness when the history
+  // matches
+  const listeningMap = listeningStats
+    ? matchArtistListening(transformed, listeningStats)
+    : new Map<string, ArtistListening>()
+  const matchedListening = Array.from(listeningMap.values())
+  const listeningMaxima = matchedListening.reduce(
+    (max, l) => ({
+      playCount: Math.max(max.playCount, l.playCount),
+      msPlayed: Math.max(max.msPlayed, l.msPlayed),
+    }),
+    { playCount: 0, msPlayed: 0 }
+  )
+  const litArtists =
+    listeningMap.size > 0
+      ? transformed.map((artist) =>
+          applyListeningHistory(
+            artist,
+            listeningMap.get(artist.id),
+            listeningMaxima
+          )
+        )
+      : transformed
+
+  // Size planets by the configured listening signal
+  const { artists, sizing } = applyPlanetSizing(litArtists, sizingSignal, {
+    topArtistRanks: new Map(spotifyArtists.map((a, index) => [a.id, index])),
+    topTrackCounts: countTracksByArtist(tracks),
+    listening: listeningMap,
+  })
   const genres = extractGenres(artists, artistAudioMap)
 
   // Calculate overall audio profile
-  const audioProfile = calculateAudioProfile(audioFeatures)
+  const audioProfile = calculateAudioProfile(audioFeatures, artists)
+  const audioCoverage = calculateAudioCoverage(tracks, audioFeatures)
+  onProgress?.(1)
 
   return {
     artists,
     genres,
     connections,
     audioProfile,
+    audioCoverage,
+    sizing,
+    layout: { strategy: layoutStrategy, radius: galaxyRadius },
   }
 }
@@ -0,0 +1,79 @@
+import type { SpotifyArtist } from '@/api/spotify/types'
+import type { GalaxyArtist } from '@/types/domain'
+import { transformArtist } from './dataTransform'
+
+/**
+ * Maximum satellites placed around a single source planet
+ */
+export const DISCOVERY_MAX_PER_SOURCE = 6
+
+/**
+ * Number of top artists used as sources when the halo covers the galaxy
+ */
+export const DISCOVERY_GALAXY_SOURCES = 10
+
+// Satellites stay small so they never compete with real planets
+const SATELLITE_SIZE = 0.25
+const SATELLITE_BRIGHTNESS = 0.35
+// Gap between the source planet's surface and the satellite shell
+const SATELLITE_ORBIT_GAP = 1.6
+
+/**
+ * Position on a small Fibonacci sphere around the source planet
+ */
+function satellitePosition(
+  source: GalaxyArtist,
+  index: number,
+  count: number
+): [number, number, number] {
+  const radius = source.size + SATELLITE_ORBIT_GAP
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5))
+  const t = count > 1 ? index / (count - 1) : 0.5
+  const theta = Math.acos(1 - 2 * t)
+  const phi = index * goldenAngle
+
+  return [
+    source.position[0] + radius * Math.sin(theta) * Math.cos(phi),
+    source.position[1] + radius * Math.cos(theta),
+    source.position[2] + radius * Math.sin(theta) * Math.sin(phi),
+  ]
+}
+
+/**
+ * Build discovery satellites from related artists
+ * Artists already in the galaxy are skipped, and each related artist is
+ * attached to the first source that lists it
+ */
+export function buildDiscoveryHalo(
+  galaxyArtists: GalaxyArtist[],
+  relatedBySource: Record<string, SpotifyArtist[]>,
+  maxPerSource: number = DISCOVERY_MAX_PER_SOURCE
+): GalaxyArtist[] {
+  const sources = new Map(galaxyArtists.map((a) => [a.id, a]))
+  const known = new Set(sources.keys())
+  const halo: GalaxyArtist[] = []
+
+  Object.entries(relatedBySource).forEach(([sourceId, related]) => {
+    const source = sources.get(sourceId)
+    if (!source) return
+
+    const satellites = related
+      .filter((artist) => !known.has(artist.id))
+      .slice(0, maxPerSource)
+
+    satellites.forEach((artist, index) => {
+      known.add(artist.id)
+      halo.push({
+        ...transformArtist(
+          artist,
+          satellitePosition(source, index, satellites.length)
+        ),
+        size: SATELLITE_SIZE,
+        brightness: SATELLITE_BRIGHTNESS,
+        discoveredFrom: sourceId,
+      })
+    })
+  })
+
+  return halo
+}
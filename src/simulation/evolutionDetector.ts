@@ -14,41 +14,52 @@ export function detectEvolution(
   }
 
   // Create lookup maps for previous artists
-  const previousArtistMap = new Map<string, { index: number; artist: GalaxyArtist }>()
+  const previousArtistMap = new Map<
+    string,
+    { index: number; artist: GalaxyArtist }
+  >()
   previousData.artists.forEach((artist, index) => {
     previousArtistMap.set(artist.id, { index, artist })
   })
 
   // Track artists with evolution status
-  const artistsWithEvolution: GalaxyArtist[] = newData.artists.map((artist, newIndex) => {
-    const previous = previousArtistMap.get(artist.id)
+  const artistsWithEvolution: GalaxyArtist[] = newData.artists.map(
+    (artist, newIndex) => {
+      // Only top artists are ranked; recent orbit and library artists have
+      // no evolution
+      if (artist.isRecentOrbit || (artist.source && artist.source !== 'top')) {
+        return artist
+      }
 
-    let evolutionStatus: EvolutionStatus = 'stable'
-    let rankChange = 0
+      const previous = previousArtistMap.get(artist.id)
 
-    if (!previous) {
-      // Artist is new (not in previous data)
-      evolutionStatus = 'new'
-    } else {
-      // Artist exists in both - check for rank changes
-      const oldIndex = previous.index
-      rankChange = oldIndex - newIndex // Positive = moved up (lower index = higher rank)
+      let evolutionStatus: EvolutionStatus = 'stable'
+      let rankChange = 0
 
-      if (rankChange >= 5) {
-        evolutionStatus = 'rising'
-      } else if (rankChange <= -5) {
-        evolutionStatus = 'falling'
+      if (!previous) {
+        // Artist is new (not in previous data)
+        evolutionStatus = 'new'
       } else {
-        evolutionStatus = 'stable'
+        // Artist exists in both - check for rank changes
+        const oldIndex = previous.index
+        rankChange = oldIndex - newIndex // Positive = moved up (lower index = higher rank)
+
+        if (rankChange >= 5) {
+          evolutionStatus = 'rising'
+        } else if (rankChange <= -5) {
+          evolutionStatus = 'falling'
+        } else {
+          evolutionStatus = 'stable'
+        }
       }
-    }
 
-    return {
-      ...artist,
-      evolutionStatus,
-      rankChange,
+      return {
+        ...artist,
+        evolutionStatus,
+        rankChange,
+      }
     }
-  })
+  )
 
   // Note: We could also track "fading" artists (in previous but not in new)
   // but those need special handling since they're not in the new data set.
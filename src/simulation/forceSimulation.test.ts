@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_CONFIG,
+  runForceLayout,
+  type SimulationLink,
+  type SimulationNode,
+} from './forceSimulation'
+
+// Artists spread over a few genres, each linked to the previous artist of
+// its genre
+function galaxy(count: number): {
+  nodes: SimulationNode[]
+  links: SimulationLink[]
+} {
+  const nodes = Array.from(
+    { length: count },
+    (_, i): SimulationNode => ({
+      id: `a${String(i)}`,
+      genres: [`genre ${String(i % 40)}`],
+      popularity: 100 - (i % 100),
+      cluster: 0,
+    })
+  )
+  const links = nodes.slice(40).map(
+    (node, i): SimulationLink => ({
+      source: nodes[i].id,
+      target: node.id,
+      strength: 1,
+    })
+  )
+  return { nodes, links }
+}
+
+describe('runForceLayout', () => {
+  it('is deterministic', () => {
+    const first = galaxy(200)
+    const second = galaxy(200)
+    runForceLayout(first.nodes, first.links)
+    runForceLayout(second.nodes, second.links)
+
+    expect(second.nodes.map((n) => [n.x, n.y, n.z])).toEqual(
+      first.nodes.map((n) => [n.x, n.y, n.z])
+    )
+  })
+
+  it('keeps a large galaxy inside the outer orbit', () => {
+    const { nodes, links } = galaxy(5000)
+    runForceLayout(nodes, links)
+
+    nodes.forEach(({ x = NaN, y = NaN, z = NaN }) => {
+      expect(Math.hypot(x, y, z), 'inside the outer orbit').toBeLessThanOrEqual(
+        DEFAULT_CONFIG.outerRadius + 1
+      )
+    })
+  })
+})
@@ -1,4 +1,22 @@
-import type { SimulationNodeDatum, SimulationLinkDatum } from 'd3-force'
+import {
+  forceSimulation,
+  type Force,
+  type SimulationNodeDatum,
+  type SimulationLinkDatum,
+} from 'd3-force'
+import { applyRepulsion, buildOctree, type Octree } from './barnesHut'
+import { buildSpatialHash, forEachNeighborCandidate } from './spatialHash'
+
+/**
+ * Where an artist sits on the audio mood axes (each 0-1)
+ */
+export interface NodeMood {
+  valence: number
+  energy: number
+  acousticness: number
+  // Measured from the artist's tracks, or estimated from their genres
+  source: 'measured' | 'estimated'
+}
 
 /**
  * Node in the orbital simulation representing an artist
@@ -15,6 +33,9 @@ export interface SimulationNode extends SimulationNodeDatum {
   z?: number
   // Original rank (index in sorted order)
   rank?: number
+  // Audio mood for the mood layout (missing without audio data or a known
+  // genre)
+  mood?: NodeMood
 }
 
 /**
@@ -27,7 +48,7 @@ export interface SimulationLink extends SimulationLinkDatum<SimulationNode> {
 }
 
 /**
- * Configuration for the orbital simulation
+ * Configuration for the orbital and force-directed layouts
  */
 export interface SimulationConfig {
   /** Radius of the galaxy sphere */
@@ -42,14 +63,17 @@ export interface SimulationConfig {
   verticalSpread: number
   /** Whether to spread across 3D or keep flat */
   use3D: boolean
-  /** Not used anymore but kept for compatibility */
+  /** Force layout: how strongly every pair of planets pushes apart */
   repulsion?: number
+  /** Not used anymore but kept for compatibility */
   collisionMultiplier?: number
+  /** Force layout: rest length of a link between weakly related artists */
   linkDistance?: number
+  /** Force layout: number of simulation ticks (fewer for large galaxies) */
   iterations?: number
 }
 
-const DEFAULT_CONFIG: SimulationConfig = {
+export const DEFAULT_CONFIG: SimulationConfig = {
   radius: 35,
   innerRadius: 8,
   outerRadius: 35,
@@ -135,7 +159,7 @@ function calculateOrbitalPosition(
 
   // Golden ratio for spherical distribution (Fibonacci sphere)
   const goldenRatio = (1 + Math.sqrt(5)) / 2
-  const goldenAngle = 2 * Math.PI / (goldenRatio * goldenRatio)
+  const goldenAngle = (2 * Math.PI) / (goldenRatio * goldenRatio)
 
   // Spherical coordinates using golden spiral
   // phi = azimuthal angle (around Y axis)
@@ -170,70 +194,96 @@ function getNodeSize(_node: SimulationNode): number {
   return 0.6
 }
 
+/**
+ * Push two planets apart if they're closer than their minimum distance
+ * A pinned planet stays put and the other one moves the whole way
+ * Returns whether they overlapped
+ */
+function separatePair(
+  nodeA: SimulationNode,
+  nodeB: SimulationNode,
+  minDist: number,
+  pinned?: ReadonlySet<SimulationNode>
+): boolean {
+  const pinnedA = pinned?.has(nodeA) ?? false
+  const pinnedB = pinned?.has(nodeB) ?? false
+  if (pinnedA && pinnedB) return false
+
+  const dx = (nodeB.x ?? 0) - (nodeA.x ?? 0)
+  const dy = (nodeB.y ?? 0) - (nodeA.y ?? 0)
+  const dz = (nodeB.z ?? 0) - (nodeA.z ?? 0)
+  const dist = Math.sqrt(dx * dx + dy * dy + dz * dz)
+
+  if (dist >= minDist || dist <= 0.001) return false
+
+  // Push apart
+  const overlap = minDist - dist
+  const pushA = pinnedA ? 0 : pinnedB ? overlap : overlap / 2
+  const pushB = pinnedB ? 0 : pinnedA ? overlap : overlap / 2
+
+  const nx = dx / dist
+  const ny = dy / dist
+  const nz = dz / dist
+
+  nodeA.x = (nodeA.x ?? 0) - nx * pushA
+  nodeA.y = (nodeA.y ?? 0) - ny * pushA
+  nodeA.z = (nodeA.z ?? 0) - nz * pushA
+
+  nodeB.x = (nodeB.x ?? 0) + nx * pushB
+  nodeB.y = (nodeB.y ?? 0) + ny * pushB
+  nodeB.z = (nodeB.z ?? 0) + nz * pushB
+
+  return true
+}
+
 /**
  * Resolve overlapping planets by pushing them apart
+ * Only planets in neighboring cells of a spatial hash are compared, so this
+ * stays fast for thousands of artists
+ * Pinned planets never move (overlaps between two of them are left alone)
  */
-function resolveOverlaps(
+export function resolveOverlaps(
   nodes: SimulationNode[],
-  iterations: number = 10
+  iterations = 10,
+  pinned?: ReadonlySet<SimulationNode>
 ): void {
   const minSpacing = 1.2 // Multiplier for minimum distance between planets
 
+  // No overlapping pair is further apart than the largest minimum distance
+  const maxSize = nodes.reduce(
+    (max, node) => Math.max(max, getNodeSize(node)),
+    0
+  )
+  const cellSize = maxSize * 2 * minSpacing
+  if (cellSize <= 0) return
+
   for (let iter = 0; iter < iterations; iter++) {
-    let hasOverlap = false
+    let overlaps = 0
+    const hash = buildSpatialHash(nodes, cellSize)
 
-    for (let i = 0; i < nodes.length; i++) {
-      for (let j = i + 1; j < nodes.length; j++) {
-        const nodeA = nodes[i]
+    nodes.forEach((nodeA, i) => {
+      forEachNeighborCandidate(hash, nodeA, (j) => {
+        // Each pair once
+        if (j <= i) return
         const nodeB = nodes[j]
-
-        const dx = (nodeB.x ?? 0) - (nodeA.x ?? 0)
-        const dy = (nodeB.y ?? 0) - (nodeA.y ?? 0)
-        const dz = (nodeB.z ?? 0) - (nodeA.z ?? 0)
-        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz)
-
-        const sizeA = getNodeSize(nodeA)
-        const sizeB = getNodeSize(nodeB)
-        const minDist = (sizeA + sizeB) * minSpacing
-
-        if (dist < minDist && dist > 0.001) {
-          hasOverlap = true
-
-          // Push apart
-          const overlap = minDist - dist
-          const pushAmount = overlap / 2
-
-          const nx = dx / dist
-          const ny = dy / dist
-          const nz = dz / dist
-
-          nodeA.x = (nodeA.x ?? 0) - nx * pushAmount
-          nodeA.y = (nodeA.y ?? 0) - ny * pushAmount
-          nodeA.z = (nodeA.z ?? 0) - nz * pushAmount
-
-          nodeB.x = (nodeB.x ?? 0) + nx * pushAmount
-          nodeB.y = (nodeB.y ?? 0) + ny * pushAmount
-          nodeB.z = (nodeB.z ?? 0) + nz * pushAmount
-        }
-      }
-    }
+        const minDist = (getNodeSize(nodeA) + getNodeSize(nodeB)) * minSpacing
+        if (separatePair(nodeA, nodeB, minDist, pinned)) overlaps++
+      })
+    })
 
     // Early exit if no overlaps found
-    if (!hasOverlap) break
+    if (overlaps === 0) break
   }
 }
 
 /**
- * Run the orbital positioning algorithm and return final positions
- * Replaces D3 force simulation with deterministic orbital layout
+ * Place every node on its orbit, without resolving overlaps
+ * Returns the nodes by rank
  */
-export function runSimulation(
+function placeOnOrbits(
   nodes: SimulationNode[],
-  _links: SimulationLink[], // Links not used in orbital layout but kept for API compatibility
-  config: Partial<SimulationConfig> = {}
+  cfg: SimulationConfig
 ): SimulationNode[] {
-  const cfg = { ...DEFAULT_CONFIG, ...config }
-
   // Build genre map and assign clusters
   const genreMap = buildGenreMap(nodes)
   assignClusters(nodes, genreMap)
@@ -261,12 +311,339 @@ export function runSimulation(
     node.z = pos.z
   })
 
+  return sortedNodes
+}
+
+/**
+ * Run the orbital positioning algorithm and return final positions
+ * Replaces D3 force simulation with deterministic orbital layout
+ */
+export function runSimulation(
+  nodes: SimulationNode[],
+  _links: SimulationLink[], // Links not used in orbital layout but kept for API compatibility
+  config: Partial<SimulationConfig> = {}
+): SimulationNode[] {
+  const cfg = { ...DEFAULT_CONFIG, ...config }
+
+  const sortedNodes = placeOnOrbits(nodes, cfg)
+
   // Resolve any overlapping planets
   resolveOverlaps(sortedNodes, 15)
 
   return nodes
 }
 
+/**
+ * Node as moved by the force layout - d3-force integrates x/y, the z axis
+ * is integrated by zAxisForce
+ */
+interface ForceNode {
+  node: SimulationNode
+  x: number
+  y: number
+  z: number
+  vx: number
+  vy: number
+  vz: number
+}
+
+/**
+ * Link between two force nodes with its precomputed spring
+ */
+interface ForceLink {
+  source: ForceNode
+  target: ForceNode
+  // Rest length - artists sharing more genres sit closer
+  distance: number
+  // Spring stiffness, normalized so hubs aren't torn around by their links
+  stiffness: number
+  // Share of the correction applied to the target (the less linked end
+  // moves more)
+  bias: number
+}
+
+const FORCE_DEFAULTS = {
+  repulsion: 12,
+  linkDistance: 5,
+  iterations: 300,
+}
+
+// Artist-ticks a layout may spend - large galaxies settle in fewer ticks so
+// thousands of artists still lay out in well under a second
+const FORCE_TICK_BUDGET = 75_000
+const MIN_FORCE_ITERATIONS = 15
+// Springs kept per artist (its strongest) - broad genres link thousands of
+// pairs, which would cost more per tick than the whole repulsion
+const MAX_LINKS_PER_ARTIST = 8
+
+// Fraction of velocity lost every tick (d3-force's default)
+const VELOCITY_DECAY = 0.4
+// Pull towards the center so unlinked artists don't drift off
+const CENTER_GRAVITY = 0.03
+// Repulsion is clamped below this distance to avoid explosive pushes
+const MIN_CHARGE_DISTANCE = 1
+// Groups of artists seen under a smaller angle than this push as one body.
+// Coarser than d3's 0.9: in 3D the cells opened grow with 1/theta^3, not
+// 1/theta^2, and springs and gravity dominate the settled shape anyway
+const CHARGE_THETA = 1.2
+
+/**
+ * Springs pulling linked artists towards their rest length in 3D
+ * Mirrors d3.forceLink, which only works in two dimensions
+ */
+function linkForce(links: ForceLink[]): Force<ForceNode, undefined> {
+  return (alpha) => {
+    links.forEach(({ source, target, distance, stiffness, bias }) => {
+      const x = target.x + target.vx - source.x - source.vx
+      const y = target.y + target.vy - source.y - source.vy
+      const z = target.z + target.vz - source.z - source.vz
+      const length = Math.sqrt(x * x + y * y + z * z) || 1e-6
+      const pull = ((length - distance) / length) * alpha * stiffness
+
+      target.vx -= x * pull * bias
+      target.vy -= y * pull * bias
+      target.vz -= z * pull * bias
+      source.vx += x * pull * (1 - bias)
+      source.vy += y * pull * (1 - bias)
+      source.vz += z * pull * (1 - bias)
+    })
+  }
+}
+
+/**
+ * Every pair of artists pushes apart, weaker with distance
+ * Mirrors d3.forceManyBody in 3D, with the same Barnes-Hut approximation
+ */
+function chargeForce(repulsion: number): Force<ForceNode, undefined> {
+  let nodes: ForceNode[] = []
+  let tree: Octree | undefined
+
+  const force: Force<ForceNode, undefined> = (alpha) => {
+    tree = buildOctree(nodes, tree)
+    applyRepulsion(
+      tree,
+      nodes,
+      repulsion * alpha,
+      CHARGE_THETA,
+      MIN_CHARGE_DISTANCE
+    )
+  }
+  force.initialize = (initialNodes): void => {
+    nodes = initialNodes
+  }
+
+  return force
+}
+
+/**
+ * Weak pull of every artist towards the origin
+ */
+function gravityForce(): Force<ForceNode, undefined> {
+  let nodes: ForceNode[] = []
+
+  const force: Force<ForceNode, undefined> = (alpha) => {
+    nodes.forEach((node) => {
+      node.vx -= node.x * CENTER_GRAVITY * alpha
+      node.vy -= node.y * CENTER_GRAVITY * alpha
+      node.vz -= node.z * CENTER_GRAVITY * alpha
+    })
+  }
+  force.initialize = (initialNodes): void => {
+    nodes = initialNodes
+  }
+
+  return force
+}
+
+/**
+ * Integrates the z axis the way d3-force integrates x/y
+ * Must be registered last so it sees every other force's velocity
+ * A flat galaxy keeps every artist on the y = 0 plane instead
+ */
+function zAxisForce(use3D: boolean): Force<ForceNode, undefined> {
+  let nodes: ForceNode[] = []
+
+  const force: Force<ForceNode, undefined> = () => {
+    nodes.forEach((node) => {
+      node.vz *= 1 - VELOCITY_DECAY
+      node.z += node.vz
+      if (!use3D) {
+        node.y = 0
+        node.vy = 0
+      }
+    })
+  }
+  force.initialize = (initialNodes): void => {
+    nodes = initialNodes
+  }
+
+  return force
+}
+
+/**
+ * Resolve link endpoints (IDs or nodes) to force nodes and precompute
+ * their springs the way d3.forceLink does
+ * Only each artist's strongest links become springs
+ */
+function createForceLinks(
+  forceNodes: ForceNode[],
+  links: SimulationLink[],
+  linkDistance: number
+): ForceLink[] {
+  const byId = new Map(forceNodes.map((fn) => [fn.node.id, fn]))
+  const endpointId = (end: string | SimulationNode): string =>
+    typeof end === 'string' ? end : end.id
+
+  const resolved: { source: ForceNode; target: ForceNode; strength: number }[] =
+    []
+  links.forEach((link) => {
+    const source = byId.get(endpointId(link.source))
+    const target = byId.get(endpointId(link.target))
+    if (!source || !target || source === target) return
+    resolved.push({ source, target, strength: link.strength })
+  })
+
+  // Keep the links among the strongest of either end - walking them
+  // strongest first (ties in link order), each artist keeps its first ones
+  const linkCounts = new Map<ForceNode, number>()
+  const strongest = [...resolved]
+    .sort((a, b) => b.strength - a.strength)
+    .filter(({ source, target }) => {
+      const sourceCount = linkCounts.get(source) ?? 0
+      const targetCount = linkCounts.get(target) ?? 0
+      linkCounts.set(source, sourceCount + 1)
+      linkCounts.set(target, targetCount + 1)
+      return (
+        sourceCount < MAX_LINKS_PER_ARTIST || targetCount < MAX_LINKS_PER_ARTIST
+      )
+    })
+
+  const degree = new Map<ForceNode, number>()
+  strongest.forEach(({ source, target }) => {
+    degree.set(source, (degree.get(source) ?? 0) + 1)
+    degree.set(target, (degree.get(target) ?? 0) + 1)
+  })
+
+  return strongest.map(({ source, target, strength }) => {
+    const sourceDegree = degree.get(source) ?? 1
+    const targetDegree = degree.get(target) ?? 1
+    return {
+      source,
+      target,
+      // Strength is the shared genre ratio (0.15-1)
+      distance: linkDistance * (1.5 - strength),
+      stiffness: strength / Math.min(sourceDegree, targetDegree),
+      bias: sourceDegree / (sourceDegree + targetDegree),
+    }
+  })
+}
+
+/**
+ * Run a 3D force-directed layout and return final positions
+ * - Links pull artists sharing genres together, stronger for more overlap
+ * - Every pair of artists repels, a weak gravity keeps the galaxy together
+ * - Starts from the orbital layout, so the result is deterministic
+ * The settled galaxy is scaled to the outer orbit radius
+ */
+export function runForceLayout(
+  nodes: SimulationNode[],
+  links: SimulationLink[],
+  config: Partial<SimulationConfig> = {}
+): SimulationNode[] {
+  const cfg = { ...DEFAULT_CONFIG, ...FORCE_DEFAULTS, ...config }
+  if (nodes.length === 0) return nodes
+
+  // Seed positions (and clusters/ranks) from the orbital layout - overlaps
+  // are resolved once the forces settle
+  placeOnOrbits(nodes, cfg)
+
+  const forceNodes: ForceNode[] = nodes.map((node) => ({
+    node,
+    x: node.x ?? 0,
+    y: node.y ?? 0,
+    z: node.z ?? 0,
+    vx: 0,
+    vy: 0,
+    vz: 0,
+  }))
+
+  // Large galaxies get fewer ticks (see FORCE_TICK_BUDGET)
+  const iterations = Math.min(
+    cfg.iterations,
+    Math.max(MIN_FORCE_ITERATIONS, Math.round(FORCE_TICK_BUDGET / nodes.length))
+  )
+
+  // Cool down from alpha 1 to d3's alphaMin over exactly `iterations` ticks
+  const alphaMin = 0.001
+  const simulation = forceSimulation<ForceNode>(forceNodes)
+    .stop()
+    .alphaMin(alphaMin)
+    .alphaDecay(1 - Math.pow(alphaMin, 1 / iterations))
+    .velocityDecay(VELOCITY_DECAY)
+    .force(
+      'link',
+      linkForce(createForceLinks(forceNodes, links, cfg.linkDistance))
+    )
+    .force('charge', chargeForce(cfg.repulsion))
+    .force('gravity', gravityForce())
+    .force('z', zAxisForce(cfg.use3D))
+
+  simulation.tick(iterations)
+
+  // Center the settled galaxy and scale it to fill the outer orbit
+  const count = forceNodes.length
+  const center = forceNodes.reduce(
+    (sum, fn) => ({
+      x: sum.x + fn.x / count,
+      y: sum.y + fn.y / count,
+      z: sum.z + fn.z / count,
+    }),
+    { x: 0, y: 0, z: 0 }
+  )
+  const extent = forceNodes.reduce(
+    (max, fn) =>
+      Math.max(
+        max,
+        Math.hypot(fn.x - center.x, fn.y - center.y, fn.z - center.z)
+      ),
+    0
+  )
+  const scale = extent > 0 ? cfg.outerRadius / extent : 1
+
+  forceNodes.forEach((fn) => {
+    fn.node.x = (fn.x - center.x) * scale
+    fn.node.y = (fn.y - center.y) * scale
+    fn.node.z = (fn.z - center.z) * scale
+  })
+
+  // Resolve any overlapping planets
+  resolveOverlaps(nodes, 15)
+
+  return nodes
+}
+
+/**
+ * Place recently played (non-top) artists on a ring outside the galaxy
+ * Artists are ordered by recency, so the most recent plays sit together
+ */
+export function calculateRecentOrbitPositions(
+  artistIds: string[],
+  radius: number
+): Map<string, [number, number, number]> {
+  const positions = new Map<string, [number, number, number]>()
+  const count = artistIds.length
+
+  artistIds.forEach((id, index) => {
+    const angle = (index / Math.max(count, 1)) * Math.PI * 2
+    // Gentle wave so the ring reads as an orbit rather than a flat circle
+    const y = Math.sin(angle * 3) * 2
+
+    positions.set(id, [radius * Math.cos(angle), y, radius * Math.sin(angle)])
+  })
+
+  return positions
+}
+
 /**
  * Convert simulation nodes back to position tuples
  */
@@ -0,0 +1,48 @@
+/**
+ * Galaxy transform worker
+ * Runs transformToGalaxyData off the main thread so pairwise links and the
+ * layout don't stall the render loop
+ */
+
+import { transformToGalaxyData } from './dataTransform'
+import type {
+  GalaxyWorkerRequest,
+  GalaxyWorkerResponse,
+} from './galaxyWorkerProtocol'
+
+/**
+ * The parts of the dedicated worker scope used here (the app is typed
+ * against the DOM lib, where `self` is a Window)
+ */
+interface GalaxyWorkerScope {
+  postMessage: (message: GalaxyWorkerResponse) => void
+  addEventListener: (
+    type: 'message',
+    listener: (event: MessageEvent<GalaxyWorkerRequest>) => void
+  ) => void
+}
+
+const scope = self as unknown as GalaxyWorkerScope
+
+scope.addEventListener('message', (event) => {
+  const { requestId, artists, options } = event.data
+
+  try {
+    const galaxyData = transformToGalaxyData(artists, {
+      ...options,
+      // The caller handles the position cache (localStorage)
+      useCache: false,
+      onProgress: (progress) => {
+        scope.postMessage({ type: 'progress', requestId, progress })
+      },
+    })
+    scope.postMessage({ type: 'result', requestId, galaxyData })
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      requestId,
+      message:
+        error instanceof Error ? error.message : 'Failed to process music data',
+    })
+  }
+})
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { GalaxyData } from '@/types/domain'
+import type * as GalaxyWorkerClient from './galaxyWorkerClient'
+import type {
+  GalaxyWorkerRequest,
+  GalaxyWorkerResponse,
+} from './galaxyWorkerProtocol'
+
+const emptyGalaxy = {
+  artists: [],
+  genres: [],
+  connections: [],
+} as unknown as GalaxyData
+
+/**
+ * Stand-in for the transform worker: answers each request on the next
+ * tick, or holds it while `hold` is set
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  static hold = false
+
+  terminated = false
+  private listeners = new Set<(event: MessageEvent) => void>()
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  addEventListener(
+    type: string,
+    listener: (event: MessageEvent) => void
+  ): void {
+    if (type === 'message') this.listeners.add(listener)
+  }
+
+  removeEventListener(
+    type: string,
+    listener: (event: MessageEvent) => void
+  ): void {
+    if (type === 'message') this.listeners.delete(listener)
+  }
+
+  postMessage(request: GalaxyWorkerRequest): void {
+    if (FakeWorker.hold) return
+    setTimeout(() => {
+      this.reply({
+        type: 'progress',
+        requestId: request.requestId,
+        progress: 1,
+      })
+      this.reply({
+        type: 'result',
+        requestId: request.requestId,
+        galaxyData: emptyGalaxy,
+      })
+    }, 0)
+  }
+
+  terminate(): void {
+    this.terminated = true
+  }
+
+  private reply(message: GalaxyWorkerResponse): void {
+    this.listeners.forEach((listener) => {
+      listener({ data: message } as MessageEvent)
+    })
+  }
+}
+
+describe('transformGalaxyInWorker', () => {
+  let client: typeof GalaxyWorkerClient
+
+  beforeEach(async () => {
+    FakeWorker.instances = []
+    FakeWorker.hold = false
+    vi.stubGlobal('Worker', FakeWorker)
+    // A fresh module per test, so no worker is left over from another one
+    vi.resetModules()
+    client = await import('./galaxyWorkerClient')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reuses one worker across transforms', async () => {
+    const onProgress = vi.fn()
+    await client.transformGalaxyInWorker([], {}, { onProgress })
+    await client.transformGalaxyInWorker([])
+
+    expect(onProgress).toHaveBeenCalledWith(1)
+    expect(FakeWorker.instances).toHaveLength(1)
+  })
+
+  it('terminates a busy worker on cancel and starts a fresh one', async () => {
+    await client.transformGalaxyInWorker([])
+    const [worker] = FakeWorker.instances as [FakeWorker]
+
+    FakeWorker.hold = true
+    const controller = new AbortController()
+    const cancelled = client.transformGalaxyInWorker(
+      [],
+      {},
+      {
+        signal: controller.signal,
+      }
+    )
+    controller.abort()
+
+    await expect(cancelled).rejects.toBeInstanceOf(
+      client.GalaxyTransformCancelledError
+    )
+    expect(worker.terminated).toBe(true)
+
+    FakeWorker.hold = false
+    await client.transformGalaxyInWorker([])
+    expect(FakeWorker.instances).toHaveLength(2)
+  })
+})
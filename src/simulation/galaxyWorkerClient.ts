@@ -0,0 +1,212 @@
+/**
+ * Main-thread side of the galaxy transform worker
+ * One worker serves every transform, so switching time ranges doesn't pay
+ * its startup again. The pipeline is synchronous and can't see a cancel
+ * message, so cancelling the only request in flight terminates the worker
+ * (the next transform starts a fresh one)
+ */
+
+import type { SpotifyArtist } from '@/api/spotify/types'
+import type { GalaxyData } from '@/types/domain'
+import {
+  mergeArtistPopulations,
+  transformToGalaxyData,
+  type TransformOptions,
+} from './dataTransform'
+import { LAYOUT_STRATEGIES } from './layoutStrategy'
+import { getCachedPositions, setCachedPositions } from './positionCache'
+import type {
+  GalaxyWorkerRequest,
+  GalaxyWorkerResponse,
+  WorkerTransformOptions,
+} from './galaxyWorkerProtocol'
+
+/**
+ * The transform was cancelled before it finished (e.g. the time range
+ * changed mid-computation)
+ */
+export class GalaxyTransformCancelledError extends Error {
+  constructor() {
+    super('Galaxy transform cancelled')
+    this.name = 'GalaxyTransformCancelledError'
+  }
+}
+
+export interface GalaxyTransformTask {
+  /** Aborting terminates the worker and rejects with a cancelled error */
+  signal?: AbortSignal
+  /** Pipeline progress (0-1) as its stages complete */
+  onProgress?: (progress: number) => void
+}
+
+interface GalaxyWorker {
+  worker: Worker
+  // Requests sent to the worker that haven't finished
+  pending: Set<number>
+}
+
+let sharedWorker: GalaxyWorker | null = null
+let nextRequestId = 0
+
+function getGalaxyWorker(): GalaxyWorker {
+  sharedWorker ??= {
+    worker: new Worker(new URL('./galaxy.worker.ts', import.meta.url), {
+      type: 'module',
+    }),
+    pending: new Set(),
+  }
+  return sharedWorker
+}
+
+function discardGalaxyWorker(galaxyWorker: GalaxyWorker): void {
+  galaxyWorker.worker.terminate()
+  if (sharedWorker === galaxyWorker) sharedWorker = null
+}
+
+/**
+ * Layout positions of a transformed galaxy (recent orbit artists are placed
+ * separately and never cached)
+ */
+function getLayoutPositions(
+  galaxyData: GalaxyData
+): Map<string, [number, number, number]> {
+  return new Map(
+    galaxyData.artists
+      .filter((artist) => !artist.isRecentOrbit)
+      .map((artist) => [artist.id, artist.position])
+  )
+}
+
+/**
+ * Run the pipeline in the shared worker
+ * Falls back to the main thread if the worker can't start
+ */
+function runInWorker(
+  artists: SpotifyArtist[],
+  options: WorkerTransformOptions,
+  { signal, onProgress }: GalaxyTransformTask
+): Promise<GalaxyData> {
+  return new Promise((resolve, reject) => {
+    const galaxyWorker = getGalaxyWorker()
+    const { worker, pending } = galaxyWorker
+    const requestId = ++nextRequestId
+    pending.add(requestId)
+
+    const finish = (): void => {
+      pending.delete(requestId)
+      worker.removeEventListener('message', handleMessage)
+      worker.removeEventListener('error', handleError)
+      signal?.removeEventListener('abort', handleAbort)
+    }
+
+    const handleAbort = (): void => {
+      finish()
+      // Stop the computation unless the worker still has other requests
+      if (pending.size === 0) discardGalaxyWorker(galaxyWorker)
+      reject(new GalaxyTransformCancelledError())
+    }
+
+    const handleMessage = (event: MessageEvent<GalaxyWorkerResponse>): void => {
+      const message = event.data
+      if (message.requestId !== requestId) return
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress)
+          break
+        case 'result':
+          finish()
+          resolve(message.galaxyData)
+          break
+        case 'error':
+          finish()
+          reject(new Error(message.message))
+          break
+      }
+    }
+
+    // The worker couldn't start (or crashed) - transform here instead
+    const handleError = (): void => {
+      finish()
+      discardGalaxyWorker(galaxyWorker)
+      try {
+        resolve(
+          transformToGalaxyData(artists, {
+            ...options,
+            useCache: false,
+            ...(onProgress && { onProgress }),
+          })
+        )
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+
+    worker.addEventListener('message', handleMessage)
+    worker.addEventListener('error', handleError)
+    signal?.addEventListener('abort', handleAbort, { once: true })
+
+    const request: GalaxyWorkerRequest = {
+      type: 'transform',
+      requestId,
+      artists,
+      options,
+    }
+    worker.postMessage(request)
+  })
+}
+
+/**
+ * Transform artists to galaxy data off the main thread
+ * Reads and writes the position cache here, since the worker can't reach
+ * localStorage; without Worker support (tests) the pipeline runs inline
+ */
+export async function transformGalaxyInWorker(
+  artists: SpotifyArtist[],
+  options: Omit<TransformOptions, 'onProgress'> = {},
+  task: GalaxyTransformTask = {}
+): Promise<GalaxyData> {
+  if (task.signal?.aborted) throw new GalaxyTransformCancelledError()
+
+  if (typeof Worker === 'undefined') {
+    return transformToGalaxyData(artists, {
+      ...options,
+      ...(task.onProgress && { onProgress: task.onProgress }),
+    })
+  }
+
+  const {
+    useCache = true,
+    timeRange = 'medium_term',
+    layoutStrategy = 'orbital',
+    ...rest
+  } = options
+  const cachePositions = useCache && LAYOUT_STRATEGIES[layoutStrategy].cached
+
+  // Same artist set the layout positions (merged populations)
+  const artistIds = mergeArtistPopulations(
+    artists,
+    options.followedArtists,
+    options.libraryArtists
+  ).artists.map((artist) => artist.id)
+  const knownPositions =
+    options.positions ??
+    (cachePositions ? getCachedPositions(timeRange, layoutStrategy) : null)
+
+  const galaxyData = await runInWorker(
+    artists,
+    { ...rest, timeRange, layoutStrategy, positions: knownPositions },
+    task
+  )
+
+  // The worker laid out (some) artists unless every position was known
+  if (cachePositions && !artistIds.every((id) => knownPositions?.has(id))) {
+    setCachedPositions(
+      timeRange,
+      layoutStrategy,
+      getLayoutPositions(galaxyData)
+    )
+  }
+
+  return galaxyData
+}
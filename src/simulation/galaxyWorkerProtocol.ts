@@ -0,0 +1,51 @@
+/**
+ * Messages between the main thread and the galaxy transform worker
+ * Everything crossing the boundary is structured-cloned, so options can't
+ * carry callbacks - progress comes back as messages instead
+ */
+
+import type { SpotifyArtist } from '@/api/spotify/types'
+import type { GalaxyData } from '@/types/domain'
+import type { TransformOptions } from './dataTransform'
+
+/**
+ * Transform options that can be sent to the worker
+ * The position cache lives in localStorage, which workers can't reach, so
+ * the caller passes cached positions in and caches the computed ones
+ */
+export type WorkerTransformOptions = Omit<
+  TransformOptions,
+  'useCache' | 'onProgress'
+>
+
+export interface TransformRequest {
+  type: 'transform'
+  requestId: number
+  artists: SpotifyArtist[]
+  options: WorkerTransformOptions
+}
+
+export type GalaxyWorkerRequest = TransformRequest
+
+export interface TransformProgressMessage {
+  type: 'progress'
+  requestId: number
+  progress: number // 0-1
+}
+
+export interface TransformResultMessage {
+  type: 'result'
+  requestId: number
+  galaxyData: GalaxyData
+}
+
+export interface TransformErrorMessage {
+  type: 'error'
+  requestId: number
+  message: string
+}
+
+export type GalaxyWorkerResponse =
+  | TransformProgressMessage
+  | TransformResultMessage
+  | TransformErrorMessage
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  runForceLayout,
+  type SimulationLink,
+  type SimulationNode,
+} from './forceSimulation'
+import {
+  canLayoutIncrementally,
+  runIncrementalLayout,
+} from './incrementalLayout'
+
+function node(id: string, genres: string[]): SimulationNode {
+  return { id, genres, popularity: 50, cluster: 0 }
+}
+
+function link(source: string, target: string): SimulationLink {
+  return { source, target, strength: 1 }
+}
+
+function position(n: SimulationNode): [number, number, number] {
+  return [n.x ?? NaN, n.y ?? NaN, n.z ?? NaN]
+}
+
+describe('canLayoutIncrementally', () => {
+  const known = new Map<string, [number, number, number]>([
+    ['a', [0, 0, 0]],
+    ['b', [1, 0, 0]],
+  ])
+
+  it('needs at least half of the artists to be known', () => {
+    expect(canLayoutIncrementally(['a', 'b', 'c', 'd'], known)).toBe(true)
+    expect(canLayoutIncrementally(['a', 'b', 'c', 'd', 'e'], known)).toBe(false)
+    expect(canLayoutIncrementally(['c'], new Map())).toBe(false)
+  })
+})
+
+describe('runIncrementalLayout', () => {
+  // A settled force layout of the first artists, as the cache would hold it
+  const previous = [
+    node('a', ['rock']),
+    node('b', ['rock']),
+    node('c', ['jazz']),
+    node('d', ['jazz']),
+  ]
+  const previousLinks = [link('a', 'b'), link('c', 'd')]
+  runForceLayout(previous, previousLinks)
+  const known = new Map(previous.map((n) => [n.id, position(n)]))
+
+  it('keeps cached positions and only moves newcomers', () => {
+    const nodes = [
+      ...previous.map((n) => node(n.id, n.genres)),
+      node('e', ['rock']),
+      node('f', ['rock']),
+    ]
+    const layout = vi.fn(runForceLayout)
+    runIncrementalLayout(
+      nodes,
+      [...previousLinks, link('a', 'e'), link('e', 'f')],
+      known,
+      layout
+    )
+
+    nodes.slice(0, 4).forEach((n) => {
+      expect(position(n)).toEqual(known.get(n.id))
+    })
+    // Newcomers settle near their relatives, without a full layout
+    const at = new Map(nodes.map((n) => [n.id, position(n)]))
+    const distance = (p: string, q: string): number =>
+      Math.hypot(
+        ...(at.get(p) ?? []).map((value, i) => value - (at.get(q)?.[i] ?? NaN))
+      )
+    expect(distance('e', 'a')).toBeLessThan(5)
+    expect(distance('f', 'e')).toBeLessThan(5)
+    expect(layout).not.toHaveBeenCalled()
+  })
+
+  it('places newcomers without placed relatives with the active layout', () => {
+    const nodes = [
+      ...previous.map((n) => node(n.id, n.genres)),
+      node('g', ['folk']),
+    ]
+    const layout = vi.fn((laidOut: SimulationNode[]) => {
+      laidOut.forEach((n) => {
+        n.x = 100
+        n.y = 0
+        n.z = 0
+      })
+      return laidOut
+    })
+    runIncrementalLayout(nodes, previousLinks, known, layout)
+
+    expect(layout).toHaveBeenCalledOnce()
+    nodes.slice(0, 4).forEach((n) => {
+      expect(position(n)).toEqual(known.get(n.id))
+    })
+    expect(nodes[4]?.x).toBeGreaterThanOrEqual(100)
+  })
+})
@@ -0,0 +1,147 @@
+import {
+  resolveOverlaps,
+  type SimulationConfig,
+  type SimulationLink,
+  type SimulationNode,
+} from './forceSimulation'
+import type { LayoutStrategy } from './layoutStrategy'
+
+// Share of artists that must already have a position. Every newcomer is
+// anchored beside a known artist, so once newcomers outnumber the known
+// artists the galaxy becomes clumps around the old layout's planets, and
+// keeping familiar positions is no longer worth that - lay out afresh
+const MIN_KNOWN_SHARE = 0.5
+// Newcomers settle this far from the artist they share the most genres with
+const NEIGHBOR_OFFSET = 2.5
+
+/**
+ * Whether enough artists already have a position for an incremental layout
+ */
+export function canLayoutIncrementally(
+  artistIds: string[],
+  knownPositions: Map<string, [number, number, number]>
+): boolean {
+  const known = artistIds.filter((id) => knownPositions.has(id)).length
+  return known > 0 && known >= artistIds.length * MIN_KNOWN_SHARE
+}
+
+function setPosition(
+  node: SimulationNode,
+  [x, y, z]: [number, number, number]
+): void {
+  node.x = x
+  node.y = y
+  node.z = z
+}
+
+/**
+ * Direction of the i-th newcomer around its anchor (golden spiral on a
+ * sphere), so newcomers sharing an anchor don't stack
+ */
+function offsetDirection(index: number): [number, number, number] {
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5))
+  // Cycle through 16 heights between the poles
+  const y = 1 - ((index % 16) + 0.5) / 8
+  const ring = Math.sqrt(1 - y * y)
+  const angle = index * goldenAngle
+  return [Math.cos(angle) * ring, y, Math.sin(angle) * ring]
+}
+
+/**
+ * Keep known artists where they were and only place newcomers
+ * - Newcomers sit next to the placed artist they share the most genres
+ *   with, newcomers linked only to other newcomers follow once those are
+ *   placed
+ * - Newcomers without any placed neighbor go where the active layout puts
+ *   them in a full run
+ * - Only newcomers move to resolve overlaps, so the galaxy stays familiar
+ */
+export function runIncrementalLayout(
+  nodes: SimulationNode[],
+  links: SimulationLink[],
+  knownPositions: Map<string, [number, number, number]>,
+  layout: LayoutStrategy['run'],
+  config: Partial<SimulationConfig> = {}
+): SimulationNode[] {
+  const positions = new Map<SimulationNode, [number, number, number]>()
+  const pinned = new Set<SimulationNode>()
+  nodes.forEach((node) => {
+    const position = knownPositions.get(node.id)
+    if (!position) return
+    positions.set(node, position)
+    pinned.add(node)
+  })
+
+  // Linked artists of every newcomer
+  const byId = new Map(nodes.map((node) => [node.id, node]))
+  const endpointId = (end: string | SimulationNode): string =>
+    typeof end === 'string' ? end : end.id
+  const neighbors = new Map<
+    SimulationNode,
+    { node: SimulationNode; strength: number }[]
+  >()
+  const addNeighbor = (
+    node: SimulationNode | undefined,
+    neighbor: SimulationNode | undefined,
+    strength: number
+  ): void => {
+    if (!node || !neighbor || pinned.has(node)) return
+    const linked = neighbors.get(node)
+    if (linked) {
+      linked.push({ node: neighbor, strength })
+    } else {
+      neighbors.set(node, [{ node: neighbor, strength }])
+    }
+  }
+  links.forEach((link) => {
+    const source = byId.get(endpointId(link.source))
+    const target = byId.get(endpointId(link.target))
+    addNeighbor(source, target, link.strength)
+    addNeighbor(target, source, link.strength)
+  })
+
+  // Place newcomers in rounds, each round next to the artists placed before
+  let pending = nodes.filter((node) => !pinned.has(node))
+  let newcomerIndex = 0
+  while (pending.length > 0) {
+    const placements = new Map<SimulationNode, [number, number, number]>()
+
+    pending.forEach((node) => {
+      // Genre neighbors can be spread over the whole galaxy (e.g. orbital),
+      // so anchor on the closest relative rather than their center
+      let anchor: [number, number, number] | undefined
+      let anchorStrength = 0
+      neighbors.get(node)?.forEach(({ node: neighbor, strength }) => {
+        const position = positions.get(neighbor)
+        if (!position || strength <= anchorStrength) return
+        anchor = position
+        anchorStrength = strength
+      })
+      if (!anchor) return
+
+      const [dx, dy, dz] = offsetDirection(newcomerIndex++)
+      placements.set(node, [
+        anchor[0] + dx * NEIGHBOR_OFFSET,
+        anchor[1] + dy * NEIGHBOR_OFFSET,
+        anchor[2] + dz * NEIGHBOR_OFFSET,
+      ])
+    })
+
+    if (placements.size === 0) break
+    placements.forEach((position, node) => {
+      positions.set(node, position)
+    })
+    pending = pending.filter((node) => !placements.has(node))
+  }
+
+  // The rest take their place in a full run of the active layout
+  if (pending.length > 0) layout(nodes, links, config)
+  positions.forEach((position, node) => {
+    setPosition(node, position)
+  })
+
+  // Relax locally - known artists stay put
+  resolveOverlaps(nodes, 15, pinned)
+
+  return nodes
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { parseLastfmScrobbles } from './lastfmScrobbles'
+
+describe('parseLastfmScrobbles', () => {
+  describe('CSV', () => {
+    it('reads the classic headerless layout', () => {
+      const plays = parseLastfmScrobbles(
+        'Bonobo,Migration,Kerala,31 Jan 2021 18:04\nOther,Album,Song,1612116240'
+      )
+
+      expect(plays).toEqual([
+        {
+          artistName: 'Bonobo',
+          trackName: 'Kerala',
+          trackId: null,
+          playedAt: '2021-01-31T18:04:00.000Z',
+          msPlayed: null,
+        },
+        {
+          artistName: 'Other',
+          trackName: 'Song',
+          trackId: null,
+          playedAt: '2021-01-31T18:04:00.000Z',
+          msPlayed: null,
+        },
+      ])
+    })
+
+    it('finds columns by header in any order', () => {
+      const [play] = parseLastfmScrobbles(
+        'uts,track,artist\r\n1612116240,Track,Artist\r\n'
+      )
+      expect(play).toMatchObject({ artistName: 'Artist', trackName: 'Track' })
+    })
+
+    it('handles quoted fields with commas, quotes and newlines', () => {
+      const [play] = parseLastfmScrobbles(
+        '"Crosby, Stills & Nash",Album,"Song ""Live""\nEdit",1612116240'
+      )
+      expect(play).toMatchObject({
+        artistName: 'Crosby, Stills & Nash',
+        trackName: 'Song "Live"\nEdit',
+      })
+    })
+
+    it('skips rows without a readable date', () => {
+      const plays = parseLastfmScrobbles(
+        'Bonobo,Migration,Kerala,someday\nBonobo,Migration,Kerala,1612116240'
+      )
+      expect(plays).toHaveLength(1)
+    })
+
+    it('skips rows whose date is out of range', () => {
+      const plays = parseLastfmScrobbles(
+        'Bonobo,Migration,Kerala,99999999999999999\nBonobo,Migration,Kerala,1612116240'
+      )
+      expect(plays).toHaveLength(1)
+    })
+
+    it('requires a date column when there is a header', () => {
+      expect(() => parseLastfmScrobbles('artist,track\nA,B')).toThrow(
+        'Last.fm CSV has no date column'
+      )
+    })
+  })
+
+  describe('JSON', () => {
+    it('reads pages of user.getRecentTracks responses', () => {
+      const page = {
+        recenttracks: {
+          track: [
+            {
+              name: 'Now Playing',
+              artist: { '#text': 'Artist' },
+            },
+            {
+              name: 'Track',
+              artist: { '#text': 'Artist' },
+              date: { uts: '1612116240' },
+            },
+          ],
+        },
+      }
+
+      expect(parseLastfmScrobbles(JSON.stringify([page, page]))).toEqual([
+        {
+          artistName: 'Artist',
+          trackName: 'Track',
+          trackId: null,
+          playedAt: '2021-01-31T18:04:00.000Z',
+          msPlayed: null,
+        },
+        {
+          artistName: 'Artist',
+          trackName: 'Track',
+          trackId: null,
+          playedAt: '2021-01-31T18:04:00.000Z',
+          msPlayed: null,
+        },
+      ])
+    })
+
+    it('reads a flat track list with plain artist names', () => {
+      const [play] = parseLastfmScrobbles(
+        JSON.stringify([
+          { name: 'Track', artist: 'Artist', date: { uts: '1612116240' } },
+        ])
+      )
+      expect(play.artistName).toBe('Artist')
+    })
+  })
+
+  it('throws when nothing could be read', () => {
+    expect(() => parseLastfmScrobbles('{}')).toThrow(
+      'No Last.fm scrobbles found in this file'
+    )
+    expect(() => parseLastfmScrobbles('')).toThrow(
+      'No Last.fm scrobbles found in this file'
+    )
+  })
+})
@@ -0,0 +1,223 @@
+import type { ListeningPlay } from './listeningHistory'
+
+/**
+ * A scrobble as returned by Last.fm's user.getRecentTracks, which is what
+ * JSON exports contain (usually one object per fetched page)
+ */
+interface LastfmApiTrack {
+  name?: string
+  artist?: { '#text'?: string; name?: string } | string
+  date?: { uts?: string }
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may contain
+ * commas, newlines and doubled quotes)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''))
+}
+
+/**
+ * ISO timestamp of a time in ms, or null if it's out of the Date range
+ */
+function toIsoTimestamp(time: number): string | null {
+  const date = new Date(time)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * Parse a scrobble date: Unix seconds or "31 Jan 2021 18:04" (UTC)
+ * Returns an ISO timestamp, or null if the date isn't recognised
+ */
+function parseScrobbleDate(value: string): string | null {
+  const trimmed = value.trim()
+
+  if (/^\d{9,}$/.test(trimmed)) {
+    return toIsoTimestamp(Number(trimmed) * 1000)
+  }
+
+  const match = /^(\d{1,2}) (\w{3}) (\d{4}),? (\d{1,2}):(\d{2})$/.exec(trimmed)
+  if (match) {
+    const [, day, month, year, hours, minutes] = match
+    const monthIndex = MONTHS[month.toLowerCase()] as number | undefined
+    if (monthIndex === undefined) return null
+    return toIsoTimestamp(
+      Date.UTC(
+        Number(year),
+        monthIndex,
+        Number(day),
+        Number(hours),
+        Number(minutes)
+      )
+    )
+  }
+
+  return toIsoTimestamp(Date.parse(trimmed))
+}
+
+/**
+ * Parse a CSV export
+ * - With a header row (uts/utc_time, artist, track columns, any order)
+ * - Without one: artist, album, track, date (the classic lastfm-to-csv
+ *   layout)
+ */
+function parseScrobbleCsv(text: string): ListeningPlay[] {
+  const rows = parseCsv(text)
+  if (rows.length === 0) return []
+
+  const header = rows[0].map((h) => h.trim().toLowerCase())
+  const hasHeader = header.includes('artist') && header.includes('track')
+
+  const column = (...names: string[]): number =>
+    names.map((name) => header.indexOf(name)).find((i) => i >= 0) ?? -1
+  const columns = hasHeader
+    ? {
+        artist: column('artist', 'artist_name'),
+        track: column('track', 'track_name', 'name'),
+        date: column('uts', 'utc_time', 'date', 'timestamp'),
+      }
+    : { artist: 0, track: 2, date: 3 }
+
+  if (columns.date < 0) {
+    throw new Error('Last.fm CSV has no date column')
+  }
+
+  const plays: ListeningPlay[] = []
+  rows.slice(hasHeader ? 1 : 0).forEach((row) => {
+    const artistName = row[columns.artist]?.trim()
+    const trackName = row[columns.track]?.trim()
+    const playedAt = parseScrobbleDate(row[columns.date] ?? '')
+    if (!artistName || !trackName || !playedAt) return
+    plays.push({
+      artistName,
+      trackName,
+      trackId: null,
+      playedAt,
+      msPlayed: null,
+    })
+  })
+  return plays
+}
+
+/**
+ * Collect tracks from any of the JSON shapes exports use: an array of
+ * user.getRecentTracks responses, single pages or a flat track list
+ */
+function collectApiTracks(data: unknown): LastfmApiTrack[] {
+  if (Array.isArray(data)) {
+    return data.flatMap((item: unknown) =>
+      typeof item === 'object' && item !== null && 'name' in item
+        ? [item as LastfmApiTrack]
+        : collectApiTracks(item)
+    )
+  }
+  if (typeof data !== 'object' || data === null) return []
+
+  const page = data as {
+    recenttracks?: { track?: unknown }
+    track?: unknown
+  }
+  if (page.recenttracks) return collectApiTracks(page.recenttracks.track)
+  if (page.track) {
+    return collectApiTracks(
+      Array.isArray(page.track) ? page.track : [page.track]
+    )
+  }
+  return []
+}
+
+function parseScrobbleJson(data: unknown): ListeningPlay[] {
+  const plays: ListeningPlay[] = []
+
+  collectApiTracks(data).forEach((track) => {
+    const artistName =
+      typeof track.artist === 'string'
+        ? track.artist
+        : (track.artist?.['#text'] ?? track.artist?.name)
+    // Tracks without a date are "now playing", not scrobbles
+    const playedAt = track.date?.uts ? parseScrobbleDate(track.date.uts) : null
+    if (!artistName || !track.name || !playedAt) return
+
+    plays.push({
+      artistName,
+      trackName: track.name,
+      trackId: null,
+      playedAt,
+      msPlayed: null,
+    })
+  })
+
+  return plays
+}
+
+/**
+ * Parse a Last.fm scrobble export (CSV or JSON)
+ * Scrobbles have no listening time, so plays carry msPlayed: null
+ * Throws if no scrobbles could be read
+ */
+export function parseLastfmScrobbles(text: string): ListeningPlay[] {
+  const trimmed = text.trimStart()
+  const plays =
+    trimmed.startsWith('[') || trimmed.startsWith('{')
+      ? parseScrobbleJson(JSON.parse(trimmed))
+      : parseScrobbleCsv(trimmed)
+
+  if (plays.length === 0) {
+    throw new Error('No Last.fm scrobbles found in this file')
+  }
+  return plays
+}
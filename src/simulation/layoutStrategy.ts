@@ -0,0 +1,80 @@
+import type { LayoutStrategyId } from '@/types/domain'
+import {
+  runForceLayout,
+  runSimulation,
+  type SimulationConfig,
+  type SimulationLink,
+  type SimulationNode,
+} from './forceSimulation'
+import { runMoodLayout } from './moodLayout'
+import { runSpiralArmsLayout } from './spiralArmsLayout'
+
+/**
+ * Algorithm that places artists in the galaxy
+ * Strategies position the nodes in place and return them
+ */
+export interface LayoutStrategy {
+  id: LayoutStrategyId
+  label: string
+  description: string
+  // Whether positions are cached - only worth it for layouts that are
+  // expensive and depend on nothing but the artist set
+  cached: boolean
+  run: (
+    nodes: SimulationNode[],
+    links: SimulationLink[],
+    config?: Partial<SimulationConfig>
+  ) => SimulationNode[]
+}
+
+/**
+ * Popular artists on inner orbits, genres grouped by angle
+ */
+export const orbitalLayout: LayoutStrategy = {
+  id: 'orbital',
+  label: 'Orbital',
+  description: 'Favorites at the core, genres grouped around it',
+  cached: true,
+  run: runSimulation,
+}
+
+/**
+ * Shared genres pull artists together, everything else pushes apart
+ */
+export const forceLayout: LayoutStrategy = {
+  id: 'force',
+  label: 'Force',
+  description: 'Artists pulled together by the genres they share',
+  cached: true,
+  run: runForceLayout,
+}
+
+/**
+ * Artists placed by valence, energy and acousticness
+ * Not cached: positions follow audio features, which load after the artists
+ */
+export const moodLayout: LayoutStrategy = {
+  id: 'mood',
+  label: 'Mood',
+  description: 'Placed by how happy, energetic and acoustic artists sound',
+  cached: false,
+  run: runMoodLayout,
+}
+
+/**
+ * Each genre family winds out from the core as a spiral arm
+ */
+export const spiralArmsLayout: LayoutStrategy = {
+  id: 'arms',
+  label: 'Arms',
+  description: 'Genre families as spiral arms, sub-genres clustered along them',
+  cached: true,
+  run: runSpiralArmsLayout,
+}
+
+export const LAYOUT_STRATEGIES: Record<LayoutStrategyId, LayoutStrategy> = {
+  orbital: orbitalLayout,
+  force: forceLayout,
+  mood: moodLayout,
+  arms: spiralArmsLayout,
+}
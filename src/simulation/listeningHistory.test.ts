@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import {
+  aggregateListening,
+  describeHistoryWindow,
+  filterPlaysByWindow,
+  findArtistMatch,
+  FULL_HISTORY_WINDOW,
+  getHistoryYears,
+  matchArtistListening,
+  normalizeArtistName,
+  yearWindow,
+  type ListeningPlay,
+} from './listeningHistory'
+
+function play(
+  artistName: string,
+  playedAt: string,
+  msPlayed: number | null,
+  trackName = 'Song'
+): ListeningPlay {
+  return { artistName, trackName, trackId: null, playedAt, msPlayed }
+}
+
+describe('normalizeArtistName', () => {
+  it('ignores case, accents, punctuation, "&" and a leading "The"', () => {
+    expect(normalizeArtistName('The Beatles')).toBe('beatles')
+    expect(normalizeArtistName('Beatles.')).toBe('beatles')
+    expect(normalizeArtistName('Beyoncé')).toBe('beyonce')
+    expect(normalizeArtistName('Simon & Garfunkel')).toBe(
+      normalizeArtistName('Simon and Garfunkel')
+    )
+  })
+
+  it('keeps names made only of punctuation', () => {
+    expect(normalizeArtistName('!!!')).toBe('!!!')
+  })
+})
+
+describe('aggregateListening', () => {
+  const stats = aggregateListening([
+    play('Artist A', '2023-01-02T00:00:00.000Z', 200000),
+    play('artist a', '2023-01-01T00:00:00.000Z', 10000),
+    play('Artist B', '2023-03-01T00:00:00.000Z', 60000),
+    play('Artist B', '2023-03-02T00:00:00.000Z', 60000, 'Other'),
+    play('Artist C', '2023-02-01T00:00:00.000Z', null),
+  ])
+
+  it('counts short plays as time but not as plays', () => {
+    expect(stats.artists[1]).toMatchObject({
+      artistName: 'Artist A',
+      playCount: 1,
+      msPlayed: 210000,
+      firstPlayedAt: '2023-01-01T00:00:00.000Z',
+      lastPlayedAt: '2023-01-02T00:00:00.000Z',
+    })
+  })
+
+  it('counts scrobbles without a duration as plays', () => {
+    expect(stats.artists[2]).toMatchObject({
+      artistName: 'Artist C',
+      playCount: 1,
+      msPlayed: 0,
+    })
+  })
+
+  it('sorts by plays and reports totals and bounds', () => {
+    expect(stats.artists.map((a) => a.artistName)).toEqual([
+      'Artist B',
+      'Artist A',
+      'Artist C',
+    ])
+    expect(stats.tracks).toHaveLength(4)
+    expect(stats).toMatchObject({
+      totalPlays: 4,
+      totalMsPlayed: 330000,
+      firstPlayedAt: '2023-01-01T00:00:00.000Z',
+      lastPlayedAt: '2023-03-02T00:00:00.000Z',
+    })
+  })
+
+  it('handles an empty history', () => {
+    expect(aggregateListening([])).toMatchObject({
+      artists: [],
+      totalPlays: 0,
+      firstPlayedAt: null,
+    })
+  })
+})
+
+describe('matchArtistListening', () => {
+  it('matches galaxy artists by normalized name', () => {
+    const stats = aggregateListening([
+      play('The Weeknd', '2023-01-01T00:00:00.000Z', 200000),
+    ])
+    const matches = matchArtistListening(
+      [
+        { id: 'a1', name: 'the weeknd' },
+        { id: 'a2', name: 'Someone Else' },
+      ],
+      stats
+    )
+
+    expect(Array.from(matches.keys())).toEqual(['a1'])
+    expect(matches.get('a1')?.playCount).toBe(1)
+  })
+})
+
+describe('history windows', () => {
+  const plays = [
+    play('A', '2019-12-31T23:00:00.000Z', null),
+    play('B', '2020-06-01T00:00:00.000Z', null),
+    play('C', '2021-01-01T00:00:00.000Z', null),
+  ]
+
+  it('keeps the plays inside a window, bounds included', () => {
+    expect(
+      filterPlaysByWindow(plays, yearWindow(2020)).map((p) => p.artistName)
+    ).toEqual(['B'])
+    expect(
+      filterPlaysByWindow(plays, { start: '2020-01-01', end: null }).map(
+        (p) => p.artistName
+      )
+    ).toEqual(['B', 'C'])
+    expect(filterPlaysByWindow(plays, FULL_HISTORY_WINDOW)).toBe(plays)
+  })
+
+  it('lists the years covered', () => {
+    expect(getHistoryYears(plays)).toEqual([2019, 2020, 2021])
+  })
+
+  it('labels windows', () => {
+    expect(describeHistoryWindow(FULL_HISTORY_WINDOW)).toBe('All history')
+    expect(describeHistoryWindow(yearWindow(2020))).toBe('2020')
+    expect(describeHistoryWindow({ start: '2020-03-01', end: null })).toBe(
+      '2020-03-01 – …'
+    )
+  })
+})
+
+describe('findArtistMatch', () => {
+  it('only accepts an exact match after normalization', () => {
+    const candidates = [{ name: 'Beatles Tribute' }, { name: 'The Beatles' }]
+    expect(findArtistMatch('beatles', candidates)).toBe(candidates[1])
+    expect(findArtistMatch('Beatle', candidates)).toBeNull()
+  })
+})
@@ -0,0 +1,253 @@
+/**
+ * Plays shorter than this still add listening time but don't count as a
+ * play (Spotify's own threshold for a stream)
+ */
+export const MIN_COUNTED_PLAY_MS = 30 * 1000
+
+/**
+ * A single play from an imported listening history, whatever its source
+ */
+export interface ListeningPlay {
+  artistName: string
+  trackName: string
+  /** Spotify track ID when the source has one */
+  trackId: string | null
+  /** ISO timestamp of when the play ended */
+  playedAt: string
+  /** Null when the source only records that a play happened (scrobbles) */
+  msPlayed: number | null
+}
+
+/**
+ * Listening aggregated per artist
+ */
+export interface ArtistListening {
+  artistName: string
+  playCount: number
+  msPlayed: number
+  /** ISO timestamps of the first and last play */
+  firstPlayedAt: string
+  lastPlayedAt: string
+}
+
+/**
+ * Listening aggregated per track
+ */
+export interface TrackListening {
+  trackId: string | null
+  trackName: string
+  artistName: string
+  playCount: number
+  msPlayed: number
+}
+
+/**
+ * Aggregated listening history, most played first
+ */
+export interface ListeningStats {
+  artists: ArtistListening[]
+  tracks: TrackListening[]
+  totalPlays: number
+  totalMsPlayed: number
+  /** ISO timestamps bounding the history (null when it was empty) */
+  firstPlayedAt: string | null
+  lastPlayedAt: string | null
+}
+
+/**
+ * Inclusive date range (YYYY-MM-DD) of plays to include, null = unbounded
+ */
+export interface HistoryWindow {
+  start: string | null
+  end: string | null
+}
+
+export const FULL_HISTORY_WINDOW: HistoryWindow = { start: null, end: null }
+
+/**
+ * Normalize an artist name for matching across sources
+ * Case, accents, punctuation, "&" vs "and" and a leading "The" are ignored,
+ * so "The Beatles", "beatles" and "Beatles." all match
+ */
+export function normalizeArtistName(name: string): string {
+  const normalized = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^the /, '')
+  // Names made only of punctuation (e.g. "!!!") would otherwise be empty
+  return normalized || name.trim().toLowerCase()
+}
+
+/**
+ * Keep the plays inside a date window
+ */
+export function filterPlaysByWindow(
+  plays: ListeningPlay[],
+  window: HistoryWindow
+): ListeningPlay[] {
+  if (!window.start && !window.end) return plays
+  // Compare on the UTC date prefix of the ISO timestamp
+  return plays.filter((play) => {
+    const day = play.playedAt.slice(0, 10)
+    return (
+      (!window.start || day >= window.start) &&
+      (!window.end || day <= window.end)
+    )
+  })
+}
+
+/**
+ * Window covering one calendar year
+ */
+export function yearWindow(year: number): HistoryWindow {
+  return { start: `${String(year)}-01-01`, end: `${String(year)}-12-31` }
+}
+
+/**
+ * Short label for a window ("All history", "2019" or a date range)
+ */
+export function describeHistoryWindow(window: HistoryWindow): string {
+  if (!window.start && !window.end) return 'All history'
+  const year = window.start?.slice(0, 4)
+  if (
+    year &&
+    window.start === yearWindow(Number(year)).start &&
+    window.end === yearWindow(Number(year)).end
+  ) {
+    return year
+  }
+  return `${window.start ?? '…'} – ${window.end ?? '…'}`
+}
+
+/**
+ * Calendar years covered by the plays, oldest first
+ */
+export function getHistoryYears(plays: ListeningPlay[]): number[] {
+  const years = new Set(plays.map((play) => Number(play.playedAt.slice(0, 4))))
+  return Array.from(years).sort((a, b) => a - b)
+}
+
+/**
+ * Aggregate plays per artist and per track
+ * Every play adds listening time; only plays of at least
+ * MIN_COUNTED_PLAY_MS add to the play counts
+ */
+export function aggregateListening(plays: ListeningPlay[]): ListeningStats {
+  const artists = new Map<string, ArtistListening>()
+  const tracks = new Map<string, TrackListening>()
+  let totalPlays = 0
+  let totalMsPlayed = 0
+  let firstPlayedAt: string | null = null
+  let lastPlayedAt: string | null = null
+
+  plays.forEach((play) => {
+    // Without a duration the source already decided it was a play
+    const counted =
+      play.msPlayed === null || play.msPlayed >= MIN_COUNTED_PLAY_MS ? 1 : 0
+    const msPlayed = play.msPlayed ?? 0
+    const artistKey = normalizeArtistName(play.artistName)
+    totalPlays += counted
+    totalMsPlayed += msPlayed
+
+    // ISO 8601 timestamps compare lexicographically
+    if (firstPlayedAt === null || play.playedAt < firstPlayedAt) {
+      firstPlayedAt = play.playedAt
+    }
+    if (lastPlayedAt === null || play.playedAt > lastPlayedAt) {
+      lastPlayedAt = play.playedAt
+    }
+
+    const artist = artists.get(artistKey)
+    if (artist) {
+      artist.playCount += counted
+      artist.msPlayed += msPlayed
+      if (play.playedAt < artist.firstPlayedAt) {
+        artist.firstPlayedAt = play.playedAt
+      }
+      if (play.playedAt > artist.lastPlayedAt) {
+        artist.lastPlayedAt = play.playedAt
+      }
+    } else {
+      artists.set(artistKey, {
+        artistName: play.artistName,
+        playCount: counted,
+        msPlayed,
+        firstPlayedAt: play.playedAt,
+        lastPlayedAt: play.playedAt,
+      })
+    }
+
+    const trackKey =
+      play.trackId ?? `${artistKey}|${play.trackName.toLowerCase().trim()}`
+    const track = tracks.get(trackKey)
+    if (track) {
+      track.playCount += counted
+      track.msPlayed += msPlayed
+    } else {
+      tracks.set(trackKey, {
+        trackId: play.trackId,
+        trackName: play.trackName,
+        artistName: play.artistName,
+        playCount: counted,
+        msPlayed,
+      })
+    }
+  })
+
+  const byPlays = <T extends { playCount: number; msPlayed: number }>(
+    a: T,
+    b: T
+  ): number => b.playCount - a.playCount || b.msPlayed - a.msPlayed
+
+  return {
+    artists: Array.from(artists.values()).sort(byPlays),
+    tracks: Array.from(tracks.values()).sort(byPlays),
+    totalPlays,
+    totalMsPlayed,
+    firstPlayedAt,
+    lastPlayedAt,
+  }
+}
+
+/**
+ * Match aggregated listening to artists by normalized name
+ * Returns artist ID -> listening for every artist found in the history
+ */
+export function matchArtistListening(
+  artists: { id: string; name: string }[],
+  stats: ListeningStats
+): Map<string, ArtistListening> {
+  const byName = new Map(
+    stats.artists.map((a) => [normalizeArtistName(a.artistName), a])
+  )
+  const matches = new Map<string, ArtistListening>()
+
+  artists.forEach((artist) => {
+    const listening = byName.get(normalizeArtistName(artist.name))
+    if (listening) matches.set(artist.id, listening)
+  })
+
+  return matches
+}
+
+/**
+ * Pick the search result that is the same artist as a history name
+ * Only exact matches after normalization count - a near miss would put the
+ * wrong artist in the galaxy
+ */
+export function findArtistMatch<T extends { name: string }>(
+  artistName: string,
+  candidates: T[]
+): T | null {
+  const key = normalizeArtistName(artistName)
+  return (
+    candidates.find(
+      (candidate) => normalizeArtistName(candidate.name) === key
+    ) ?? null
+  )
+}
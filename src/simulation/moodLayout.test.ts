@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import type { SpotifyArtist } from '@/api/spotify/types'
+import { transformToGalaxyData } from './dataTransform'
+import {
+  DEFAULT_CONFIG,
+  type NodeMood,
+  type SimulationLink,
+  type SimulationNode,
+} from './forceSimulation'
+import {
+  isUnchartedPosition,
+  moodToPosition,
+  runMoodLayout,
+} from './moodLayout'
+
+function node(id: string, mood?: Omit<NodeMood, 'source'>): SimulationNode {
+  return {
+    id,
+    genres: [],
+    popularity: 50,
+    cluster: 0,
+    ...(mood && { mood: { ...mood, source: 'measured' } }),
+  }
+}
+
+function artist(id: string, genres: string[]): SpotifyArtist {
+  return {
+    id,
+    uri: `spotify:artist:${id}`,
+    name: id,
+    genres,
+    popularity: 50,
+    images: [],
+    external_urls: { spotify: '' },
+    followers: { total: 0 },
+  }
+}
+
+describe('moodToPosition', () => {
+  it('puts a neutral mood in the middle', () => {
+    expect(
+      moodToPosition({ valence: 0.5, energy: 0.5, acousticness: 0.5 }, 10)
+    ).toEqual([0, 0, 0])
+  })
+
+  it('maps valence, energy and acousticness to x, y and z', () => {
+    expect(
+      moodToPosition({ valence: 1, energy: 0, acousticness: 0.75 }, 10)
+    ).toEqual([10, -10, 5])
+  })
+})
+
+describe('runMoodLayout', () => {
+  const { radius } = DEFAULT_CONFIG
+
+  it('places known moods in their quadrants', () => {
+    const nodes = [
+      node('happy energetic', { valence: 0.9, energy: 0.9, acousticness: 0.5 }),
+      node('sad energetic', { valence: 0.1, energy: 0.9, acousticness: 0.5 }),
+      node('sad calm', { valence: 0.1, energy: 0.1, acousticness: 0.5 }),
+      node('happy calm', { valence: 0.9, energy: 0.1, acousticness: 0.5 }),
+    ]
+    runMoodLayout(nodes, [])
+
+    expect(
+      nodes.map(({ x = 0, y = 0 }) => [Math.sign(x), Math.sign(y)])
+    ).toEqual([
+      [1, 1],
+      [-1, 1],
+      [-1, -1],
+      [1, -1],
+    ])
+  })
+
+  it('borrows the mood of linked artists', () => {
+    const nodes = [
+      node('known', { valence: 0.9, energy: 0.9, acousticness: 0.5 }),
+      node('linked'),
+    ]
+    const links: SimulationLink[] = [
+      { source: 'known', target: 'linked', strength: 1 },
+    ]
+    runMoodLayout(nodes, links)
+
+    expect(nodes[1].mood).toMatchObject({ valence: 0.9, source: 'estimated' })
+    expect(nodes[1].x).toBeGreaterThan(0)
+    expect(nodes[1].y).toBeGreaterThan(0)
+  })
+
+  it('rings artists without any mood below the map', () => {
+    const nodes = [node('unknown')]
+    runMoodLayout(nodes, [])
+
+    const { x = 0, y = 0, z = 0 } = nodes[0]
+    expect(isUnchartedPosition([x, y, z], radius)).toBe(true)
+  })
+})
+
+describe('mood layout without audio features', () => {
+  it("places artists by their genres' estimated mood", () => {
+    const data = transformToGalaxyData(
+      [
+        artist('latin', ['reggaeton']),
+        artist('classical', ['baroque']),
+        artist('unknown', ['xyzzy']),
+      ],
+      { useCache: false, layoutStrategy: 'mood' }
+    )
+    const positions = new Map(data.artists.map((a) => [a.id, a.position]))
+    const missing: [number, number, number] = [NaN, NaN, NaN]
+
+    // Latin is happy and energetic, classical calm and melancholic
+    const [latinX, latinY] = positions.get('latin') ?? missing
+    const [classicalX, classicalY] = positions.get('classical') ?? missing
+    expect(latinX).toBeGreaterThan(0)
+    expect(latinY).toBeGreaterThan(0)
+    expect(classicalX).toBeLessThan(0)
+    expect(classicalY).toBeLessThan(0)
+
+    expect(
+      isUnchartedPosition(
+        positions.get('unknown') ?? missing,
+        data.layout?.radius ?? NaN
+      )
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,190 @@
+import {
+  DEFAULT_CONFIG,
+  resolveOverlaps,
+  type NodeMood,
+  type SimulationConfig,
+  type SimulationLink,
+  type SimulationNode,
+} from './forceSimulation'
+
+type MoodMetric = 'valence' | 'energy' | 'acousticness'
+
+/**
+ * Audio feature mapped onto one scene axis
+ */
+export interface MoodAxis {
+  metric: MoodMetric
+  // Scene axis: 0 = x (left/right), 1 = y (up/down), 2 = z (back/front)
+  axis: 0 | 1 | 2
+  low: string
+  high: string
+}
+
+export const MOOD_AXES: MoodAxis[] = [
+  { metric: 'valence', axis: 0, low: 'Melancholic', high: 'Happy' },
+  { metric: 'energy', axis: 1, low: 'Calm', high: 'Energetic' },
+  { metric: 'acousticness', axis: 2, low: 'Electronic', high: 'Acoustic' },
+]
+
+// Spread of artists sharing the same mood (e.g. estimated from one genre)
+const MOOD_JITTER = 1.5
+// Artists without any mood data circle this far below the map
+export const UNCHARTED_RING_OFFSET = 8
+
+/**
+ * Scene position of a mood - the map is a cube of +/- radius around the
+ * origin, a neutral mood (0.5 everywhere) sits in the middle
+ */
+export function moodToPosition(
+  mood: Pick<NodeMood, MoodMetric>,
+  radius: number
+): [number, number, number] {
+  const position: [number, number, number] = [0, 0, 0]
+  MOOD_AXES.forEach(({ metric, axis }) => {
+    position[axis] = (mood[metric] - 0.5) * 2 * radius
+  })
+  return position
+}
+
+/**
+ * Whether a position is on the ring of artists without mood data
+ */
+export function isUnchartedPosition(
+  position: [number, number, number],
+  radius: number
+): boolean {
+  return position[1] < -radius - UNCHARTED_RING_OFFSET / 2
+}
+
+/**
+ * Linked artist and the strength of the link
+ */
+interface LinkedArtist {
+  node: SimulationNode
+  strength: number
+}
+
+/**
+ * Linked artists of every artist without a mood, collected in one pass so
+ * inference doesn't rescan all links per artist
+ */
+function linkArtistsWithoutMood(
+  links: SimulationLink[],
+  byId: Map<string, SimulationNode>
+): Map<SimulationNode, LinkedArtist[]> {
+  const endpointId = (end: string | SimulationNode): string =>
+    typeof end === 'string' ? end : end.id
+  const linked = new Map<SimulationNode, LinkedArtist[]>()
+  const addLink = (
+    node: SimulationNode | undefined,
+    neighbor: SimulationNode | undefined,
+    strength: number
+  ): void => {
+    if (!node || node.mood || !neighbor) return
+    const neighbors = linked.get(node)
+    if (neighbors) {
+      neighbors.push({ node: neighbor, strength })
+    } else {
+      linked.set(node, [{ node: neighbor, strength }])
+    }
+  }
+
+  links.forEach((link) => {
+    const source = byId.get(endpointId(link.source))
+    const target = byId.get(endpointId(link.target))
+    addLink(source, target, link.strength)
+    addLink(target, source, link.strength)
+  })
+
+  return linked
+}
+
+/**
+ * Borrow a mood from linked artists (weighted by shared genres) for an
+ * artist without audio data or a recognizable genre
+ */
+function inferMoodFromLinks(linked: LinkedArtist[]): NodeMood | undefined {
+  let weight = 0
+  const sum = { valence: 0, energy: 0, acousticness: 0 }
+  linked.forEach(({ node, strength }) => {
+    const neighborMood = node.mood
+    if (!neighborMood) return
+    weight += strength
+    sum.valence += neighborMood.valence * strength
+    sum.energy += neighborMood.energy * strength
+    sum.acousticness += neighborMood.acousticness * strength
+  })
+
+  if (weight === 0) return undefined
+  return {
+    valence: sum.valence / weight,
+    energy: sum.energy / weight,
+    acousticness: sum.acousticness / weight,
+    source: 'estimated',
+  }
+}
+
+/**
+ * Small deterministic offset per artist (Fibonacci sphere), so artists with
+ * identical moods don't stack on one point
+ */
+function jitterOffset(index: number, count: number): [number, number, number] {
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5))
+  const y = 1 - (2 * (index + 0.5)) / Math.max(count, 1)
+  const ring = Math.sqrt(1 - y * y)
+  const angle = index * goldenAngle
+  return [
+    Math.cos(angle) * ring * MOOD_JITTER,
+    y * MOOD_JITTER,
+    Math.sin(angle) * ring * MOOD_JITTER,
+  ]
+}
+
+/**
+ * Place artists in 3D by their audio mood
+ * - x: valence, y: energy, z: acousticness
+ * - Artists without measured or genre-estimated mood borrow their linked
+ *   artists' mood, the rest circle below the map
+ * Always 3D - the axes are the point of the layout
+ */
+export function runMoodLayout(
+  nodes: SimulationNode[],
+  links: SimulationLink[],
+  config: Partial<SimulationConfig> = {}
+): SimulationNode[] {
+  const { radius } = { ...DEFAULT_CONFIG, ...config }
+  const byId = new Map(nodes.map((node) => [node.id, node]))
+
+  // Inferred from the original moods only, so results don't depend on order
+  const inferred = new Map<SimulationNode, NodeMood>()
+  linkArtistsWithoutMood(links, byId).forEach((linked, node) => {
+    const mood = inferMoodFromLinks(linked)
+    if (mood) inferred.set(node, mood)
+  })
+  inferred.forEach((mood, node) => {
+    node.mood = mood
+  })
+
+  const uncharted = nodes.filter((node) => !node.mood)
+  nodes.forEach((node, index) => {
+    if (!node.mood) return
+    const [x, y, z] = moodToPosition(node.mood, radius)
+    const [jx, jy, jz] = jitterOffset(index, nodes.length)
+    node.x = x + jx
+    node.y = y + jy
+    node.z = z + jz
+  })
+
+  const ringRadius = radius * 0.5
+  uncharted.forEach((node, index) => {
+    const angle = (index / uncharted.length) * Math.PI * 2
+    node.x = ringRadius * Math.cos(angle)
+    node.y = -radius - UNCHARTED_RING_OFFSET
+    node.z = ringRadius * Math.sin(angle)
+  })
+
+  // Resolve any overlapping planets
+  resolveOverlaps(nodes, 15)
+
+  return nodes
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import type { SpotifyTrack } from '@/api/spotify/types'
+import type { GalaxyArtist } from '@/types/domain'
+import type { ArtistListening } from './listeningHistory'
+import {
+  applyPlanetSizing,
+  countTracksByArtist,
+  logScale,
+  PLANET_SIZE_RANGE,
+  popularityToSize,
+  type SizingInputs,
+} from './planetSizing'
+
+function artist(id: string, popularity = 50): GalaxyArtist {
+  return { id, name: id, popularity, size: 0 } as GalaxyArtist
+}
+
+function listening(playCount: number): ArtistListening {
+  return { playCount } as ArtistListening
+}
+
+const noInputs: SizingInputs = {
+  topArtistRanks: new Map(),
+  topTrackCounts: new Map(),
+  listening: new Map(),
+}
+
+const artists = [artist('a', 90), artist('b', 10), artist('c', 50)]
+
+function sizes(
+  result: ReturnType<typeof applyPlanetSizing>
+): Record<string, number> {
+  return Object.fromEntries(result.artists.map((a) => [a.id, a.size]))
+}
+
+describe('logScale', () => {
+  it('maps onto [0, 1] relative to the maximum', () => {
+    expect(logScale(0, 100)).toBe(0)
+    expect(logScale(100, 100)).toBe(1)
+    expect(logScale(10, 100)).toBeGreaterThan(0.5)
+    expect(logScale(5, 0)).toBe(0)
+  })
+})
+
+describe('popularityToSize', () => {
+  it('spans the planet size range', () => {
+    expect(popularityToSize(0)).toBe(PLANET_SIZE_RANGE.min)
+    expect(popularityToSize(100)).toBe(PLANET_SIZE_RANGE.max)
+  })
+})
+
+describe('countTracksByArtist', () => {
+  it('counts featured artists too', () => {
+    const tracks = [
+      { artists: [{ id: 'a' }, { id: 'b' }] },
+      { artists: [{ id: 'a' }] },
+    ] as SpotifyTrack[]
+    expect(countTracksByArtist(tracks)).toEqual(
+      new Map([
+        ['a', 2],
+        ['b', 1],
+      ])
+    )
+  })
+})
+
+describe('applyPlanetSizing', () => {
+  it('sizes by rank with unranked artists smallest', () => {
+    const result = applyPlanetSizing(artists, 'rank', {
+      ...noInputs,
+      topArtistRanks: new Map([
+        ['a', 0],
+        ['b', 2],
+      ]),
+    })
+
+    expect(sizes(result)).toEqual({
+      a: PLANET_SIZE_RANGE.max,
+      b: PLANET_SIZE_RANGE.min,
+      c: PLANET_SIZE_RANGE.min,
+    })
+    expect(result.sizing).toEqual({
+      signal: 'rank',
+      requested: 'rank',
+      smallest: 3,
+      largest: 1,
+    })
+  })
+
+  it('sizes by global popularity', () => {
+    const result = applyPlanetSizing(artists, 'popularity', noInputs)
+    expect(result.artists[0]?.size).toBe(popularityToSize(90))
+    expect(result.sizing).toMatchObject({ smallest: 0, largest: 100 })
+  })
+
+  it('sizes by imported plays on a log curve', () => {
+    const result = applyPlanetSizing(artists, 'play_count', {
+      ...noInputs,
+      listening: new Map([
+        ['a', listening(1000)],
+        ['b', listening(10)],
+      ]),
+    })
+    const sized = sizes(result)
+
+    expect(sized.a).toBe(PLANET_SIZE_RANGE.max)
+    expect(sized.c).toBe(PLANET_SIZE_RANGE.min)
+    // 1% of the plays still gets a third of the range
+    expect(sized.b).toBeGreaterThan(
+      PLANET_SIZE_RANGE.min +
+        (PLANET_SIZE_RANGE.max - PLANET_SIZE_RANGE.min) / 3
+    )
+    expect(result.sizing).toMatchObject({ smallest: 0, largest: 1000 })
+  })
+
+  it('falls back to rank when the signal has no data', () => {
+    expect(
+      applyPlanetSizing(artists, 'play_count', noInputs).sizing
+    ).toMatchObject({ signal: 'rank', requested: 'play_count' })
+    expect(
+      applyPlanetSizing(artists, 'top_tracks', noInputs).sizing
+    ).toMatchObject({ signal: 'rank', requested: 'top_tracks' })
+  })
+})
@@ -0,0 +1,139 @@
+import type { SpotifyTrack } from '@/api/spotify/types'
+import type { GalaxyArtist, PlanetSizing, SizingSignal } from '@/types/domain'
+import type { ArtistListening } from './listeningHistory'
+
+/**
+ * Smallest and largest planet radius
+ */
+export const PLANET_SIZE_RANGE = { min: 0.4, max: 0.9 } as const
+
+/**
+ * Everything a sizing signal can be computed from
+ */
+export interface SizingInputs {
+  /** Artist ID -> position in the top artists list (0 = most listened) */
+  topArtistRanks: Map<string, number>
+  /** Artist ID -> number of the user's top tracks they appear on */
+  topTrackCounts: Map<string, number>
+  /** Artist ID -> imported listening history */
+  listening: Map<string, ArtistListening>
+}
+
+/**
+ * Map a value onto [0, 1] relative to the largest one on a log curve, so a
+ * handful of heavily played artists don't shrink everyone else to dots
+ */
+export function logScale(value: number, max: number): number {
+  if (max <= 0) return 0
+  return Math.log1p(value) / Math.log1p(max)
+}
+
+/**
+ * Planet radius for a position on the [0, 1] scale
+ */
+function scaleToSize(t: number): number {
+  const clamped = Math.min(1, Math.max(0, t))
+  return (
+    PLANET_SIZE_RANGE.min +
+    clamped * (PLANET_SIZE_RANGE.max - PLANET_SIZE_RANGE.min)
+  )
+}
+
+/**
+ * Transform Spotify popularity (0-100) to planet size
+ */
+export function popularityToSize(popularity: number): number {
+  return scaleToSize(popularity / 100)
+}
+
+/**
+ * Count how many of the tracks each artist appears on (features count too)
+ */
+export function countTracksByArtist(
+  tracks: SpotifyTrack[]
+): Map<string, number> {
+  const counts = new Map<string, number>()
+  tracks.forEach((track) => {
+    track.artists.forEach((artist) => {
+      counts.set(artist.id, (counts.get(artist.id) ?? 0) + 1)
+    })
+  })
+  return counts
+}
+
+/**
+ * Signal actually used: one without data (no imported history, no top
+ * tracks) falls back to top artist rank
+ */
+export function resolveSizingSignal(
+  signal: SizingSignal,
+  inputs: SizingInputs
+): SizingSignal {
+  if (signal === 'play_count' && inputs.listening.size === 0) return 'rank'
+  if (signal === 'top_tracks' && inputs.topTrackCounts.size === 0) {
+    return 'rank'
+  }
+  return signal
+}
+
+/**
+ * Size every artist by a listening signal
+ * - rank: #1 top artist is the largest, artists outside the top list are
+ *   the smallest
+ * - top_tracks: number of top tracks, relative to the artist with most
+ * - popularity: Spotify's global popularity on an absolute 0-100 scale
+ * - play_count: imported plays on a log curve, relative to the most played
+ * Returns the sized artists and a description of the mapping for the legend
+ */
+export function applyPlanetSizing(
+  artists: GalaxyArtist[],
+  requested: SizingSignal,
+  inputs: SizingInputs
+): { artists: GalaxyArtist[]; sizing: PlanetSizing } {
+  const signal = resolveSizingSignal(requested, inputs)
+
+  let sizeOf: (artist: GalaxyArtist) => number
+  let range: { smallest: number; largest: number }
+
+  switch (signal) {
+    case 'rank': {
+      const lastRank = Math.max(0, ...inputs.topArtistRanks.values())
+      sizeOf = (artist): number => {
+        const rank = inputs.topArtistRanks.get(artist.id)
+        if (rank === undefined) return PLANET_SIZE_RANGE.min
+        return scaleToSize(lastRank > 0 ? 1 - rank / lastRank : 1)
+      }
+      // Shown as 1-based ranks
+      range = { smallest: lastRank + 1, largest: 1 }
+      break
+    }
+    case 'top_tracks': {
+      const maxCount = Math.max(0, ...inputs.topTrackCounts.values())
+      sizeOf = (artist): number =>
+        scaleToSize((inputs.topTrackCounts.get(artist.id) ?? 0) / maxCount)
+      range = { smallest: 0, largest: maxCount }
+      break
+    }
+    case 'popularity':
+      sizeOf = (artist): number => popularityToSize(artist.popularity)
+      range = { smallest: 0, largest: 100 }
+      break
+    case 'play_count': {
+      const maxPlays = Array.from(inputs.listening.values()).reduce(
+        (max, l) => Math.max(max, l.playCount),
+        0
+      )
+      sizeOf = (artist): number =>
+        scaleToSize(
+          logScale(inputs.listening.get(artist.id)?.playCount ?? 0, maxPlays)
+        )
+      range = { smallest: 0, largest: maxPlays }
+      break
+    }
+  }
+
+  return {
+    artists: artists.map((artist) => ({ ...artist, size: sizeOf(artist) })),
+    sizing: { signal, requested, ...range },
+  }
+}
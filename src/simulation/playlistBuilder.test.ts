@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest'
+import type { SpotifyAudioFeatures, SpotifyTrack } from '@/api/spotify/types'
+import type { GalaxyArtist, GalaxyData, GalaxyGenre } from '@/types/domain'
+import {
+  buildPlaylistTracks,
+  getNeighborIds,
+  isPointInPolygon,
+  orderPlaylistTracks,
+  resolvePlaylistArtists,
+} from './playlistBuilder'
+
+function artist(id: string, genres: string[], size = 1): GalaxyArtist {
+  return { id, name: id, genres, size } as GalaxyArtist
+}
+
+function genre(
+  id: string,
+  name: string,
+  taxonomy: Pick<GalaxyGenre, 'parentId' | 'childIds'>
+): GalaxyGenre {
+  return { id, name, ...taxonomy } as GalaxyGenre
+}
+
+function track(id: string): SpotifyTrack {
+  return { id, name: id } as SpotifyTrack
+}
+
+const galaxyData = {
+  artists: [
+    artist('a', ['indie rock'], 1),
+    artist('b', ['shoegaze'], 3),
+    artist('c', ['techno'], 2),
+  ],
+  genres: [
+    genre('family:rock', 'Rock', { childIds: ['indie-rock', 'shoegaze'] }),
+    genre('indie-rock', 'indie rock', { parentId: 'family:rock' }),
+    genre('shoegaze', 'shoegaze', { parentId: 'family:rock' }),
+  ],
+  connections: [
+    { source: 'a', target: 'c', strength: 0.2 },
+    { source: 'b', target: 'a', strength: 0.8 },
+  ],
+} as GalaxyData
+
+describe('getNeighborIds', () => {
+  it('lists connected artists strongest first', () => {
+    expect(getNeighborIds(galaxyData.connections, 'a')).toEqual(['b', 'c'])
+  })
+})
+
+describe('resolvePlaylistArtists', () => {
+  const ids = (artists: GalaxyArtist[]): string[] => artists.map((a) => a.id)
+
+  it('keeps the anchor first for a neighborhood', () => {
+    expect(
+      ids(
+        resolvePlaylistArtists(galaxyData, {
+          kind: 'neighborhood',
+          artistId: 'a',
+        })
+      )
+    ).toEqual(['a', 'b', 'c'])
+  })
+
+  it('covers every genre of a family, biggest planets first', () => {
+    expect(
+      ids(
+        resolvePlaylistArtists(galaxyData, {
+          kind: 'genre',
+          genreId: 'family:rock',
+        })
+      )
+    ).toEqual(['b', 'a'])
+  })
+
+  it('caps the number of artists', () => {
+    expect(
+      ids(
+        resolvePlaylistArtists(
+          galaxyData,
+          { kind: 'lasso', artistIds: ['a', 'c', 'missing'] },
+          1
+        )
+      )
+    ).toEqual(['c'])
+  })
+})
+
+describe('isPointInPolygon', () => {
+  const square: [number, number][] = [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+    [0, 1],
+  ]
+
+  it('tells inside from outside', () => {
+    expect(isPointInPolygon([0.5, 0.5], square)).toBe(true)
+    expect(isPointInPolygon([1.5, 0.5], square)).toBe(false)
+  })
+})
+
+describe('buildPlaylistTracks', () => {
+  it('uses each track once and estimates missing features', () => {
+    const shared = track('t2')
+    const tracks = buildPlaylistTracks(
+      [artist('a', ['techno']), artist('b', ['techno'])],
+      new Map([
+        ['a', [track('t1'), shared]],
+        ['b', [shared, track('t3')]],
+      ]),
+      [{ id: 't1', energy: 0.9, tempo: 128 } as SpotifyAudioFeatures],
+      2
+    )
+
+    expect(tracks.map((t) => t.track.id)).toEqual(['t1', 't2', 't3'])
+    expect(tracks[0]).toMatchObject({ energy: 0.9, audioSource: 'measured' })
+    expect(tracks[1]?.audioSource).toBe('estimated')
+  })
+})
+
+describe('orderPlaylistTracks', () => {
+  const tracks = buildPlaylistTracks(
+    [artist('a', [])],
+    new Map([['a', [track('t1'), track('t2'), track('t3')]]]),
+    [
+      { id: 't1', energy: 0.8, tempo: 90 },
+      { id: 't2', energy: 0.2, tempo: 140 },
+      { id: 't3', energy: 0.5, tempo: 120 },
+    ] as SpotifyAudioFeatures[]
+  )
+  const order = (ordered: typeof tracks): string[] =>
+    ordered.map((t) => t.track.id)
+
+  it('ramps energy up or sorts by tempo', () => {
+    expect(order(orderPlaylistTracks(tracks, 'energy_ramp'))).toEqual([
+      't2',
+      't3',
+      't1',
+    ])
+    expect(order(orderPlaylistTracks(tracks, 'tempo'))).toEqual([
+      't1',
+      't3',
+      't2',
+    ])
+  })
+
+  it('shuffles reproducibly for a seed', () => {
+    expect(order(orderPlaylistTracks(tracks, 'shuffle', 7))).toEqual(
+      order(orderPlaylistTracks(tracks, 'shuffle', 7))
+    )
+  })
+})
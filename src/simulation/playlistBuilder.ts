@@ -0,0 +1,202 @@
+import type { SpotifyAudioFeatures, SpotifyTrack } from '@/api/spotify/types'
+import type {
+  ArtistConnection,
+  AudioValueSource,
+  GalaxyArtist,
+  GalaxyData,
+  PlaylistOrdering,
+  PlaylistSelection,
+} from '@/types/domain'
+import { genreMemberNames } from '@/utils/genreTaxonomy'
+import {
+  estimateAudioFromGenres,
+  NEUTRAL_AUDIO_ESTIMATE,
+} from './audioEstimator'
+
+/**
+ * Artists a playlist draws from (the biggest planets win when a selection
+ * is larger), keeping the number of top-track requests bounded
+ */
+export const PLAYLIST_MAX_ARTISTS = 25
+
+/**
+ * Top tracks taken from each artist
+ */
+export const PLAYLIST_TRACKS_PER_ARTIST = 3
+
+export interface PlaylistTrack {
+  track: SpotifyTrack
+  artist: GalaxyArtist
+  energy: number
+  tempo: number
+  // Estimated from the artist's genres when the track has no audio features
+  audioSource: AudioValueSource
+}
+
+/**
+ * Connections touching an artist (the lines drawn while it is selected)
+ */
+export function getArtistConnections(
+  connections: ArtistConnection[],
+  artistId: string
+): ArtistConnection[] {
+  return connections.filter(
+    (c) => c.source === artistId || c.target === artistId
+  )
+}
+
+/**
+ * Artists connected to an artist, strongest connection first
+ */
+export function getNeighborIds(
+  connections: ArtistConnection[],
+  artistId: string
+): string[] {
+  return getArtistConnections(connections, artistId)
+    .sort((a, b) => b.strength - a.strength)
+    .map((c) => (c.source === artistId ? c.target : c.source))
+}
+
+/**
+ * Resolve a playlist selection to galaxy artists
+ * A neighborhood keeps its anchor artist first, other selections are ordered
+ * by planet size
+ */
+export function resolvePlaylistArtists(
+  galaxyData: GalaxyData,
+  selection: PlaylistSelection,
+  maxArtists: number = PLAYLIST_MAX_ARTISTS
+): GalaxyArtist[] {
+  const artistsById = new Map(galaxyData.artists.map((a) => [a.id, a]))
+
+  if (selection.kind === 'neighborhood') {
+    const ids = [
+      selection.artistId,
+      ...getNeighborIds(galaxyData.connections, selection.artistId),
+    ]
+    return [...new Set(ids)]
+      .map((id) => artistsById.get(id))
+      .filter((a): a is GalaxyArtist => a !== undefined)
+      .slice(0, maxArtists)
+  }
+
+  let artists: GalaxyArtist[]
+  if (selection.kind === 'genre') {
+    const genre = galaxyData.genres.find((g) => g.id === selection.genreId)
+    const names = genre
+      ? genreMemberNames(genre, galaxyData.genres)
+      : new Set<string>()
+    artists = galaxyData.artists.filter((a) =>
+      a.genres.some((g) => names.has(g))
+    )
+  } else {
+    artists = selection.artistIds
+      .map((id) => artistsById.get(id))
+      .filter((a): a is GalaxyArtist => a !== undefined)
+  }
+
+  return [...artists].sort((a, b) => b.size - a.size).slice(0, maxArtists)
+}
+
+/**
+ * Ray-casting point-in-polygon test (any consistent 2D space)
+ */
+export function isPointInPolygon(
+  point: [number, number],
+  polygon: [number, number][]
+): boolean {
+  const [x, y] = point
+  let inside = false
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i]
+    const [xj, yj] = polygon[j]
+    const crosses =
+      yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi
+    if (crosses) inside = !inside
+  }
+
+  return inside
+}
+
+/**
+ * Pick each artist's top tracks and attach energy and tempo
+ * Tracks shared by several selected artists (features) are only used once
+ */
+export function buildPlaylistTracks(
+  artists: GalaxyArtist[],
+  tracksByArtist: Map<string, SpotifyTrack[]>,
+  audioFeatures: SpotifyAudioFeatures[],
+  tracksPerArtist: number = PLAYLIST_TRACKS_PER_ARTIST
+): PlaylistTrack[] {
+  const featuresById = new Map(audioFeatures.map((f) => [f.id, f]))
+  const seen = new Set<string>()
+  const tracks: PlaylistTrack[] = []
+
+  artists.forEach((artist) => {
+    const estimate =
+      estimateAudioFromGenres(artist.genres) ?? NEUTRAL_AUDIO_ESTIMATE
+
+    const picked = (tracksByArtist.get(artist.id) ?? [])
+      .filter((track) => !seen.has(track.id))
+      .slice(0, tracksPerArtist)
+
+    picked.forEach((track) => {
+      seen.add(track.id)
+      const features = featuresById.get(track.id)
+      tracks.push({
+        track,
+        artist,
+        energy: features?.energy ?? estimate.energy,
+        tempo: features?.tempo ?? estimate.tempo,
+        audioSource: features ? 'measured' : 'estimated',
+      })
+    })
+  })
+
+  return tracks
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so a shuffle can be previewed and then
+ * saved in the same order
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Order playlist tracks
+ * - energy_ramp: calmest to most energetic
+ * - tempo: slowest to fastest
+ * - shuffle: random order, reproducible for the same seed
+ */
+export function orderPlaylistTracks(
+  tracks: PlaylistTrack[],
+  ordering: PlaylistOrdering,
+  seed = 0
+): PlaylistTrack[] {
+  const ordered = [...tracks]
+
+  switch (ordering) {
+    case 'energy_ramp':
+      return ordered.sort((a, b) => a.energy - b.energy || a.tempo - b.tempo)
+    case 'tempo':
+      return ordered.sort((a, b) => a.tempo - b.tempo || a.energy - b.energy)
+    case 'shuffle': {
+      const random = seededRandom(seed)
+      for (let i = ordered.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1))
+        ;[ordered[i], ordered[j]] = [ordered[j], ordered[i]]
+      }
+      return ordered
+    }
+  }
+}
@@ -3,93 +3,58 @@
  * Uses localStorage to persist positions across sessions
  */
 
-import type { TimeRange } from '@/types/domain'
+import type { LayoutStrategyId, TimeRange } from '@/types/domain'
+import { profileKey } from '@/api/spotify/profiles'
 
 const CACHE_KEY_PREFIX = 'auranova:positions:'
-const CACHE_VERSION = 3 // Incremented for 3D spherical orbital positioning
-
-interface CacheEntry {
-  version: number
-  timestamp: number
-  artistIds: string[]
-  positions: Map<string, [number, number, number]>
-}
+const CACHE_VERSION = 4 // Incremented for incremental layouts (one entry per time range)
+// Artists that left the galaxy keep their position up to this many, so
+// they return to their old spot
+const MAX_REMEMBERED_ARTISTS = 5000
 
 interface SerializedCacheEntry {
   version: number
   timestamp: number
-  artistIds: string[]
+  // Current artists first, then remembered ones (most recent first)
   positions: [string, [number, number, number]][]
 }
 
 /**
- * Generate a cache key for a specific time range and artist set
+ * Generate a cache key for a specific time range and layout
+ * Keys are namespaced by the active profile
  */
-function getCacheKey(timeRange: TimeRange, artistIds: string[]): string {
-  // Create a hash of sorted artist IDs to detect changes
-  const sortedIds = [...artistIds].sort()
-  const idsHash = sortedIds.join(',').slice(0, 100) // Truncate for key length
-  return `${CACHE_KEY_PREFIX}${timeRange}:${String(sortedIds.length)}:${String(hashCode(idsHash))}`
+function getCacheKey(timeRange: TimeRange, layout: LayoutStrategyId): string {
+  return profileKey(`${CACHE_KEY_PREFIX}${layout}:${timeRange}`)
 }
 
 /**
- * Simple hash function for string
+ * Read a cache entry, dropping it if it's from an older cache version
  */
-function hashCode(str: string): number {
-  let hash = 0
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i)
-    hash = (hash << 5) - hash + char
-    hash = hash & hash // Convert to 32bit integer
-  }
-  return Math.abs(hash)
-}
-
-/**
- * Check if cached positions are still valid
- * Invalid if artist set has changed
- */
-function isCacheValid(cached: CacheEntry, currentArtistIds: string[]): boolean {
-  if (cached.version !== CACHE_VERSION) return false
-
-  // Check if artist sets match
-  const cachedSet = new Set(cached.artistIds)
-  const currentSet = new Set(currentArtistIds)
+function readCacheEntry(key: string): SerializedCacheEntry | null {
+  const stored = localStorage.getItem(key)
+  if (!stored) return null
 
-  if (cachedSet.size !== currentSet.size) return false
-
-  for (const id of currentSet) {
-    if (!cachedSet.has(id)) return false
+  const entry = JSON.parse(stored) as SerializedCacheEntry
+  if (entry.version !== CACHE_VERSION) {
+    localStorage.removeItem(key)
+    return null
   }
 
-  return true
+  return entry
 }
 
 /**
- * Get cached positions for a time range and artist set
+ * Get the last cached positions for a time range and layout
+ * Covers every artist laid out there before, including artists that have
+ * since left the galaxy - callers keep these and place the rest
  */
 export function getCachedPositions(
   timeRange: TimeRange,
-  artistIds: string[]
+  layout: LayoutStrategyId
 ): Map<string, [number, number, number]> | null {
   try {
-    const key = getCacheKey(timeRange, artistIds)
-    const stored = localStorage.getItem(key)
-
-    if (!stored) return null
-
-    const serialized = JSON.parse(stored) as SerializedCacheEntry
-    const cached: CacheEntry = {
-      ...serialized,
-      positions: new Map(serialized.positions),
-    }
-
-    if (!isCacheValid(cached, artistIds)) {
-      localStorage.removeItem(key)
-      return null
-    }
-
-    return cached.positions
+    const entry = readCacheEntry(getCacheKey(timeRange, layout))
+    return entry ? new Map(entry.positions) : null
   } catch {
     return null
   }
@@ -97,20 +62,24 @@ export function getCachedPositions(
 
 /**
  * Save positions to cache
+ * Positions of artists missing from the new layout are remembered
  */
 export function setCachedPositions(
   timeRange: TimeRange,
-  artistIds: string[],
+  layout: LayoutStrategyId,
   positions: Map<string, [number, number, number]>
 ): void {
   try {
-    const key = getCacheKey(timeRange, artistIds)
+    const key = getCacheKey(timeRange, layout)
+
+    const remembered = (readCacheEntry(key)?.positions ?? [])
+      .filter(([id]) => !positions.has(id))
+      .slice(0, MAX_REMEMBERED_ARTISTS)
 
     const entry: SerializedCacheEntry = {
       version: CACHE_VERSION,
       timestamp: Date.now(),
-      artistIds,
-      positions: Array.from(positions.entries()),
+      positions: [...positions.entries(), ...remembered],
     }
 
     localStorage.setItem(key, JSON.stringify(entry))
@@ -120,7 +89,7 @@ export function setCachedPositions(
 }
 
 /**
- * Clear all cached positions
+ * Clear all cached positions (every profile)
  */
 export function clearPositionCache(): void {
   try {
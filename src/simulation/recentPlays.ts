@@ -0,0 +1,70 @@
+import type { SpotifyPlayHistory } from '@/api/spotify/types'
+
+/**
+ * How far back a play counts towards the "recent orbit" layer
+ */
+export const RECENT_ORBIT_WINDOW_DAYS = 7
+
+/**
+ * Plays aggregated per artist from recently-played history
+ */
+export interface ArtistPlaySummary {
+  artistId: string
+  artistName: string
+  playCount: number
+  /** ISO timestamp of the most recent play */
+  lastPlayedAt: string
+  /** ISO timestamps of every play, newest first */
+  playedAt: string[]
+}
+
+/**
+ * Aggregate play history per artist (featured artists count too)
+ * Sorted by most recently played first
+ */
+export function aggregatePlaysByArtist(
+  history: SpotifyPlayHistory[]
+): ArtistPlaySummary[] {
+  const summaries = new Map<string, ArtistPlaySummary>()
+
+  history.forEach((item) => {
+    item.track.artists.forEach((artist) => {
+      const existing = summaries.get(artist.id)
+      if (existing) {
+        existing.playCount += 1
+        existing.playedAt.push(item.played_at)
+        if (item.played_at > existing.lastPlayedAt) {
+          existing.lastPlayedAt = item.played_at
+        }
+      } else {
+        summaries.set(artist.id, {
+          artistId: artist.id,
+          artistName: artist.name,
+          playCount: 1,
+          lastPlayedAt: item.played_at,
+          playedAt: [item.played_at],
+        })
+      }
+    })
+  })
+
+  // ISO 8601 timestamps sort lexicographically
+  return Array.from(summaries.values())
+    .map((summary) => ({
+      ...summary,
+      playedAt: [...summary.playedAt].sort().reverse(),
+    }))
+    .sort((a, b) => b.lastPlayedAt.localeCompare(a.lastPlayedAt))
+}
+
+/**
+ * Whether a play summary falls inside the recent window
+ */
+export function isWithinRecentWindow(
+  summary: ArtistPlaySummary,
+  windowDays: number = RECENT_ORBIT_WINDOW_DAYS,
+  now: number = Date.now()
+): boolean {
+  const playedAt = Date.parse(summary.lastPlayedAt)
+  return now - playedAt <= windowDays * 24 * 60 * 60 * 1000
+}
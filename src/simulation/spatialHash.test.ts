@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { buildSpatialHash, forEachNeighborCandidate } from './spatialHash'
+
+function candidates(
+  points: { x?: number; y?: number; z?: number }[],
+  cellSize: number,
+  position: { x?: number; y?: number; z?: number }
+): number[] {
+  const found: number[] = []
+  forEachNeighborCandidate(
+    buildSpatialHash(points, cellSize),
+    position,
+    (i) => {
+      found.push(i)
+    }
+  )
+  return found.sort((a, b) => a - b)
+}
+
+describe('spatial hash', () => {
+  it('finds points in the surrounding cells only', () => {
+    const points = [
+      { x: 0, y: 0, z: 0 },
+      { x: 1.5, y: -0.5, z: 1.5 },
+      { x: 2.5, y: 0, z: 0 },
+      { x: 0, y: 0, z: -3 },
+    ]
+    expect(candidates(points, 1, { x: 0.5, y: 0.5, z: 0.5 })).toEqual([0, 1])
+  })
+
+  it('finds every point within one cell size', () => {
+    let seed = 3
+    const next = (): number => {
+      seed = (seed * 16807) % 2147483647
+      return (seed / 2147483647) * 20 - 10
+    }
+    const points = Array.from({ length: 300 }, () => ({
+      x: next(),
+      y: next(),
+      z: next(),
+    }))
+    const position = { x: 0, y: 0, z: 0 }
+    const found = candidates(points, 2, position)
+
+    points.forEach((p, i) => {
+      if (Math.hypot(p.x, p.y, p.z) <= 2) expect(found).toContain(i)
+    })
+  })
+
+  it('treats missing coordinates as 0', () => {
+    expect(candidates([{}, { x: 5 }], 1, { y: 0.5 })).toEqual([0])
+  })
+
+  it('clamps far-away points into the edge cells', () => {
+    const points = [{ x: 1e9 }, { x: 2e9 }]
+    expect(candidates(points, 1, { x: 5e9 })).toEqual([0, 1])
+  })
+
+  it('visits candidates in a fixed order', () => {
+    const points = [{ x: 0.5 }, { x: -0.5 }, { x: 0.5, y: 0.5 }]
+    const hash = buildSpatialHash(points, 1)
+    const visit = (): number[] => {
+      const order: number[] = []
+      forEachNeighborCandidate(hash, {}, (i) => {
+        order.push(i)
+      })
+      return order
+    }
+    expect(visit()).toEqual(visit())
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Uniform grid over 3D points for fixed-radius neighbor queries
+ * Points are bucketed by cell, so everything within one cell size of a
+ * position is found by scanning the 27 surrounding cells instead of every
+ * point
+ */
+
+interface Point3 {
+  x?: number
+  y?: number
+  z?: number
+}
+
+export interface SpatialHash {
+  cellSize: number
+  // Packed cell coordinates -> indices of the points in that cell
+  cells: Map<number, number[]>
+}
+
+// Cell coordinates are offset into [0, CELL_RANGE) per axis and packed into
+// one small integer (3 x 10 bits), which keeps map lookups fast. Points past
+// the range share the edge cells - slower, but never missed
+const CELL_RANGE = 1 << 10
+const CELL_OFFSET = CELL_RANGE / 2
+
+function cellCoordinate(value: number, cellSize: number): number {
+  const cell = Math.floor(value / cellSize) + CELL_OFFSET
+  return Math.min(Math.max(cell, 0), CELL_RANGE - 1)
+}
+
+function cellKey(cx: number, cy: number, cz: number): number {
+  return (cx * CELL_RANGE + cy) * CELL_RANGE + cz
+}
+
+/**
+ * Bucket points into cells of the given size (at least the query radius)
+ */
+export function buildSpatialHash(
+  points: readonly Point3[],
+  cellSize: number
+): SpatialHash {
+  const cells = new Map<number, number[]>()
+
+  points.forEach((point, index) => {
+    const key = cellKey(
+      cellCoordinate(point.x ?? 0, cellSize),
+      cellCoordinate(point.y ?? 0, cellSize),
+      cellCoordinate(point.z ?? 0, cellSize)
+    )
+    const cell = cells.get(key)
+    if (cell) {
+      cell.push(index)
+    } else {
+      cells.set(key, [index])
+    }
+  })
+
+  return { cellSize, cells }
+}
+
+/**
+ * Visit the indices of the points that may lie within one cell size of a
+ * position (callers still check the actual distance)
+ * Visits happen in a fixed order, so results built from them are
+ * deterministic
+ */
+export function forEachNeighborCandidate(
+  hash: SpatialHash,
+  position: Point3,
+  visit: (index: number) => void
+): void {
+  const cx = cellCoordinate(position.x ?? 0, hash.cellSize)
+  const cy = cellCoordinate(position.y ?? 0, hash.cellSize)
+  const cz = cellCoordinate(position.z ?? 0, hash.cellSize)
+
+  // The cell and its neighbors, clamped to the grid
+  const low = (cell: number): number => Math.max(cell - 1, 0)
+  const high = (cell: number): number => Math.min(cell + 1, CELL_RANGE - 1)
+
+  for (let x = low(cx); x <= high(cx); x++) {
+    for (let y = low(cy); y <= high(cy); y++) {
+      for (let z = low(cz); z <= high(cz); z++) {
+        const cell = hash.cells.get(cellKey(x, y, z))
+        if (!cell) continue
+        for (const index of cell) visit(index)
+      }
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  GENRE_FAMILIES,
+  genreFamily,
+  type GenreFamily,
+} from '@/utils/genreTaxonomy'
+import {
+  DEFAULT_CONFIG,
+  resolveOverlaps,
+  type SimulationConfig,
+  type SimulationLink,
+  type SimulationNode,
+} from './forceSimulation'
+
+// Arm of artists without a recognizable genre family
+type ArmId = GenreFamily | 'other'
+
+// How far each arm winds from the core to the rim
+const ARM_TWIST = Math.PI
+// Room left between neighboring sub-genre clusters (in artist slots)
+const CLUSTER_GAP = 2
+// Radius of a sub-genre cluster per cube root of its artists
+const CLUSTER_SPREAD = 1.2
+// Arms are flatter than they are wide, like a disc galaxy
+const ARM_FLATTENING = 0.5
+
+/**
+ * Family (arm) and sub-genre (cluster) of an artist
+ * The family is the one most of the artist's genres belong to, the
+ * sub-genre their most common genre in that family across the galaxy
+ */
+function classifyNode(
+  node: SimulationNode,
+  genreCounts: Map<string, number>
+): { arm: ArmId; cluster: string } {
+  const familyCounts = new Map<GenreFamily, number>()
+  node.genres.forEach((genre) => {
+    const family = genreFamily(genre)
+    if (family) familyCounts.set(family, (familyCounts.get(family) ?? 0) + 1)
+  })
+
+  const [arm] = Array.from(familyCounts).reduce<[ArmId, number]>(
+    (best, entry) => (entry[1] > best[1] ? entry : best),
+    ['other', 0]
+  )
+
+  const armGenres =
+    arm === 'other'
+      ? node.genres
+      : node.genres.filter((genre) => genreFamily(genre) === arm)
+  const cluster = armGenres.reduce<string | null>(
+    (best, genre) =>
+      best === null ||
+      (genreCounts.get(genre) ?? 0) > (genreCounts.get(best) ?? 0)
+        ? genre
+        : best,
+    null
+  )
+
+  return { arm, cluster: cluster ?? '' }
+}
+
+/**
+ * Offset of the i-th of n artists in a cluster (Fibonacci sphere filled
+ * from the middle), so the most popular artist sits at the cluster center
+ */
+function clusterOffset(
+  index: number,
+  count: number,
+  radius: number
+): [number, number, number] {
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5))
+  const y = 1 - (2 * (index + 0.5)) / count
+  const ring = Math.sqrt(1 - y * y)
+  const angle = index * goldenAngle
+  const distance = radius * Math.cbrt((index + 0.5) / count)
+  return [
+    Math.cos(angle) * ring * distance,
+    y * distance,
+    Math.sin(angle) * ring * distance,
+  ]
+}
+
+/**
+ * Arrange each genre family as a spiral arm with sub-genre clusters
+ * - Arms keep a fixed order around the core (taxonomy order), so a family
+ *   points the same way in every time range
+ * - Along an arm, clusters run from the biggest sub-genre near the core to
+ *   the smallest at the rim; popular artists sit at cluster centers
+ * - Artists without a known family form an extra arm
+ */
+export function runSpiralArmsLayout(
+  nodes: SimulationNode[],
+  _links: SimulationLink[], // Arms follow genres, not links
+  config: Partial<SimulationConfig> = {}
+): SimulationNode[] {
+  const cfg = { ...DEFAULT_CONFIG, ...config }
+
+  const genreCounts = new Map<string, number>()
+  nodes.forEach((node) => {
+    node.genres.forEach((genre) => {
+      genreCounts.set(genre, (genreCounts.get(genre) ?? 0) + 1)
+    })
+  })
+
+  // Arm -> sub-genre -> artists
+  const arms = new Map<ArmId, Map<string, SimulationNode[]>>()
+  nodes.forEach((node) => {
+    const { arm, cluster } = classifyNode(node, genreCounts)
+    const clusters = arms.get(arm) ?? new Map<string, SimulationNode[]>()
+    arms.set(arm, clusters)
+    const clusterNodes = clusters.get(cluster)
+    if (clusterNodes) {
+      clusterNodes.push(node)
+    } else {
+      clusters.set(cluster, [node])
+    }
+  })
+
+  const armIds: ArmId[] = [
+    ...(Object.keys(GENRE_FAMILIES) as GenreFamily[]),
+    'other',
+  ]
+  const armOrder = armIds.filter((arm) => arms.has(arm))
+
+  armOrder.forEach((arm, armIndex) => {
+    const baseAngle = (armIndex / armOrder.length) * Math.PI * 2
+    const clusters = Array.from(arms.get(arm)?.values() ?? []).sort(
+      (a, b) => b.length - a.length
+    )
+    const armLength =
+      clusters.reduce((sum, cluster) => sum + cluster.length, 0) +
+      CLUSTER_GAP * (clusters.length - 1)
+
+    let slot = 0
+    clusters.forEach((cluster) => {
+      // Cluster center along the arm (0 = core, 1 = rim)
+      const t = (slot + cluster.length / 2) / Math.max(armLength, 1)
+      slot += cluster.length + CLUSTER_GAP
+
+      const radius = cfg.innerRadius + t * (cfg.outerRadius - cfg.innerRadius)
+      const angle = baseAngle + t * ARM_TWIST
+      const center: [number, number, number] = [
+        radius * Math.cos(angle),
+        0,
+        radius * Math.sin(angle),
+      ]
+      const spread = CLUSTER_SPREAD * Math.cbrt(cluster.length)
+
+      const byPopularity = [...cluster].sort(
+        (a, b) => b.popularity - a.popularity
+      )
+      byPopularity.forEach((node, index) => {
+        const [dx, dy, dz] = clusterOffset(index, cluster.length, spread)
+        node.x = center[0] + dx
+        node.y = cfg.use3D ? dy * ARM_FLATTENING : 0
+        node.z = center[2] + dz
+      })
+    })
+  })
+
+  // Resolve any overlapping planets
+  resolveOverlaps(nodes, 15)
+
+  return nodes
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { parseStreamingHistory } from './streamingHistory'
+
+describe('parseStreamingHistory', () => {
+  it('parses extended streaming history entries', () => {
+    const plays = parseStreamingHistory(
+      JSON.stringify([
+        {
+          ts: '2023-05-01T12:00:00Z',
+          ms_played: 180000,
+          master_metadata_track_name: 'Song',
+          master_metadata_album_artist_name: 'Artist',
+          spotify_track_uri: 'spotify:track:abc123',
+        },
+      ])
+    )
+
+    expect(plays).toEqual([
+      {
+        artistName: 'Artist',
+        trackName: 'Song',
+        trackId: 'abc123',
+        playedAt: '2023-05-01T12:00:00.000Z',
+        msPlayed: 180000,
+      },
+    ])
+  })
+
+  it('skips podcast episodes', () => {
+    const plays = parseStreamingHistory(
+      JSON.stringify([
+        {
+          ts: '2023-05-01T12:00:00Z',
+          ms_played: 600000,
+          master_metadata_track_name: null,
+          master_metadata_album_artist_name: null,
+          spotify_track_uri: null,
+          spotify_episode_uri: 'spotify:episode:xyz',
+        },
+      ])
+    )
+
+    expect(plays).toEqual([])
+  })
+
+  it('parses the basic account data export as UTC', () => {
+    const [play] = parseStreamingHistory(
+      JSON.stringify([
+        {
+          endTime: '2022-12-31 23:59',
+          artistName: 'Artist',
+          trackName: 'Song',
+          msPlayed: 1000,
+        },
+      ])
+    )
+
+    expect(play).toMatchObject({
+      trackId: null,
+      playedAt: '2022-12-31T23:59:00.000Z',
+      msPlayed: 1000,
+    })
+  })
+
+  it('skips entries with an invalid date', () => {
+    const plays = parseStreamingHistory(
+      JSON.stringify([
+        {
+          ts: 'not a date',
+          ms_played: 180000,
+          master_metadata_track_name: 'Song',
+          master_metadata_album_artist_name: 'Artist',
+          spotify_track_uri: 'spotify:track:abc123',
+        },
+        {
+          endTime: '2022-13-45 99:99',
+          artistName: 'Artist',
+          trackName: 'Song',
+          msPlayed: 1000,
+        },
+      ])
+    )
+
+    expect(plays).toEqual([])
+  })
+
+  it('accepts an empty history', () => {
+    expect(parseStreamingHistory('[]')).toEqual([])
+  })
+
+  it('rejects files that are not a streaming history', () => {
+    expect(() => parseStreamingHistory('{"plays": []}')).toThrow(
+      'Not a Spotify streaming history file'
+    )
+    expect(() => parseStreamingHistory('[{"name": "x"}]')).toThrow(
+      'Not a Spotify streaming history file'
+    )
+    expect(() => parseStreamingHistory('not json')).toThrow(SyntaxError)
+  })
+})
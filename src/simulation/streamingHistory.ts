@@ -0,0 +1,121 @@
+import type { ListeningPlay } from './listeningHistory'
+
+/**
+ * One entry of Spotify's "Extended streaming history" privacy export
+ * (Streaming_History_Audio_*.json). Only the fields we use are listed;
+ * podcast episodes and audiobooks have null track metadata
+ */
+export interface ExtendedStreamingHistoryEntry {
+  /** ISO timestamp of when the stream ended */
+  ts: string
+  ms_played: number
+  master_metadata_track_name: string | null
+  master_metadata_album_artist_name: string | null
+  /** spotify:track:<id> */
+  spotify_track_uri: string | null
+}
+
+/**
+ * One entry of the basic "Account data" export (StreamingHistory*.json),
+ * accepted too since it's what most people download first
+ */
+export interface StreamingHistoryEntry {
+  /** "YYYY-MM-DD HH:mm" in UTC */
+  endTime: string
+  artistName: string
+  trackName: string
+  msPlayed: number
+}
+
+const TRACK_URI_PREFIX = 'spotify:track:'
+
+function isExtendedEntry(
+  entry: unknown
+): entry is ExtendedStreamingHistoryEntry {
+  if (typeof entry !== 'object' || entry === null) return false
+  const candidate = entry as Partial<ExtendedStreamingHistoryEntry>
+  return (
+    typeof candidate.ts === 'string' &&
+    typeof candidate.ms_played === 'number' &&
+    'master_metadata_album_artist_name' in candidate
+  )
+}
+
+function isBasicEntry(entry: unknown): entry is StreamingHistoryEntry {
+  if (typeof entry !== 'object' || entry === null) return false
+  const candidate = entry as Partial<StreamingHistoryEntry>
+  return (
+    typeof candidate.endTime === 'string' &&
+    typeof candidate.artistName === 'string' &&
+    typeof candidate.trackName === 'string' &&
+    typeof candidate.msPlayed === 'number'
+  )
+}
+
+/**
+ * ISO timestamp of a date string, or null if it isn't a valid date
+ */
+function toIsoTimestamp(value: string): string | null {
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+/**
+ * Convert an export entry to a play (null for podcasts, audiobooks and
+ * entries without a valid date)
+ */
+function entryToPlay(entry: unknown): ListeningPlay | null {
+  if (isExtendedEntry(entry)) {
+    const artistName = entry.master_metadata_album_artist_name
+    const trackName = entry.master_metadata_track_name
+    const playedAt = toIsoTimestamp(entry.ts)
+    if (!artistName || !trackName || !playedAt) return null
+
+    const uri = entry.spotify_track_uri
+    return {
+      artistName,
+      trackName,
+      trackId: uri?.startsWith(TRACK_URI_PREFIX)
+        ? uri.slice(TRACK_URI_PREFIX.length)
+        : null,
+      playedAt,
+      msPlayed: entry.ms_played,
+    }
+  }
+
+  if (isBasicEntry(entry)) {
+    const playedAt = toIsoTimestamp(`${entry.endTime.replace(' ', 'T')}Z`)
+    if (!playedAt) return null
+
+    return {
+      artistName: entry.artistName,
+      trackName: entry.trackName,
+      trackId: null,
+      playedAt,
+      msPlayed: entry.msPlayed,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parse one streaming history file from Spotify's privacy export
+ * Runs entirely locally; throws if the file isn't a streaming history
+ */
+export function parseStreamingHistory(json: string): ListeningPlay[] {
+  const data = JSON.parse(json) as unknown
+
+  if (
+    !Array.isArray(data) ||
+    (data.length > 0 && !isExtendedEntry(data[0]) && !isBasicEntry(data[0]))
+  ) {
+    throw new Error(
+      'Not a Spotify streaming history file: expected Streaming_History_Audio_*.json'
+    )
+  }
+
+  return data
+    .map(entryToPlay)
+    .filter((play): play is ListeningPlay => play !== null)
+}
@@ -5,27 +5,110 @@ import {
   logout as authLogout,
   isAuthenticated,
   getStoredAuth,
+  getGrantedScopes,
+  AuthError,
+  type AuthErrorKind,
 } from '@/api/spotify/auth'
+import {
+  addProfile as registerProfile,
+  removeProfile as unregisterProfile,
+  renameProfile as updateProfileName,
+  getProfileRegistry,
+  profileScopedSessionStorage,
+  profileScopedStorage,
+  setActiveProfileId,
+  type AuthProfile,
+  type ProfileScopedStorage,
+} from '@/api/spotify/profiles'
+import { tokenStores, type TokenStorageKind } from '@/api/spotify/tokenStore'
+import type { AppFeature } from '@/api/spotify/scopes'
+import { clearListeningHistory, clearPersistedCache } from '@/api/cache'
+import { spotifyPlayer } from '@/audio/SpotifyPlayer'
+import { useMusicStore } from './musicStore'
+import { useFeatureFlagsStore } from './featureFlagsStore'
+import { useUIStore } from './uiStore'
+import { usePlaybackStore } from './playbackStore'
+import { usePlaylistStore } from './playlistStore'
+
+// What a profile switch needs from a persisted store
+interface ProfileScopedStore<S> {
+  getInitialState: () => S
+  setState: (state: S) => void
+  persist: {
+    getOptions: () => { name?: string | undefined }
+    rehydrate: () => Promise<void> | void
+  }
+}
+
+/**
+ * Reset a persisted store and load the active profile's copy of its state
+ * from the storage the store persists to
+ */
+function loadProfileStore<S>(
+  store: ProfileScopedStore<S>,
+  storage: ProfileScopedStorage = profileScopedStorage
+): void {
+  const { name } = store.persist.getOptions()
+  if (!name) return
+
+  // Resetting persists the defaults under the new profile's key, so put
+  // its stored preferences back before rehydrating over the defaults
+  const stored = storage.getItem(name)
+  store.setState(store.getInitialState())
+  if (stored !== null) {
+    storage.setItem(name, stored)
+    void store.persist.rehydrate()
+  }
+}
+
+/**
+ * Drop the previous profile's session state and load the active profile's
+ * preferences (defaults if it has none yet)
+ */
+function loadProfileState(): void {
+  // Persisted stores whose state belongs to a profile
+  loadProfileStore(useMusicStore)
+  loadProfileStore(useFeatureFlagsStore)
+  loadProfileStore(usePlaylistStore, profileScopedSessionStorage)
+
+  // The Web Playback SDK device is tied to the old account's token
+  spotifyPlayer.disconnect()
+  usePlaybackStore.getState().reset()
+}
 
 interface AuthState {
   // State
   isAuthenticated: boolean
   isLoading: boolean
-  error: string | null
+  // Why the last login or session failed (drives the recovery screens)
+  error: AuthError | null
+  // Scopes granted to the current session
+  grantedScopes: string[]
+  // Spotify accounts that can be switched between without logging out
+  profiles: AuthProfile[]
+  activeProfileId: string
 
   // Actions
   login: () => Promise<void>
+  requestFeatureAccess: (feature: AppFeature) => Promise<void>
   logout: () => void
   checkAuth: () => void
-  handleAuthCallback: (code: string) => Promise<boolean>
+  handleAuthCallback: (params: URLSearchParams) => Promise<boolean>
+  sessionEnded: (reason: AuthErrorKind) => void
   clearError: () => void
+  switchProfile: (profileId: string) => void
+  addProfile: (name: string, tokenStorage: TokenStorageKind) => void
+  renameProfile: (profileId: string, name: string) => void
+  removeProfile: (profileId: string) => void
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   // Initial state
   isAuthenticated: false,
   isLoading: true,
   error: null,
+  grantedScopes: [],
+  ...getProfileRegistry(),
 
   // Login action - starts OAuth flow
   login: async (): Promise<void> => {
@@ -35,49 +118,129 @@ export const useAuthStore = create<AuthState>((set) => ({
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : 'Failed to start login'
-      set({ error: errorMessage, isLoading: false })
+      set({ error: new AuthError('unknown', errorMessage), isLoading: false })
+    }
+  },
+
+  // Re-authorize with the scopes a feature needs (keeps the current session
+  // until Spotify redirects back)
+  requestFeatureAccess: async (feature: AppFeature): Promise<void> => {
+    set({ error: null })
+    try {
+      await startAuthFlow([feature])
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to start login'
+      set({ error: new AuthError('unknown', errorMessage) })
     }
   },
 
   // Logout action
   logout: (): void => {
     authLogout()
-    set({ isAuthenticated: false, error: null })
+    set({ isAuthenticated: false, error: null, grantedScopes: [] })
   },
 
   // Check if user is already authenticated
   checkAuth: (): void => {
     const { accessToken } = getStoredAuth()
     const authenticated = isAuthenticated() && !!accessToken
-    set({ isAuthenticated: authenticated, isLoading: false })
+    set({
+      isAuthenticated: authenticated,
+      isLoading: false,
+      grantedScopes: authenticated ? getGrantedScopes() : [],
+    })
   },
 
-  // Handle OAuth callback
-  handleAuthCallback: async (code: string): Promise<boolean> => {
+  // Handle OAuth callback (the query params Spotify redirected back with)
+  handleAuthCallback: async (params: URLSearchParams): Promise<boolean> => {
     set({ isLoading: true, error: null })
-    const result = await handleCallback(code)
 
-    if (result.success) {
-      set({ isAuthenticated: true, isLoading: false })
+    try {
+      await handleCallback(params)
+      set({
+        isAuthenticated: true,
+        isLoading: false,
+        grantedScopes: getGrantedScopes(),
+      })
       return true
-    } else {
+    } catch (err) {
       // Check if tokens were actually stored (handles race conditions in Strict Mode)
+      // This also keeps the session when a scope upgrade is declined
       const { accessToken } = getStoredAuth()
       if (accessToken) {
-        set({ isAuthenticated: true, isLoading: false })
+        set({
+          isAuthenticated: true,
+          isLoading: false,
+          grantedScopes: getGrantedScopes(),
+        })
         return true
       }
       set({
         isAuthenticated: false,
         isLoading: false,
-        error: result.error ?? 'Authentication failed',
+        error:
+          err instanceof AuthError
+            ? err
+            : new AuthError(
+                'unknown',
+                err instanceof Error ? err.message : undefined
+              ),
       })
       return false
     }
   },
 
+  // The session ended without the user logging out (e.g. revoked refresh)
+  sessionEnded: (reason: AuthErrorKind): void => {
+    set({
+      isAuthenticated: false,
+      isLoading: false,
+      error: new AuthError(reason),
+      grantedScopes: [],
+    })
+  },
+
   // Clear error
   clearError: (): void => {
     set({ error: null })
   },
+
+  // Switch to another profile (its session stays signed in if it has tokens)
+  switchProfile: (profileId: string): void => {
+    if (profileId === get().activeProfileId) return
+
+    // Reset before switching so nothing is written under the new profile
+    useMusicStore.getState().reset()
+    useUIStore.getState().resetSelection()
+
+    setActiveProfileId(profileId)
+    set({ ...getProfileRegistry(), error: null })
+    loadProfileState()
+    get().checkAuth()
+  },
+
+  // Add a profile and switch to it (it starts signed out)
+  addProfile: (name: string, tokenStorage: TokenStorageKind): void => {
+    const profile = registerProfile(name, tokenStorage)
+    set(getProfileRegistry())
+    get().switchProfile(profile.id)
+  },
+
+  renameProfile: (profileId: string, name: string): void => {
+    updateProfileName(profileId, name)
+    set(getProfileRegistry())
+  },
+
+  // Remove an inactive profile along with its tokens and cached data
+  removeProfile: (profileId: string): void => {
+    const profile = get().profiles.find((p) => p.id === profileId)
+    if (!profile || profileId === get().activeProfileId) return
+
+    tokenStores[profile.tokenStorage].clear(profileId)
+    void clearPersistedCache(profileId)
+    void clearListeningHistory(profileId)
+    unregisterProfile(profileId)
+    set(getProfileRegistry())
+  },
 }))
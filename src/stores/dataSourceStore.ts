@@ -0,0 +1,38 @@
+import { create } from 'zustand'
+import { spotifyProvider } from '@/api/providers/spotifyProvider'
+import { createDemoProvider } from '@/api/providers/demoProvider'
+import type { MusicDataProvider } from '@/api/providers/types'
+
+interface DataSourceState {
+  // Provider that feeds DataLoader (live Spotify by default)
+  provider: MusicDataProvider
+  // Offline demo with the bundled synthetic galaxy
+  isDemoMode: boolean
+
+  // Actions
+  setProvider: (provider: MusicDataProvider) => void
+  resetProvider: () => void
+  enterDemoMode: () => void
+  exitDemoMode: () => void
+}
+
+export const useDataSourceStore = create<DataSourceState>((set) => ({
+  provider: spotifyProvider,
+  isDemoMode: false,
+
+  setProvider: (provider): void => {
+    set({ provider, isDemoMode: false })
+  },
+
+  resetProvider: (): void => {
+    set({ provider: spotifyProvider, isDemoMode: false })
+  },
+
+  enterDemoMode: (): void => {
+    set({ provider: createDemoProvider(), isDemoMode: true })
+  },
+
+  exitDemoMode: (): void => {
+    set({ provider: spotifyProvider, isDemoMode: false })
+  },
+}))
@@ -1,5 +1,10 @@
 import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
+import { persist, createJSONStorage } from 'zustand/middleware'
+import { profileScopedStorage } from '@/api/spotify/profiles'
+import type { LayoutStrategyId, SizingSignal } from '@/types/domain'
+
+// Which planets get a discovery halo of related artists
+export type DiscoveryScope = 'selected' | 'galaxy'
 
 interface FeatureFlagsState {
   // Debug mode - shows FPS counter, SDK status indicator
@@ -10,6 +15,17 @@ interface FeatureFlagsState {
   showSettings: boolean
   // Artist labels - show persistent labels for top artists
   showLabels: boolean
+  // Recent orbit - show recently played artists outside the top lists
+  showRecentOrbit: boolean
+  // Library - merge followed artists and saved-track artists into the galaxy
+  showLibrary: boolean
+  // Discovery halo - related artists as satellites around their source planet
+  showDiscoveryHalo: boolean
+  discoveryScope: DiscoveryScope
+  // Planet size - listening signal that decides how big each artist is
+  sizingSignal: SizingSignal
+  // Layout - algorithm that positions planets
+  layoutStrategy: LayoutStrategyId
 
   // Actions
   setDebugMode: (enabled: boolean) => void
@@ -20,6 +36,15 @@ interface FeatureFlagsState {
   toggleSettings: () => void
   setShowLabels: (show: boolean) => void
   toggleLabels: () => void
+  setShowRecentOrbit: (show: boolean) => void
+  toggleRecentOrbit: () => void
+  setShowLibrary: (show: boolean) => void
+  toggleLibrary: () => void
+  setShowDiscoveryHalo: (show: boolean) => void
+  toggleDiscoveryHalo: () => void
+  setDiscoveryScope: (scope: DiscoveryScope) => void
+  setSizingSignal: (signal: SizingSignal) => void
+  setLayoutStrategy: (strategy: LayoutStrategyId) => void
 }
 
 export const useFeatureFlagsStore = create<FeatureFlagsState>()(
@@ -30,26 +55,81 @@ export const useFeatureFlagsStore = create<FeatureFlagsState>()(
       nebulasEnabled: false,
       showSettings: false,
       showLabels: true,
+      showRecentOrbit: true,
+      showLibrary: false, // Opt-in: pulls in many more artists
+      showDiscoveryHalo: false,
+      discoveryScope: 'selected',
+      sizingSignal: 'play_count', // Falls back to rank without imported history
+      layoutStrategy: 'orbital',
 
       // Actions
-      setDebugMode: (enabled) => set({ debugMode: enabled }),
-      toggleDebugMode: () => set((state) => ({ debugMode: !state.debugMode })),
-      setNebulasEnabled: (enabled) => set({ nebulasEnabled: enabled }),
-      toggleNebulas: () =>
-        set((state) => ({ nebulasEnabled: !state.nebulasEnabled })),
-      setShowSettings: (show) => set({ showSettings: show }),
-      toggleSettings: () =>
-        set((state) => ({ showSettings: !state.showSettings })),
-      setShowLabels: (show) => set({ showLabels: show }),
-      toggleLabels: () => set((state) => ({ showLabels: !state.showLabels })),
+      setDebugMode: (enabled): void => {
+        set({ debugMode: enabled })
+      },
+      toggleDebugMode: (): void => {
+        set((state) => ({ debugMode: !state.debugMode }))
+      },
+      setNebulasEnabled: (enabled): void => {
+        set({ nebulasEnabled: enabled })
+      },
+      toggleNebulas: (): void => {
+        set((state) => ({ nebulasEnabled: !state.nebulasEnabled }))
+      },
+      setShowSettings: (show): void => {
+        set({ showSettings: show })
+      },
+      toggleSettings: (): void => {
+        set((state) => ({ showSettings: !state.showSettings }))
+      },
+      setShowLabels: (show): void => {
+        set({ showLabels: show })
+      },
+      toggleLabels: (): void => {
+        set((state) => ({ showLabels: !state.showLabels }))
+      },
+      setShowRecentOrbit: (show): void => {
+        set({ showRecentOrbit: show })
+      },
+      toggleRecentOrbit: (): void => {
+        set((state) => ({ showRecentOrbit: !state.showRecentOrbit }))
+      },
+      setShowLibrary: (show): void => {
+        set({ showLibrary: show })
+      },
+      toggleLibrary: (): void => {
+        set((state) => ({ showLibrary: !state.showLibrary }))
+      },
+      setShowDiscoveryHalo: (show): void => {
+        set({ showDiscoveryHalo: show })
+      },
+      toggleDiscoveryHalo: (): void => {
+        set((state) => ({ showDiscoveryHalo: !state.showDiscoveryHalo }))
+      },
+      setDiscoveryScope: (scope): void => {
+        set({ discoveryScope: scope })
+      },
+      setSizingSignal: (signal): void => {
+        set({ sizingSignal: signal })
+      },
+      setLayoutStrategy: (strategy): void => {
+        set({ layoutStrategy: strategy })
+      },
     }),
     {
       name: 'auranova-feature-flags',
+      // Each account profile keeps its own preferences
+      storage: createJSONStorage(() => profileScopedStorage),
       partialize: (state) => ({
         // Only persist these values, not UI state like showSettings
         debugMode: state.debugMode,
         nebulasEnabled: state.nebulasEnabled,
         showLabels: state.showLabels,
+        showRecentOrbit: state.showRecentOrbit,
+        showLibrary: state.showLibrary,
+        showDiscoveryHalo: state.showDiscoveryHalo,
+        discoveryScope: state.discoveryScope,
+        sizingSignal: state.sizingSignal,
+        layoutStrategy: state.layoutStrategy,
       }),
     }
   )
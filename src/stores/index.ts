@@ -1,3 +1,6 @@
 export { useAuthStore } from './authStore'
 export { useMusicStore } from './musicStore'
 export { useUIStore } from './uiStore'
+export { useDataSourceStore } from './dataSourceStore'
+export { usePlaylistStore } from './playlistStore'
+export { useListeningHistoryStore } from './listeningHistoryStore'
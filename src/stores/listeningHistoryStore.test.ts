@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest'
+import { useListeningHistoryStore } from './listeningHistoryStore'
+
+vi.mock('@/api/cache', () => ({
+  saveListeningHistory: vi.fn(() => Promise.resolve()),
+  clearListeningHistory: vi.fn(() => Promise.resolve()),
+}))
+
+function textFile(name: string, text: string): File {
+  return { name, text: () => Promise.resolve(text) } as File
+}
+
+describe('importFiles', () => {
+  it('imports a scrobble export with hundreds of thousands of plays', async () => {
+    const rows = Array.from(
+      { length: 150_000 },
+      (_, i) =>
+        `Artist ${String(i % 500)},Album,Track ${String(i % 3000)},${String(1_500_000_000 + i * 60)}`
+    )
+
+    await useListeningHistoryStore
+      .getState()
+      .importFiles([textFile('scrobbles.csv', rows.join('\n'))])
+
+    const { plays, stats, error } = useListeningHistoryStore.getState()
+    expect(error).toBeNull()
+    expect(plays).toHaveLength(150_000)
+    expect(stats?.totalPlays).toBe(150_000)
+    expect(stats?.artists).toHaveLength(500)
+  })
+
+  it('merges files and reports the ones that could not be read', async () => {
+    await useListeningHistoryStore
+      .getState()
+      .importFiles([
+        textFile('a.csv', 'Artist B,Album,Track,1600000000'),
+        textFile('b.csv', 'Artist A,Album,Track,1500000000'),
+        textFile('notes.txt', 'hello'),
+      ])
+
+    const { plays, fileNames, error } = useListeningHistoryStore.getState()
+    expect(fileNames).toEqual(['a.csv', 'b.csv'])
+    // Oldest first across files
+    expect(plays.map((play) => play.artistName)).toEqual([
+      'Artist A',
+      'Artist B',
+    ])
+    expect(error).toContain('notes.txt')
+  })
+})
@@ -0,0 +1,174 @@
+import { create } from 'zustand'
+import {
+  clearListeningHistory,
+  saveListeningHistory,
+  type HistoryGalaxySource,
+  type ImportedListeningHistory,
+} from '@/api/cache'
+import {
+  aggregateListening,
+  filterPlaysByWindow,
+  FULL_HISTORY_WINDOW,
+  type HistoryWindow,
+  type ListeningPlay,
+  type ListeningStats,
+} from '@/simulation/listeningHistory'
+import { parseStreamingHistory } from '@/simulation/streamingHistory'
+import { parseLastfmScrobbles } from '@/simulation/lastfmScrobbles'
+
+interface ListeningHistoryState {
+  // Imported plays, oldest first (empty = none imported)
+  plays: ListeningPlay[]
+  fileNames: string[]
+  importedAt: number | null
+  // Date range the stats (and a history galaxy) cover
+  window: HistoryWindow
+  // Plays inside the window aggregated (null = none, the galaxy sizes by
+  // Spotify data)
+  stats: ListeningStats | null
+  galaxySource: HistoryGalaxySource
+  isImporting: boolean
+  // Files that couldn't be read on the last import
+  error: string | null
+
+  // Actions
+  importFiles: (files: File[]) => Promise<void>
+  restoreHistory: (history: ImportedListeningHistory | undefined) => void
+  setWindow: (window: HistoryWindow) => void
+  setGalaxySource: (source: HistoryGalaxySource) => void
+  clearHistory: () => void
+}
+
+/**
+ * Read plays from a Spotify streaming history or Last.fm export
+ */
+function parseHistoryFile(text: string): ListeningPlay[] {
+  try {
+    return parseStreamingHistory(text)
+  } catch (spotifyError) {
+    try {
+      return parseLastfmScrobbles(text)
+    } catch {
+      // Report the Spotify error for JSON files, they're the common case
+      throw spotifyError
+    }
+  }
+}
+
+function computeStats(
+  plays: ListeningPlay[],
+  window: HistoryWindow
+): ListeningStats | null {
+  if (plays.length === 0) return null
+  return aggregateListening(filterPlaysByWindow(plays, window))
+}
+
+export const useListeningHistoryStore = create<ListeningHistoryState>(
+  (set, get) => {
+    const persistHistory = (): void => {
+      const { plays, fileNames, importedAt, window, galaxySource } = get()
+      if (plays.length === 0 || importedAt === null) return
+      void saveListeningHistory({
+        plays,
+        fileNames,
+        importedAt,
+        window,
+        galaxySource,
+      })
+    }
+
+    return {
+      // Initial state
+      plays: [],
+      fileNames: [],
+      importedAt: null,
+      window: FULL_HISTORY_WINDOW,
+      stats: null,
+      galaxySource: 'top_artists',
+      isImporting: false,
+      error: null,
+
+      // Actions
+      // Replaces any previous import - exports are split over several
+      // files, so they are meant to be imported together
+      importFiles: async (files): Promise<void> => {
+        set({ isImporting: true, error: null })
+
+        let plays: ListeningPlay[] = []
+        const fileNames: string[] = []
+        const failures: string[] = []
+
+        for (const file of files) {
+          try {
+            // Multi-year exports hold hundreds of thousands of plays - too
+            // many to spread into push() as arguments
+            plays = plays.concat(parseHistoryFile(await file.text()))
+            fileNames.push(file.name)
+          } catch (error) {
+            failures.push(
+              `${file.name}: ${error instanceof Error ? error.message : 'unreadable'}`
+            )
+          }
+        }
+
+        const error = failures.length > 0 ? failures.join('\n') : null
+        if (fileNames.length === 0) {
+          set({ isImporting: false, error })
+          return
+        }
+
+        // ISO 8601 timestamps sort lexicographically
+        plays.sort((a, b) =>
+          a.playedAt < b.playedAt ? -1 : a.playedAt > b.playedAt ? 1 : 0
+        )
+        set({
+          plays,
+          fileNames,
+          importedAt: Date.now(),
+          window: FULL_HISTORY_WINDOW,
+          stats: computeStats(plays, FULL_HISTORY_WINDOW),
+          isImporting: false,
+          error,
+        })
+        persistHistory()
+      },
+
+      restoreHistory: (history): void => {
+        const plays = history?.plays ?? []
+        const window = history?.window ?? FULL_HISTORY_WINDOW
+        set({
+          plays,
+          fileNames: history?.fileNames ?? [],
+          importedAt: history?.importedAt ?? null,
+          window,
+          stats: computeStats(plays, window),
+          galaxySource: history?.galaxySource ?? 'top_artists',
+          error: null,
+        })
+      },
+
+      setWindow: (window): void => {
+        set({ window, stats: computeStats(get().plays, window) })
+        persistHistory()
+      },
+
+      setGalaxySource: (galaxySource): void => {
+        set({ galaxySource })
+        persistHistory()
+      },
+
+      clearHistory: (): void => {
+        set({
+          plays: [],
+          fileNames: [],
+          importedAt: null,
+          window: FULL_HISTORY_WINDOW,
+          stats: null,
+          galaxySource: 'top_artists',
+          error: null,
+        })
+        void clearListeningHistory()
+      },
+    }
+  }
+)
@@ -1,5 +1,7 @@
 import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
+import { persist, createJSONStorage } from 'zustand/middleware'
+import { profileScopedStorage } from '@/api/spotify/profiles'
+import { genreMemberNames } from '@/utils/genreTaxonomy'
 import type {
   GalaxyData,
   GalaxyArtist,
@@ -17,7 +19,11 @@ interface MusicState {
   previousTimeRange: TimeRange | null
   isTransitioning: boolean // For animation state
   isLoading: boolean
+  isWaitingOnSpotify: boolean // Rate limited, requests paused until backoff ends
   error: string | null
+  discoveryArtists: GalaxyArtist[] // Related-artist satellites (not part of galaxyData)
+  dataUpdatedAt: number | null // When the data behind galaxyData was fetched
+  isRestoredGalaxy: boolean // galaxyData came from the persisted snapshot
 
   // Actions
   setGalaxyData: (data: GalaxyData) => void
@@ -27,7 +33,11 @@ interface MusicState {
   setConnections: (connections: ArtistConnection[]) => void
   setAudioProfile: (profile: AudioProfile) => void
   setLoading: (loading: boolean) => void
+  setWaitingOnSpotify: (waiting: boolean) => void
   setError: (error: string | null) => void
+  setDiscoveryArtists: (artists: GalaxyArtist[]) => void
+  setDataUpdatedAt: (timestamp: number | null) => void
+  restoreGalaxy: (data: GalaxyData, dataUpdatedAt: number) => void
   setTransitioning: (transitioning: boolean) => void
   reset: () => void
 
@@ -60,104 +70,139 @@ export const useMusicStore = create<MusicState>()(
       previousTimeRange: null,
       isTransitioning: false,
       isLoading: false,
+      isWaitingOnSpotify: false,
       error: null,
-
-  // Actions
-  setGalaxyData: (data): void => {
-    const currentData = get().galaxyData
-    set({
-      previousGalaxyData: currentData,
-      galaxyData: data,
-      error: null,
-      isTransitioning: currentData !== null, // Only transition if we had previous data
-    })
-  },
-
-  setTimeRange: (range): void => {
-    const currentRange = get().timeRange
-    if (currentRange !== range) {
-      set({
-        previousTimeRange: currentRange,
-        timeRange: range,
-      })
-    }
-  },
-
-  setTransitioning: (transitioning): void => {
-    set({ isTransitioning: transitioning })
-  },
-
-  setArtists: (artists): void => {
-    set((state) => ({
-      galaxyData: state.galaxyData
-        ? { ...state.galaxyData, artists }
-        : { ...initialGalaxyData, artists },
-    }))
-  },
-
-  setGenres: (genres): void => {
-    set((state) => ({
-      galaxyData: state.galaxyData
-        ? { ...state.galaxyData, genres }
-        : { ...initialGalaxyData, genres },
-    }))
-  },
-
-  setConnections: (connections): void => {
-    set((state) => ({
-      galaxyData: state.galaxyData
-        ? { ...state.galaxyData, connections }
-        : { ...initialGalaxyData, connections },
-    }))
-  },
-
-  setAudioProfile: (profile): void => {
-    set((state) => ({
-      galaxyData: state.galaxyData
-        ? { ...state.galaxyData, audioProfile: profile }
-        : { ...initialGalaxyData, audioProfile: profile },
-    }))
-  },
-
-  setLoading: (loading): void => {
-    set({ isLoading: loading })
-  },
-
-  setError: (error): void => {
-    set({ error })
-  },
-
-  reset: (): void => {
-    set({
-      galaxyData: null,
-      previousGalaxyData: null,
-      previousTimeRange: null,
-      isTransitioning: false,
-      isLoading: false,
-      error: null,
-    })
-  },
-
-  // Selectors
-  getArtistById: (id): GalaxyArtist | undefined => {
-    return get().galaxyData?.artists.find((a) => a.id === id)
-  },
-
-  getGenreById: (id): GalaxyGenre | undefined => {
-    return get().galaxyData?.genres.find((g) => g.id === id)
-  },
-
-  getArtistsByGenre: (genreId): GalaxyArtist[] => {
-    const genre = get().getGenreById(genreId)
-    if (!genre) return []
-    return (
-      get().galaxyData?.artists.filter((a) => a.genres.includes(genre.name)) ??
-      []
-    )
-  },
+      discoveryArtists: [],
+      dataUpdatedAt: null,
+      isRestoredGalaxy: false,
+
+      // Actions
+      setGalaxyData: (data): void => {
+        const currentData = get().galaxyData
+        set({
+          previousGalaxyData: currentData,
+          galaxyData: data,
+          error: null,
+          isTransitioning: currentData !== null, // Only transition if we had previous data
+          isRestoredGalaxy: false,
+        })
+      },
+
+      setTimeRange: (range): void => {
+        const currentRange = get().timeRange
+        if (currentRange !== range) {
+          set({
+            previousTimeRange: currentRange,
+            timeRange: range,
+          })
+        }
+      },
+
+      setTransitioning: (transitioning): void => {
+        set({ isTransitioning: transitioning })
+      },
+
+      setArtists: (artists): void => {
+        set((state) => ({
+          galaxyData: state.galaxyData
+            ? { ...state.galaxyData, artists }
+            : { ...initialGalaxyData, artists },
+        }))
+      },
+
+      setGenres: (genres): void => {
+        set((state) => ({
+          galaxyData: state.galaxyData
+            ? { ...state.galaxyData, genres }
+            : { ...initialGalaxyData, genres },
+        }))
+      },
+
+      setConnections: (connections): void => {
+        set((state) => ({
+          galaxyData: state.galaxyData
+            ? { ...state.galaxyData, connections }
+            : { ...initialGalaxyData, connections },
+        }))
+      },
+
+      setAudioProfile: (profile): void => {
+        set((state) => ({
+          galaxyData: state.galaxyData
+            ? { ...state.galaxyData, audioProfile: profile }
+            : { ...initialGalaxyData, audioProfile: profile },
+        }))
+      },
+
+      setLoading: (loading): void => {
+        set({ isLoading: loading })
+      },
+
+      setWaitingOnSpotify: (waiting): void => {
+        set({ isWaitingOnSpotify: waiting })
+      },
+
+      setError: (error): void => {
+        set({ error })
+      },
+
+      setDiscoveryArtists: (artists): void => {
+        set({ discoveryArtists: artists })
+      },
+
+      setDataUpdatedAt: (timestamp): void => {
+        set({ dataUpdatedAt: timestamp })
+      },
+
+      restoreGalaxy: (data, dataUpdatedAt): void => {
+        set({
+          galaxyData: data,
+          dataUpdatedAt,
+          isRestoredGalaxy: true,
+        })
+      },
+
+      reset: (): void => {
+        set({
+          galaxyData: null,
+          previousGalaxyData: null,
+          previousTimeRange: null,
+          isTransitioning: false,
+          isLoading: false,
+          isWaitingOnSpotify: false,
+          error: null,
+          discoveryArtists: [],
+          dataUpdatedAt: null,
+          isRestoredGalaxy: false,
+        })
+      },
+
+      // Selectors
+      getArtistById: (id): GalaxyArtist | undefined => {
+        return (
+          get().galaxyData?.artists.find((a) => a.id === id) ??
+          get().discoveryArtists.find((a) => a.id === id)
+        )
+      },
+
+      getGenreById: (id): GalaxyGenre | undefined => {
+        return get().galaxyData?.genres.find((g) => g.id === id)
+      },
+
+      getArtistsByGenre: (genreId): GalaxyArtist[] => {
+        const genre = get().getGenreById(genreId)
+        const galaxyData = get().galaxyData
+        if (!genre || !galaxyData) return []
+        const names = genreMemberNames(genre, galaxyData.genres)
+        return galaxyData.artists.filter((a) =>
+          a.genres.some((g) => names.has(g))
+        )
+      },
     }),
     {
       name: 'auranova-music-preferences',
+      // Each account profile keeps its own preferences
+      storage: createJSONStorage(() => profileScopedStorage),
       partialize: (state) => ({
         // Only persist the time range selection
         timeRange: state.timeRange,
@@ -0,0 +1,87 @@
+import { create } from 'zustand'
+import { createJSONStorage, persist } from 'zustand/middleware'
+import { profileScopedSessionStorage } from '@/api/spotify/profiles'
+import type { PlaylistOrdering, PlaylistSelection } from '@/types/domain'
+
+interface PlaylistState {
+  // Artists the open builder draws from (null = builder closed)
+  selection: PlaylistSelection | null
+  ordering: PlaylistOrdering
+  // Seed for the shuffle ordering, so preview and saved order match
+  shuffleSeed: number
+
+  // Lasso: while active, the scene is drawn on instead of rotated
+  isLassoActive: boolean
+  // Finished lasso in normalized device coordinates, waiting to be resolved
+  // against the camera
+  lassoPath: [number, number][] | null
+
+  // Actions
+  openPlaylistBuilder: (selection: PlaylistSelection) => void
+  closePlaylistBuilder: () => void
+  setOrdering: (ordering: PlaylistOrdering) => void
+  reshuffle: () => void
+  startLasso: () => void
+  cancelLasso: () => void
+  finishLasso: (path: [number, number][]) => void
+}
+
+export const usePlaylistStore = create<PlaylistState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      selection: null,
+      ordering: 'energy_ramp',
+      shuffleSeed: 1,
+      isLassoActive: false,
+      lassoPath: null,
+
+      // Actions
+      openPlaylistBuilder: (selection): void => {
+        set({ selection, isLassoActive: false, lassoPath: null })
+      },
+
+      closePlaylistBuilder: (): void => {
+        set({ selection: null })
+      },
+
+      setOrdering: (ordering): void => {
+        set({ ordering })
+      },
+
+      reshuffle: (): void => {
+        set({
+          ordering: 'shuffle',
+          shuffleSeed: Math.floor(Math.random() * 2 ** 31),
+        })
+      },
+
+      startLasso: (): void => {
+        set({ isLassoActive: true, lassoPath: null })
+      },
+
+      cancelLasso: (): void => {
+        set({ isLassoActive: false, lassoPath: null })
+      },
+
+      finishLasso: (path): void => {
+        // Too few points to enclose anything
+        if (path.length < 3) {
+          set({ isLassoActive: false, lassoPath: null })
+          return
+        }
+        set({ isLassoActive: false, lassoPath: path })
+      },
+    }),
+    {
+      name: 'auranova-playlist-builder',
+      // Survives the redirect of a playlist scope upgrade, but not the tab
+      storage: createJSONStorage(() => profileScopedSessionStorage),
+      partialize: (state) => ({
+        selection: state.selection,
+        ordering: state.ordering,
+        shuffleSeed: state.shuffleSeed,
+      }),
+    }
+  )
+)
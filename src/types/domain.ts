@@ -3,6 +3,9 @@
 // Evolution status for artists across time ranges
 export type EvolutionStatus = 'stable' | 'new' | 'fading' | 'rising' | 'falling'
 
+// Which population an artist belongs to
+export type ArtistSource = 'top' | 'followed' | 'library'
+
 export interface GalaxyArtist {
   id: string
   name: string
@@ -14,12 +17,22 @@ export interface GalaxyArtist {
   // Position in 3D space (calculated by simulation)
   position: [number, number, number]
   // Visual properties
-  size: number // Based on popularity/listen count
+  size: number // Based on the configured sizing signal
   color: string // Based on primary genre
   brightness: number // Based on energy/valence
   // Evolution tracking (for time range transitions)
   evolutionStatus?: EvolutionStatus
   rankChange?: number // Positive = moved up, negative = moved down
+  // Recently played tracking
+  lastPlayedAt?: string // ISO timestamp of the most recent play
+  recentPlayCount?: number // Plays in the recently played history
+  isRecentOrbit?: boolean // Played recently but not in the top lists
+  // Imported listening history (drives size and brightness when present)
+  historyPlayCount?: number // Counted plays in the imported history
+  historyMinutes?: number // Total listening time in the imported history
+  source?: ArtistSource // Population the artist came from (unset for recent orbit)
+  // Discovery halo
+  discoveredFrom?: string // Source artist ID for related-artist satellites
 }
 
 export interface GalaxyGenre {
@@ -31,6 +44,10 @@ export interface GalaxyGenre {
   artistCount: number
   avgEnergy: number
   avgValence: number
+  audioSource?: AudioValueSource // Whether avgEnergy/avgValence were measured
+  // Genre taxonomy (missing on data cached before it)
+  parentId?: string // Family genre this genre belongs to
+  childIds?: string[] // Genres grouped under a family (set on families only)
 }
 
 export interface ArtistConnection {
@@ -39,12 +56,58 @@ export interface ArtistConnection {
   strength: number // 0-1, based on shared genres or related artists
 }
 
+export type AudioMetric =
+  | 'energy'
+  | 'valence'
+  | 'danceability'
+  | 'acousticness'
+  | 'tempo'
+
+// Measured = from Spotify audio features, estimated = derived from genres
+export type AudioValueSource = 'measured' | 'estimated'
+
 export interface AudioProfile {
   energy: number
   valence: number
   danceability: number
   acousticness: number
   tempo: number
+  sources?: Record<AudioMetric, AudioValueSource> // Missing on older cached data
+}
+
+// How many tracks actually had audio features (Spotify returns null for some)
+export interface AudioFeatureCoverage {
+  totalTracks: number
+  tracksWithFeatures: number
+  missingTrackIds: string[]
+  ratio: number // 0-1, 1 = every track has features
+}
+
+// Listening signal that decides planet size
+export type SizingSignal = 'rank' | 'top_tracks' | 'popularity' | 'play_count'
+
+export const SIZING_SIGNAL_LABELS: Record<SizingSignal, string> = {
+  rank: 'Top artist rank',
+  top_tracks: 'Top tracks',
+  popularity: 'Global popularity',
+  play_count: 'Play count',
+}
+
+// Algorithm that positions planets in the galaxy
+export type LayoutStrategyId = 'orbital' | 'force' | 'mood' | 'arms'
+
+// Layout a galaxy was positioned with, for layout-specific scene guides
+export interface GalaxyLayout {
+  strategy: LayoutStrategyId
+  radius: number // Galaxy radius the layout filled
+}
+
+// How planet sizes were computed, for the size legend
+export interface PlanetSizing {
+  signal: SizingSignal // Signal used
+  requested: SizingSignal // Signal picked (differs when it had no data)
+  smallest: number // Signal value of the smallest planet
+  largest: number // Signal value of the largest planet
 }
 
 export interface GalaxyData {
@@ -52,6 +115,9 @@ export interface GalaxyData {
   genres: GalaxyGenre[]
   connections: ArtistConnection[]
   audioProfile: AudioProfile // Overall profile
+  audioCoverage?: AudioFeatureCoverage // Missing on data cached before coverage tracking
+  sizing?: PlanetSizing // Missing on data cached before configurable sizing
+  layout?: GalaxyLayout // Missing on data cached before layout strategies
 }
 
 // UI State types
@@ -65,6 +131,20 @@ export interface Selection {
   genreId: string | null
 }
 
+// Artists a playlist is built from
+export type PlaylistSelection =
+  | { kind: 'genre'; genreId: string }
+  | { kind: 'neighborhood'; artistId: string } // Artist plus connected artists
+  | { kind: 'lasso'; artistIds: string[] } // Drawn around in the scene
+
+export type PlaylistOrdering = 'energy_ramp' | 'tempo' | 'shuffle'
+
+export const PLAYLIST_ORDERING_LABELS: Record<PlaylistOrdering, string> = {
+  energy_ramp: 'Energy ramp',
+  tempo: 'Tempo',
+  shuffle: 'Shuffle',
+}
+
 // Time range for Spotify data
 export type TimeRange = 'short_term' | 'medium_term' | 'long_term'
 
@@ -1,4 +1,5 @@
 import { color as d3Color } from 'd3-color'
+import { GENRE_FAMILIES, genreFamily } from './genreTaxonomy'
 
 // Genre to color mapping
 // Uses a consistent color scheme for major genre families
@@ -92,6 +93,12 @@ export function colorFromGenre(genre: string): string {
     }
   }
 
+  // Micro-genres without a family keyword take their family's color
+  const family = genreFamily(normalizedGenre)
+  if (family) {
+    return GENRE_COLOR_MAP[GENRE_FAMILIES[family][0]]
+  }
+
   // Generate consistent color for unknown genres
   const hash = hashString(normalizedGenre)
   const hue = hash % 360
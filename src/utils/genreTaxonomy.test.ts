@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import type { GalaxyGenre } from '@/types/domain'
+import { familyGenreId, genreFamily, genreMemberNames } from './genreTaxonomy'
+
+function genre(id: string, extra: Partial<GalaxyGenre> = {}): GalaxyGenre {
+  return {
+    id,
+    name: id,
+    color: '#ffffff',
+    position: [0, 0, 0],
+    artistCount: 1,
+    avgEnergy: 0.5,
+    avgValence: 0.5,
+    ...extra,
+  }
+}
+
+describe('genreFamily', () => {
+  it('finds the family of a family keyword', () => {
+    expect(genreFamily('rock')).toBe('rock')
+    expect(genreFamily('hip hop')).toBe('hip-hop')
+    expect(genreFamily('drum and bass')).toBe('electronic')
+  })
+
+  it('ignores case and surrounding whitespace', () => {
+    expect(genreFamily('  Hard Rock ')).toBe('rock')
+  })
+
+  it('falls back to the trailing family noun', () => {
+    expect(genreFamily('bedroom pop')).toBe('pop')
+    expect(genreFamily('pop punk')).toBe('rock')
+    expect(genreFamily('swedish death metal')).toBe('rock')
+  })
+
+  it('maps micro-genres without a family keyword', () => {
+    expect(genreFamily('escape room')).toBe('hip-hop')
+    expect(genreFamily('shoegaze')).toBe('rock')
+    expect(genreFamily('stomp and holler')).toBe('country')
+    expect(genreFamily('uk drill')).toBe('hip-hop')
+  })
+
+  it('finds micro-genre words anywhere in the name', () => {
+    expect(genreFamily('drill espanol')).toBe('hip-hop')
+  })
+
+  it('returns the same family when asked again', () => {
+    expect(genreFamily('chillwave')).toBe('electronic')
+    expect(genreFamily('chillwave')).toBe('electronic')
+  })
+
+  it('returns null for unrecognized genres', () => {
+    expect(genreFamily('xyzzy')).toBeNull()
+  })
+})
+
+describe('genreMemberNames', () => {
+  const genres = [
+    genre(familyGenreId('rock'), {
+      name: 'Rock',
+      childIds: ['shoegaze', 'pop-punk'],
+    }),
+    genre('shoegaze', { parentId: familyGenreId('rock') }),
+    genre('pop-punk', { name: 'pop punk', parentId: familyGenreId('rock') }),
+    genre('bedroom-pop', { name: 'bedroom pop' }),
+  ]
+
+  it("lists a family's child genres", () => {
+    expect(genreMemberNames(genres[0], genres)).toEqual(
+      new Set(['shoegaze', 'pop punk'])
+    )
+  })
+
+  it('lists only its own name for a plain genre', () => {
+    expect(genreMemberNames(genres[3], genres)).toEqual(
+      new Set(['bedroom pop'])
+    )
+  })
+})
@@ -0,0 +1,211 @@
+// Genre taxonomy: maps Spotify's genres (including micro-genres like
+// "escape room" or "bedroom pop") to a handful of parent families
+
+import type { GalaxyGenre } from '@/types/domain'
+
+// Major genre families and the keywords that identify them
+// Mirrors the groupings in GENRE_COLOR_MAP so colors and families agree
+export type GenreFamily =
+  | 'electronic'
+  | 'rock'
+  | 'pop'
+  | 'hip-hop'
+  | 'jazz'
+  | 'classical'
+  | 'country'
+  | 'latin'
+  | 'world'
+
+export const GENRE_FAMILIES: Record<GenreFamily, string[]> = {
+  electronic: [
+    'electronic',
+    'edm',
+    'house',
+    'techno',
+    'trance',
+    'dubstep',
+    'drum and bass',
+  ],
+  rock: [
+    'rock',
+    'metal',
+    'hard rock',
+    'punk',
+    'alternative',
+    'grunge',
+    'indie',
+  ],
+  pop: ['pop', 'synth-pop', 'dance pop', 'electropop'],
+  'hip-hop': ['hip hop', 'rap', 'r&b', 'soul', 'funk'],
+  jazz: ['jazz', 'blues', 'swing', 'bebop'],
+  classical: ['classical', 'orchestral', 'opera', 'chamber'],
+  country: ['country', 'folk', 'bluegrass', 'americana'],
+  latin: ['latin', 'reggaeton', 'salsa', 'bossa'],
+  world: ['world', 'ambient', 'new age', 'meditation'],
+}
+
+// Display names for the families
+export const GENRE_FAMILY_LABELS: Record<GenreFamily, string> = {
+  electronic: 'Electronic',
+  rock: 'Rock',
+  pop: 'Pop',
+  'hip-hop': 'Hip-Hop & R&B',
+  jazz: 'Jazz & Blues',
+  classical: 'Classical',
+  country: 'Country & Folk',
+  latin: 'Latin',
+  world: 'World & Ambient',
+}
+
+// Micro-genres (and genre words) whose names don't contain a family keyword
+const MICRO_GENRE_FAMILIES: Record<string, GenreFamily> = {
+  // Electronic
+  'big room': 'electronic',
+  brostep: 'electronic',
+  chillwave: 'electronic',
+  downtempo: 'electronic',
+  dnb: 'electronic',
+  electro: 'electronic',
+  garage: 'electronic',
+  'future bass': 'electronic',
+  idm: 'electronic',
+  jungle: 'electronic',
+  synthwave: 'electronic',
+  'trip hop': 'electronic',
+  vaporwave: 'electronic',
+  // Rock
+  emo: 'rock',
+  'permanent wave': 'rock',
+  'post-punk': 'rock',
+  shoegaze: 'rock',
+  slowcore: 'rock',
+  stoner: 'rock',
+  screamo: 'rock',
+  // Pop
+  bubblegum: 'pop',
+  hyperpop: 'pop',
+  'neo mellow': 'pop',
+  otacore: 'pop',
+  'talent show': 'pop',
+  // Hip-Hop & R&B
+  drill: 'hip-hop',
+  'escape room': 'hip-hop',
+  grime: 'hip-hop',
+  'lo-fi beats': 'hip-hop',
+  motown: 'hip-hop',
+  'neo soul': 'hip-hop',
+  phonk: 'hip-hop',
+  trap: 'hip-hop',
+  // Jazz & Blues
+  'big band': 'jazz',
+  'doo-wop': 'jazz',
+  ragtime: 'jazz',
+  // Classical
+  baroque: 'classical',
+  'early music': 'classical',
+  minimalism: 'classical',
+  requiem: 'classical',
+  soundtrack: 'classical',
+  // Country & Folk
+  'singer-songwriter': 'country',
+  'stomp and holler': 'country',
+  'stomp and flutter': 'country',
+  outlaw: 'country',
+  // Latin
+  bachata: 'latin',
+  cumbia: 'latin',
+  corrido: 'latin',
+  mpb: 'latin',
+  samba: 'latin',
+  sertanejo: 'latin',
+  tango: 'latin',
+  // World & Ambient
+  afrobeat: 'world',
+  afrobeats: 'world',
+  amapiano: 'world',
+  dancehall: 'world',
+  drone: 'world',
+  reggae: 'world',
+  sleep: 'world',
+}
+
+// Family of a genre name or its trailing words - Spotify genres end in
+// their family noun ("bedroom pop", "pop punk", "uk drill")
+function headWordFamily(normalizedGenre: string): GenreFamily | null {
+  const words = normalizedGenre.split(/\s+/)
+  const families = Object.entries(GENRE_FAMILIES) as [GenreFamily, string[]][]
+
+  // Longest ending first, so "hard rock" wins over "rock"
+  for (let start = 0; start < words.length; start++) {
+    const ending = words.slice(start).join(' ')
+    const micro = MICRO_GENRE_FAMILIES[ending] as GenreFamily | undefined
+    if (micro) return micro
+    for (const [family, keywords] of families) {
+      if (keywords.includes(ending)) return family
+    }
+  }
+
+  return null
+}
+
+// Family of a normalized genre name, looked up from scratch
+function findGenreFamily(normalizedGenre: string): GenreFamily | null {
+  const families = Object.entries(GENRE_FAMILIES) as [GenreFamily, string[]][]
+
+  // Check the whole name and its trailing words
+  const headFamily = headWordFamily(normalizedGenre)
+  if (headFamily) return headFamily
+
+  // Micro-genre words anywhere in the name (e.g. "drill espanol")
+  const paddedGenre = ` ${normalizedGenre} `
+  const microFamily = Object.entries(MICRO_GENRE_FAMILIES).find(([micro]) =>
+    paddedGenre.includes(` ${micro} `)
+  )?.[1]
+  if (microFamily) return microFamily
+
+  // Check partial match
+  for (const [family, keywords] of families) {
+    if (
+      keywords.some(
+        (key) => normalizedGenre.includes(key) || key.includes(normalizedGenre)
+      )
+    ) {
+      return family
+    }
+  }
+
+  return null
+}
+
+// Families already looked up - Spotify has a few thousand genres, each
+// looked up for every artist tagged with it
+const familyCache = new Map<string, GenreFamily | null>()
+
+// Get the family a genre belongs to (null for unrecognized genres)
+export function genreFamily(genre: string): GenreFamily | null {
+  const normalizedGenre = genre.toLowerCase().trim()
+  let family = familyCache.get(normalizedGenre)
+  if (family === undefined) {
+    family = findGenreFamily(normalizedGenre)
+    familyCache.set(normalizedGenre, family)
+  }
+  return family
+}
+
+// Id of the genre entry that groups a family's genres
+export function familyGenreId(family: GenreFamily): string {
+  return `family:${family}`
+}
+
+// Genre names an entry covers - its own, or its children's for a family
+export function genreMemberNames(
+  genre: GalaxyGenre,
+  genres: GalaxyGenre[]
+): Set<string> {
+  if (!genre.childIds) return new Set([genre.name])
+
+  const childIds = new Set(genre.childIds)
+  return new Set(
+    genres.filter((child) => childIds.has(child.id)).map((child) => child.name)
+  )
+}